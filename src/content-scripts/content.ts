@@ -1,12 +1,22 @@
+// Registers the built-in pickers
+import '../pickers/index.js'
 import Modal from '../components/Modal.svelte'
 import { setupKeyboardHandler, cleanupKeyboardHandler } from '../services/keyboard-handler.js'
+import { loadKeymap } from '../stores/keyboard.js'
 import { openModal, isModalOpen, closeModal } from '../stores/modal.js'
 import { get } from 'svelte/store'
-import { updateAllTabs, updateHarpoonTabs } from '../stores/tabs.js'
-import { requestInitialSync } from '../services/service-worker-bridge.js'
+import {
+  updateAllTabs,
+  updateHarpoonTabs,
+  updateFrecencyScores,
+  tabScope,
+  requestTabSync
+} from '../stores/tabs.js'
 import { hideLoading } from '../stores/loading.js'
 import { updateHarpoonIndicator, hideHarpoonIndicator } from '../stores/harpoon-indicator.js'
 import { contentLogger } from '../utils/logger.js'
+import { isRunningInIFrame } from '../utils/html-utils.js'
+import { grepPage, revealGrepMatch } from '../services/page-grep.js'
 import { configureLogs } from '../utils/logging-config.js'
 import type { Tab } from '../types/shared.js'
 
@@ -185,9 +195,19 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
   if (request.message === 'tabsUpdated') {
     // Update the stores with the latest tab data
-    if (request.allTabs) {
+    // Broadcasts carry this window's tabs; a list over all windows asks for all of them
+    if (request.allTabs && get(tabScope) === 'all') {
+      requestTabSync()
+        .then((syncData) => updateAllTabs(syncData.allTabs))
+        .catch((error) => {
+          contentLogger.error('Failed to sync tabs of all windows:', error)
+        })
+    } else if (request.allTabs) {
       updateAllTabs(request.allTabs)
     }
+    if (request.frecencyScores) {
+      updateFrecencyScores(request.frecencyScores)
+    }
     // Note: harpoonTabs are no longer sent in tabsUpdated messages
     // Harpoon updates are handled via harpoonChanged messages for proper window scoping
     sendResponse({ success: true })
@@ -195,10 +215,13 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
   if (request.message === 'harpoonChanged') {
     // Request fresh window-specific data
-    requestInitialSync()
+    requestTabSync()
       .then((syncData) => {
         updateAllTabs(syncData.allTabs)
         updateHarpoonTabs(syncData.harpoonTabs)
+        if (syncData.frecencyScores) {
+          updateFrecencyScores(syncData.frecencyScores)
+        }
 
         // Update harpoon indicator based on current tab
         const currentUrl = window.location.href
@@ -229,6 +252,15 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     sendResponse({ success: true })
   }
 
+  // Live grep from another tab's modal; only the top frame answers, for the whole page
+  if (request.message === 'grepPage' && !isRunningInIFrame()) {
+    sendResponse({ matches: grepPage(request.query, { maxMatches: request.maxMatches }) })
+  }
+
+  if (request.message === 'revealGrepMatch' && !isRunningInIFrame()) {
+    sendResponse({ found: revealGrepMatch(request) })
+  }
+
   if (request.message === 'settingsChanged' && request.type === 'excludedSites') {
     // Settings changed, check if we should clean up or re-enable
     checkIfSiteExcluded().then((isExcluded) => {
@@ -243,12 +275,19 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     sendResponse({ success: true })
   }
 
+  if (request.message === 'settingsChanged' && request.type === 'keymap') {
+    loadKeymap()
+    sendResponse({ success: true })
+  }
+
   // Return true to indicate we will send a response asynchronously
   return true
 })
 
 // Setup keyboard event handling IMMEDIATELY to ensure priority over other extensions
 setupKeyboardHandler()
+// The built-in keys work until the user's keymap arrives
+loadKeymap()
 
 // Initialize the extension - check exclusion asynchronously
 async function initializeIfNotExcluded() {
@@ -0,0 +1,40 @@
+import { bookmarks, loadBookmarks, searchBookmarks } from '../stores/bookmarks.js'
+import { countOf, openItemUrl, searchIn } from './common.js'
+import type { PickerSource } from './types.js'
+
+// All bookmarks, labelled with their folders
+export const bookmarksPicker: PickerSource = {
+  mode: 'bookmarks',
+  title: 'Bookmarks',
+  keymap: {
+    open: 'b',
+    description: '[B]ookmarks',
+    // Like splits in Telescope
+    bindings: [
+      {
+        keys: '<C-v>',
+        modes: ['insert', 'normal', 'visual'],
+        action: 'openInWindow',
+        description: 'open in new window'
+      },
+      {
+        keys: '<C-x>',
+        modes: ['insert', 'normal', 'visual'],
+        action: 'openInWindow',
+        description: 'open in new window'
+      }
+    ]
+  },
+  load: loadBookmarks,
+  results: searchIn(bookmarks, searchBookmarks),
+  counter: countOf(bookmarks),
+  renderItem: (item) => ({
+    icon: { favicon: item.faviconUrl },
+    title: item.titleSegments,
+    detail: item.urlSegments
+  }),
+  actions: {
+    open: openItemUrl('current'),
+    openInWindow: openItemUrl('window')
+  }
+}
@@ -0,0 +1,220 @@
+import { derived, type Readable } from 'svelte/store'
+import type { PickerItem, SearchMatch, Tab } from '../types/shared.js'
+import type { SearchResult } from '../services/search.js'
+import { searchClient } from '../services/search-client.js'
+import { rankByFrecency } from '../services/frecency.js'
+import {
+  switchToTab,
+  switchToGrepMatch,
+  openUrl,
+  closeTabs
+} from '../services/service-worker-bridge.js'
+import { harpoonTabs, frecencyScores, removeTabOptimistically } from '../stores/tabs.js'
+import { closeModal, setSelectedTab, switchToNormalMode } from '../stores/modal.js'
+import { clearVisualSelection } from '../stores/visual-selection.js'
+import { clearMarks } from '../stores/marks.js'
+import { showTabSwitchLoading, hideLoading } from '../stores/loading.js'
+import { triggerBorderFlash } from '../stores/harpoon-flash.js'
+import { tabsOf } from '../utils/picker-items.js'
+import { keyboardLogger, searchLogger } from '../utils/logger.js'
+import type { PickerContext } from './types.js'
+
+/**
+ * A "shown/total" counter over one or more lists
+ */
+export function countOf(...lists: Readable<unknown[]>[]): Readable<(shown: number) => string> {
+  return derived(lists, ($lists) => {
+    const total = $lists.reduce((sum, list) => sum + list.length, 0)
+    return (shown: number) => `${shown}/${total}`
+  })
+}
+
+/**
+ * Results for pickers whose data is searched right here in the content script
+ */
+export function searchIn<T>(data: Readable<T>, search: (data: T, query: string) => PickerItem[]) {
+  return (query: Readable<string>): Readable<PickerItem[]> =>
+    derived([data, query], ([$data, $query]) => search($data, $query))
+}
+
+/**
+ * Results for pickers over open tabs. Searching runs in the service worker, so results
+ * arrive asynchronously; until then the previous results stay on screen.
+ */
+export function searchTabsIn(
+  tabs: Readable<Tab[]>,
+  toItem: (tab: Tab, matches: SearchMatch[], harpoonTabs: Tab[]) => PickerItem,
+  { frecency }: { frecency: boolean }
+) {
+  return (query: Readable<string>): Readable<PickerItem[]> => {
+    // What the list currently shows, so tab removals can be applied before a new search returns
+    let displayed: { query: string; items: PickerItem[] } = { query: '', items: [] }
+
+    return derived(
+      [query, tabs, harpoonTabs, frecencyScores],
+      ([$query, $tabs, $harpoonTabs, $frecencyScores], set: (items: PickerItem[]) => void) => {
+        const show = (items: PickerItem[]) => {
+          displayed = { query: $query, items }
+          set(items)
+        }
+
+        if (!$query.trim()) {
+          // Plain titles and URLs in the source's own order (MRU for tabs, slots for harpoon)
+          show($tabs.map((tab) => toItem(tab, [], $harpoonTabs)))
+          return
+        }
+
+        // Drop closed tabs right away (e.g. optimistic deletes) instead of waiting for the search
+        if (displayed.query === $query) {
+          const liveTabIds = new Set($tabs.map((tab) => tab.id))
+          show(displayed.items.filter((item) => item.tab && liveTabIds.has(item.tab.id)))
+        }
+
+        searchClient
+          .search(
+            $tabs,
+            $query,
+            $harpoonTabs.map((tab) => tab.id)
+          )
+          .then((results) => {
+            // A newer search replaced this one
+            if (!results) return
+            show(toItems(results, frecency ? $frecencyScores : null, $harpoonTabs))
+          })
+          .catch((error) => {
+            searchLogger.error('Tab search failed:', error)
+          })
+
+        // Leaving the picker (or a newer search) drops this one
+        return () => searchClient.cancel()
+      },
+      [] as PickerItem[]
+    )
+
+    function toItems(
+      results: SearchResult[],
+      scores: Record<number, number> | null,
+      harpoonTabs: Tab[]
+    ): PickerItem[] {
+      const ranked = scores
+        ? rankByFrecency(
+            results,
+            (result) => result.item.id,
+            (result) => result.score,
+            scores
+          )
+        : results
+      return ranked.map((result) => toItem(result.item, result.matches, harpoonTabs))
+    }
+  }
+}
+
+/**
+ * Switch to the tab behind the row; live grep rows also scroll the tab to the matching line
+ */
+export function switchToItemTab({ items, index }: PickerContext) {
+  const item = items[index]
+  const tab = item?.tab
+  if (!tab) {
+    return
+  }
+
+  showTabSwitchLoading()
+  const switchPromise = item.grepMatch
+    ? switchToGrepMatch(tab.id, item.grepMatch)
+    : switchToTab(tab.id)
+  switchPromise
+    .then(() => {
+      hideLoading()
+      closeModal()
+    })
+    .catch((error) => {
+      hideLoading()
+      keyboardLogger.error('Failed to switch to tab:', error)
+    })
+}
+
+/**
+ * Open the row's URL in place of the current page (or switch to a tab that has it open),
+ * or in a new window
+ */
+export function openItemUrl(target: 'current' | 'window') {
+  return ({ items, index }: PickerContext) => {
+    const item = items[index]
+    if (!item) {
+      return
+    }
+
+    closeModal()
+    openUrl(item.url, target).catch((error) => {
+      keyboardLogger.error(`Failed to open ${item.url}:`, error)
+    })
+  }
+}
+
+/**
+ * The tabs an action works on: the marked tabs if there are any, else those in the visual
+ * selection, else the one under the cursor
+ */
+export function targetTabs({ items, index, selection, marked }: PickerContext): Tab[] {
+  if (marked.length > 0) {
+    return marked
+  }
+  return tabsOf(selection.length > 0 ? selection.map((i) => items[i]) : [items[index]])
+}
+
+/**
+ * Batch actions use up the marks and the visual selection; afterwards the list is back in
+ * normal mode
+ */
+export function endBatch({ selection, marked }: PickerContext) {
+  if (marked.length > 0) {
+    clearMarks()
+  }
+  if (selection.length > 0) {
+    clearVisualSelection()
+    switchToNormalMode()
+  }
+}
+
+/**
+ * Close the tab under the cursor, or every marked or visually selected tab
+ */
+export function closeItemTabs(context: PickerContext) {
+  const { items, index, selection, marked } = context
+  const tabsToClose = targetTabs(context)
+  if (tabsToClose.length === 0) {
+    return
+  }
+
+  // Show visual feedback
+  triggerBorderFlash()
+
+  // Optimistically remove the tabs from the UI immediately for responsive feedback
+  tabsToClose.forEach((tab) => removeTabOptimistically(tab.id))
+
+  // Calculate what the list will be after removal (before store updates)
+  const closedIds = new Set(tabsToClose.map((tab) => tab.id))
+  const itemsAfterRemoval = items.filter((item) => !item.tab || !closedIds.has(item.tab.id))
+
+  endBatch(context)
+
+  if (itemsAfterRemoval.length === 0) {
+    closeModal()
+  } else {
+    // Keep the cursor within bounds, at the first removed row
+    const firstIndex = selection.length > 0 ? Math.min(...selection) : index
+    setSelectedTab(Math.max(0, Math.min(firstIndex, itemsAfterRemoval.length - 1)))
+  }
+
+  // Close the actual browser tabs as one batch of the close journal, so u reopens them all
+  closeTabs([...closedIds]).catch((error) => {
+    keyboardLogger.error('Failed to close tabs:', error)
+  })
+
+  if (marked.length > 0) {
+    keyboardLogger.info(`Batch deleted ${tabsToClose.length} marked tabs`)
+  } else if (selection.length > 0) {
+    keyboardLogger.info(`Batch deleted ${tabsToClose.length} selected tabs`)
+  }
+}
@@ -0,0 +1,103 @@
+import { derived } from 'svelte/store'
+import type { ItemSource, ModalMode, PickerItem } from '../types/shared.js'
+import { allTabs, harpoonTabs } from '../stores/tabs.js'
+import { bookmarks } from '../stores/bookmarks.js'
+import { historyEntries } from '../stores/history.js'
+import { loadEverything, everythingCorpus, everythingRows } from '../stores/everything.js'
+import { searchClient } from '../services/search-client.js'
+import { searchLogger } from '../utils/logger.js'
+import { getPickerSource, renderPickerItem, renderPickerPreview } from './registry.js'
+import { countOf } from './common.js'
+import type { PickerSource } from './types.js'
+
+// The picker each kind of row comes from, which draws and opens it here too
+const SOURCE_PICKERS: Partial<Record<ItemSource, ModalMode>> = {
+  tab: 'tab',
+  harpoon: 'tab',
+  bookmark: 'bookmarks',
+  history: 'history'
+}
+
+// Badges for the source of each row; harpooned tabs show their slot number instead
+const SOURCE_LABELS: Partial<Record<ItemSource, string>> = {
+  tab: 'tab',
+  harpoon: 'tab',
+  bookmark: 'bmk',
+  history: 'hist'
+}
+
+function pickerOf(item: PickerItem): PickerSource {
+  return getPickerSource(SOURCE_PICKERS[item.source] ?? 'tab')
+}
+
+// Open tabs, bookmarks and history in one list
+export const everythingPicker: PickerSource = {
+  mode: 'everything',
+  title: 'Everything',
+  keymap: {
+    open: 'e',
+    description: '[E]verything'
+  },
+  load: loadEverything,
+  results: (query) => {
+    const corpus = derived(
+      [allTabs, harpoonTabs, bookmarks, historyEntries],
+      ([$allTabs, $harpoonTabs, $bookmarks, $historyEntries]) =>
+        everythingCorpus({
+          tabs: $allTabs,
+          harpoonTabs: $harpoonTabs,
+          bookmarks: $bookmarks,
+          history: $historyEntries
+        })
+    )
+
+    return derived(
+      [query, corpus, harpoonTabs],
+      ([$query, $corpus, $harpoonTabs], set: (items: PickerItem[]) => void) => {
+        if (!$query.trim()) {
+          set(everythingRows($corpus.map((item) => ({ item, matches: [] }))))
+          return
+        }
+
+        // Matched in the service worker, like the tab picker
+        searchClient
+          .search(
+            $corpus,
+            $query,
+            $harpoonTabs.map((tab) => tab.id)
+          )
+          .then((results) => {
+            // A newer search replaced this one
+            if (!results) return
+            set(everythingRows(results))
+          })
+          .catch((error) => {
+            searchLogger.error('Everything search failed:', error)
+          })
+
+        return () => searchClient.cancel()
+      },
+      [] as PickerItem[]
+    )
+  },
+  counter: countOf(allTabs, bookmarks, historyEntries),
+  renderItem: (item) => ({
+    ...renderPickerItem(pickerOf(item), item),
+    badge: {
+      text: item.harpoonSlot
+        ? String(item.harpoonSlot)
+        : (SOURCE_LABELS[item.source] ?? item.source),
+      kind: 'source',
+      harpoon: Boolean(item.harpoonSlot)
+    }
+  }),
+  renderPreview: (item) => renderPickerPreview(pickerOf(item), item),
+  actions: {
+    open: (context) => {
+      const item = context.items[context.index]
+      if (item) {
+        pickerOf(item).actions.open(context)
+      }
+    }
+  }
+}
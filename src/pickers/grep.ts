@@ -0,0 +1,54 @@
+import { derived, readable } from 'svelte/store'
+import type { PickerItem } from '../types/shared.js'
+import {
+  grepStatus,
+  runLiveGrep,
+  cancelLiveGrep,
+  toGrepRows,
+  grepLineSegments
+} from '../stores/grep.js'
+import { switchToItemTab } from './common.js'
+import type { PickerSource } from './types.js'
+
+// Matching lines of page text across every open tab
+export const grepPicker: PickerSource = {
+  mode: 'grep',
+  title: 'Live Grep',
+  keymap: {
+    open: 's',
+    description: '[S]earch text in tabs'
+  },
+  results: (query) =>
+    readable<PickerItem[]>([], (set) => {
+      const unsubscribe = query.subscribe(($query) => {
+        runLiveGrep($query, (results) => set(toGrepRows(results)))
+      })
+      return () => {
+        unsubscribe()
+        cancelLiveGrep()
+      }
+    }),
+  // Matches come from every window, so a fraction of this window's tabs means nothing
+  counter: derived(
+    grepStatus,
+    ($grepStatus) => (shown: number) =>
+      $grepStatus === 'searching' ? 'searching…' : `${shown} matches`
+  ),
+  renderItem: (item) => ({
+    icon: { favicon: item.faviconUrl },
+    title: item.grepMatch ? grepLineSegments(item.grepMatch) : item.titleSegments,
+    detail: item.title
+  }),
+  renderPreview: (item) =>
+    item.grepMatch
+      ? {
+          kind: 'context',
+          before: item.grepMatch.before,
+          segments: grepLineSegments(item.grepMatch),
+          after: item.grepMatch.after
+        }
+      : { kind: 'screenshot' },
+  actions: {
+    open: switchToItemTab
+  }
+}
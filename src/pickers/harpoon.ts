@@ -0,0 +1,120 @@
+import { get } from 'svelte/store'
+import type { PickerItem, SearchMatch, Tab } from '../types/shared.js'
+import { removeTabFromHarpoonById } from '../services/service-worker-bridge.js'
+import { harpoonTabs, removeTabOptimistically } from '../stores/tabs.js'
+import { filteredTabsFromSearch } from '../stores/search.js'
+import { closeModal, setSelectedTab } from '../stores/modal.js'
+import { triggerBorderFlash } from '../stores/harpoon-flash.js'
+import { toTabItem } from '../utils/picker-items.js'
+import { harpoonLogger } from '../utils/logger.js'
+import { countOf, endBatch, searchTabsIn, switchToItemTab, targetTabs } from './common.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+// Harpoon rows are numbered by their slot, which stays put while searching
+function toHarpoonItem(tab: Tab, matches: SearchMatch[], slots: Tab[]): PickerItem {
+  const harpoonSlot = slots.findIndex((harpoonTab) => harpoonTab.id === tab.id) + 1
+  return toTabItem(tab, matches, { source: 'harpoon', harpoonSlot })
+}
+
+function removeFromHarpoon(context: PickerContext) {
+  const { items, index, selection, marked } = context
+  if (selection.length > 0 || marked.length > 0) {
+    removeSelectionFromHarpoon(context)
+    return
+  }
+
+  const tab = items[index]?.tab
+  if (!tab) {
+    return
+  }
+
+  // Show visual feedback
+  triggerBorderFlash()
+
+  removeTabFromHarpoonById(tab.id)
+    .then(() => {
+      // Adjust selection index after deletion
+      const remaining = get(filteredTabsFromSearch)
+      if (remaining.length === 0) {
+        closeModal()
+      } else {
+        setSelectedTab(Math.min(index, remaining.length - 1))
+      }
+    })
+    .catch((error) => {
+      harpoonLogger.error('Failed to remove tab from harpoon:', error)
+    })
+}
+
+// Marked tabs that are not in harpoon are left alone
+function removeSelectionFromHarpoon(context: PickerContext) {
+  const { index, selection } = context
+  const slotIds = new Set(get(harpoonTabs).map((tab) => tab.id))
+  const tabsToRemove = targetTabs(context).filter((tab) => slotIds.has(tab.id))
+  if (tabsToRemove.length === 0) {
+    return
+  }
+
+  // Show visual feedback
+  triggerBorderFlash()
+
+  // Optimistically remove all selected tabs from UI immediately for responsive feedback
+  tabsToRemove.forEach((tab) => removeTabOptimistically(tab.id))
+
+  endBatch(context)
+
+  const remaining = get(filteredTabsFromSearch)
+  if (remaining.length === 0) {
+    closeModal()
+  } else {
+    const firstIndex = selection.length > 0 ? Math.min(...selection) : index
+    setSelectedTab(Math.max(0, Math.min(firstIndex, remaining.length - 1)))
+  }
+
+  // Remove the tabs in the background, one at a time to avoid racing slot updates
+  const removeTabsSequentially = async () => {
+    for (const tab of tabsToRemove) {
+      try {
+        await removeTabFromHarpoonById(tab.id)
+      } catch (error) {
+        harpoonLogger.error(`Failed to remove tab ${tab.id} from harpoon:`, error)
+      }
+    }
+  }
+  removeTabsSequentially().catch((error) => {
+    harpoonLogger.error('Failed to remove tabs from harpoon:', error)
+  })
+
+  harpoonLogger.info(`Batch removed ${tabsToRemove.length} tabs from harpoon`)
+}
+
+// Pinned tabs in slot order
+export const harpoonPicker: PickerSource = {
+  mode: 'harpoon',
+  title: 'Harpoon',
+  keymap: {
+    open: 'ho',
+    description: 'open [H]arpoon list',
+    bindings: [
+      {
+        keys: 'dd',
+        modes: ['normal', 'visual'],
+        action: 'remove',
+        description: 'remove from harpoon'
+      }
+    ]
+  },
+  tabs: harpoonTabs,
+  markable: true,
+  results: searchTabsIn(harpoonTabs, toHarpoonItem, { frecency: false }),
+  counter: countOf(harpoonTabs),
+  renderItem: (item) => ({
+    badge: { text: String(item.harpoonSlot ?? ''), kind: 'slot' },
+    icon: { favicon: item.faviconUrl },
+    title: item.titleSegments
+  }),
+  actions: {
+    open: switchToItemTab,
+    remove: removeFromHarpoon
+  }
+}
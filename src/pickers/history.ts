@@ -0,0 +1,39 @@
+import { historyEntries, loadHistory, searchHistory } from '../stores/history.js'
+import { formatTimeAgo } from '../utils/time.js'
+import { countOf, openItemUrl, searchIn } from './common.js'
+import type { PickerSource } from './types.js'
+
+// Visited pages of the last few days, most recent first
+export const historyPicker: PickerSource = {
+  mode: 'history',
+  title: 'History',
+  keymap: {
+    open: 'r',
+    description: '[R]ecent history'
+  },
+  load: loadHistory,
+  results: searchIn(historyEntries, searchHistory),
+  counter: countOf(historyEntries),
+  renderItem: (item) => ({
+    icon: { favicon: item.faviconUrl },
+    title: item.titleSegments,
+    detail: item.historyEntry ? formatTimeAgo(item.historyEntry.lastVisitTime) : undefined
+  }),
+  renderPreview: (item) => {
+    const entry = item.historyEntry
+    if (!entry) {
+      return { kind: 'screenshot' }
+    }
+    return {
+      kind: 'context',
+      segments: item.titleSegments,
+      after: [
+        `Visited ${entry.visitCount} ${entry.visitCount === 1 ? 'time' : 'times'}`,
+        `Last visit ${formatTimeAgo(entry.lastVisitTime)} (${new Date(entry.lastVisitTime).toLocaleString()})`
+      ]
+    }
+  },
+  actions: {
+    open: openItemUrl('current')
+  }
+}
@@ -0,0 +1,26 @@
+import { registerPickerSource } from './registry.js'
+import { tabPicker } from './tabs.js'
+import { harpoonPicker } from './harpoon.js'
+import { grepPicker } from './grep.js'
+import { findPicker, outlinePicker } from './page-find.js'
+import { linksPicker } from './page-links.js'
+import { closedPicker } from './recently-closed.js'
+import { bookmarksPicker } from './bookmarks.js'
+import { historyPicker } from './history.js'
+import { everythingPicker } from './everything.js'
+import { windowsPicker } from './windows.js'
+import { tabGroupsPicker } from './tab-groups.js'
+
+// Built-in pickers, in the order the which-key menu lists them
+registerPickerSource(tabPicker)
+registerPickerSource(harpoonPicker)
+registerPickerSource(grepPicker)
+registerPickerSource(findPicker)
+registerPickerSource(outlinePicker)
+registerPickerSource(linksPicker)
+registerPickerSource(closedPicker)
+registerPickerSource(bookmarksPicker)
+registerPickerSource(historyPicker)
+registerPickerSource(everythingPicker)
+registerPickerSource(windowsPicker)
+registerPickerSource(tabGroupsPicker)
@@ -0,0 +1,67 @@
+import type { PickerItem } from '../types/shared.js'
+import { pageBlocks, indexCurrentPage, toPageBlockRows } from '../stores/page-find.js'
+import { searchPageBlocks, revealPageBlock } from '../services/page-find.js'
+import { closeModal } from '../stores/modal.js'
+import { countOf, searchIn } from './common.js'
+import type { ItemView, PickerContext, PickerSource, PreviewView } from './types.js'
+
+// Both pickers search this page, right here in the content script
+const results = searchIn(pageBlocks, (blocks, query) =>
+  toPageBlockRows(searchPageBlocks(blocks, query))
+)
+
+function renderBlock(item: PickerItem): ItemView {
+  return {
+    icon: { tag: item.pageBlock?.tag ?? '', indent: item.pageBlock?.depth ?? 0 },
+    title: item.titleSegments
+  }
+}
+
+function previewBlock(item: PickerItem): PreviewView {
+  return {
+    kind: 'context',
+    before: item.pageBlock?.before,
+    segments: item.titleSegments,
+    after: item.pageBlock?.after
+  }
+}
+
+// Close the modal first so the page can scroll
+function revealBlock({ items, index }: PickerContext) {
+  const block = items[index]?.pageBlock
+  if (block) {
+    closeModal()
+    revealPageBlock(block.index)
+  }
+}
+
+// Text blocks of the current page
+export const findPicker: PickerSource = {
+  mode: 'find',
+  title: 'Find in Page',
+  keymap: {
+    open: '/',
+    description: 'Find in page'
+  },
+  // Index the page before it is covered by the modal
+  load: () => indexCurrentPage('find'),
+  results,
+  counter: countOf(pageBlocks),
+  renderItem: renderBlock,
+  renderPreview: previewBlock,
+  actions: {
+    open: revealBlock
+  }
+}
+
+// Headings and landmarks of the current page
+export const outlinePicker: PickerSource = {
+  ...findPicker,
+  mode: 'outline',
+  title: 'Outline',
+  keymap: {
+    open: 'o',
+    description: '[O]utline'
+  },
+  load: () => indexCurrentPage('outline')
+}
@@ -0,0 +1,79 @@
+import { pageLinks, collectCurrentPageLinks, toPageLinkRows } from '../stores/page-links.js'
+import { searchPageLinks, followPageLink } from '../services/page-links.js'
+import { openTabInBackground } from '../services/service-worker-bridge.js'
+import { closeModal } from '../stores/modal.js'
+import { triggerBorderFlash } from '../stores/harpoon-flash.js'
+import { keyboardLogger } from '../utils/logger.js'
+import { countOf, searchIn } from './common.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+function followLink({ items, index }: PickerContext) {
+  const link = items[index]?.pageLink
+  if (link) {
+    closeModal()
+    followPageLink(link)
+  }
+}
+
+// Keeps the picker open for more
+function openInBackground({ items, index }: PickerContext) {
+  const link = items[index]?.pageLink
+  if (link) {
+    triggerBorderFlash()
+    openTabInBackground(link.url).catch((error) => {
+      keyboardLogger.error('Failed to open link in background tab:', error)
+    })
+  }
+}
+
+// The link under the cursor, or one per line for 2yy
+function copyUrl({ items, index, selection }: PickerContext) {
+  const urls = (selection.length > 0 ? selection : [index])
+    .map((row) => items[row]?.pageLink?.url)
+    .filter((url): url is string => Boolean(url))
+  if (urls.length > 0) {
+    navigator.clipboard
+      .writeText(urls.join('\n'))
+      .then(() => triggerBorderFlash())
+      .catch((error) => {
+        keyboardLogger.error('Failed to copy link URL:', error)
+      })
+  }
+}
+
+// Visible links of the current page, on-screen links first
+export const linksPicker: PickerSource = {
+  mode: 'links',
+  title: 'Links',
+  keymap: {
+    open: 'f',
+    description: '[F]ollow link',
+    bindings: [
+      {
+        keys: '<C-t>',
+        modes: ['insert', 'normal', 'visual'],
+        action: 'openInBackground',
+        description: 'open in background tab'
+      },
+      { keys: 'yy', modes: ['normal'], action: 'copyUrl', description: 'copy URL' }
+    ]
+  },
+  load: collectCurrentPageLinks,
+  results: searchIn(pageLinks, (links, query) => toPageLinkRows(searchPageLinks(links, query))),
+  counter: countOf(pageLinks),
+  renderItem: (item) => ({
+    icon: { tag: '↗', dimmed: !item.pageLink?.onScreen },
+    title: item.titleSegments,
+    detail: item.urlSegments
+  }),
+  renderPreview: (item) => ({
+    kind: 'context',
+    segments: item.titleSegments,
+    after: item.pageLink?.context ? [item.pageLink.context] : []
+  }),
+  actions: {
+    open: followLink,
+    openInBackground,
+    copyUrl
+  }
+}
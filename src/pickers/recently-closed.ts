@@ -0,0 +1,55 @@
+import {
+  recentlyClosed,
+  loadRecentlyClosed,
+  searchClosedSessions
+} from '../stores/recently-closed.js'
+import { restoreSessions } from '../services/service-worker-bridge.js'
+import { closeModal } from '../stores/modal.js'
+import { clearVisualSelection } from '../stores/visual-selection.js'
+import { formatTimeAgo } from '../utils/time.js'
+import { keyboardLogger } from '../utils/logger.js'
+import { countOf, searchIn } from './common.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+// Restore the closed tab under the cursor, or every one in the visual selection
+function restore({ items, index, selection }: PickerContext) {
+  const rows = selection.length > 0 ? selection.map((i) => items[i]) : [items[index]]
+  const sessionIds = rows.flatMap((row) =>
+    row?.closedSession ? [row.closedSession.sessionId] : []
+  )
+  if (sessionIds.length === 0) {
+    return
+  }
+
+  clearVisualSelection()
+  closeModal()
+  restoreSessions(sessionIds).catch((error) => {
+    keyboardLogger.error('Failed to restore closed tabs:', error)
+  })
+}
+
+// Recently closed tabs and windows, newest first
+export const closedPicker: PickerSource = {
+  mode: 'closed',
+  title: 'Recently Closed',
+  keymap: {
+    open: 'u',
+    description: '[U]ndo close'
+  },
+  load: loadRecentlyClosed,
+  results: searchIn(recentlyClosed, searchClosedSessions),
+  counter: countOf(recentlyClosed),
+  renderItem: (item) => ({
+    icon: { favicon: item.faviconUrl },
+    title: item.titleSegments,
+    detail: item.closedSession ? formatTimeAgo(item.closedSession.closedAt) : undefined
+  }),
+  // Closed windows list the tabs they held
+  renderPreview: (item) =>
+    item.closedSession?.tabTitles
+      ? { kind: 'context', segments: item.titleSegments, after: item.closedSession.tabTitles }
+      : { kind: 'screenshot' },
+  actions: {
+    open: restore
+  }
+}
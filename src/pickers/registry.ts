@@ -0,0 +1,73 @@
+import { derived, type Readable } from 'svelte/store'
+import type { ModalMode, PickerItem } from '../types/shared.js'
+import type { ItemView, PickerSource, PreviewView } from './types.js'
+
+// Registered in the order the which-key menu lists them
+const sources = new Map<ModalMode, PickerSource>()
+
+export function registerPickerSource(source: PickerSource) {
+  sources.set(source.mode, source)
+}
+
+export function getPickerSource(mode: ModalMode): PickerSource {
+  const source = sources.get(mode)
+  if (!source) {
+    throw new Error(`No picker registered for mode "${mode}"`)
+  }
+  return source
+}
+
+export function pickerSources(): PickerSource[] {
+  return [...sources.values()]
+}
+
+/**
+ * A store that follows one of the stores of the current mode's picker
+ */
+export function fromPickerSource<T>(
+  mode: Readable<ModalMode>,
+  select: (source: PickerSource) => Readable<T>,
+  initial: T
+): Readable<T> {
+  return derived(mode, ($mode, set) => select(getPickerSource($mode)).subscribe(set), initial)
+}
+
+/**
+ * Which-key description of a command that opens a picker (`picker.links`) or runs one of
+ * its bound actions (`links:copyUrl`); undefined for other commands
+ */
+export function describePickerCommand(command: string): string | undefined {
+  const [mode, action] = command.startsWith('picker.')
+    ? [command.slice('picker.'.length), undefined]
+    : command.split(':')
+  const source = sources.get(mode)
+  if (!source) {
+    return undefined
+  }
+
+  if (action === undefined) {
+    return command.startsWith('picker.') ? (source.keymap.description ?? source.title) : undefined
+  }
+  return source.keymap.bindings?.find((binding) => binding.action === action)?.description
+}
+
+/**
+ * Whether a command opens a registered picker or runs one of its actions
+ */
+export function isPickerCommand(command: string): boolean {
+  if (command.startsWith('picker.')) {
+    return sources.has(command.slice('picker.'.length))
+  }
+  const [mode, action] = command.split(':')
+  return action !== undefined && action in (sources.get(mode)?.actions ?? {})
+}
+
+export function renderPickerItem(source: PickerSource, item: PickerItem): ItemView {
+  return (
+    source.renderItem?.(item) ?? { icon: { favicon: item.faviconUrl }, title: item.titleSegments }
+  )
+}
+
+export function renderPickerPreview(source: PickerSource, item: PickerItem): PreviewView {
+  return source.renderPreview?.(item) ?? { kind: 'screenshot' }
+}
@@ -0,0 +1,87 @@
+import { derived } from 'svelte/store'
+import type { TabGroupColor } from '../types/shared.js'
+import { tabGroups, loadTabGroups, searchTabGroups } from '../stores/tab-groups.js'
+import { currentWindowId } from '../stores/tabs.js'
+import { setTabGroupCollapsed } from '../services/service-worker-bridge.js'
+import { keyboardLogger } from '../utils/logger.js'
+import { countOf, switchToItemTab } from './common.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+// Tabs shown in a group's preview
+const PREVIEW_TAB_COUNT = 4
+
+// The browser's tab group colors, as drawn on a dark tab strip
+const GROUP_COLORS: Record<TabGroupColor, string> = {
+  grey: '#dadce0',
+  blue: '#8ab4f8',
+  red: '#f28b82',
+  yellow: '#fdd663',
+  green: '#81c995',
+  pink: '#ff8bcb',
+  purple: '#c58af9',
+  cyan: '#78d9ec',
+  orange: '#fcad70'
+}
+
+// Collapse or expand the group under the cursor; no value toggles it
+function setCollapsed(collapsed?: boolean) {
+  return ({ items, index }: PickerContext) => {
+    const group = items[index]?.tabGroup
+    if (!group) {
+      return
+    }
+
+    const nextCollapsed = collapsed ?? !group.collapsed
+    tabGroups.update((groups) =>
+      groups.map((other) =>
+        other.id === group.id ? { ...other, collapsed: nextCollapsed } : other
+      )
+    )
+    setTabGroupCollapsed(group.id, nextCollapsed).catch((error) => {
+      keyboardLogger.error('Failed to collapse or expand tab group:', error)
+      loadTabGroups()
+    })
+  }
+}
+
+// Tab groups of every window, this window's first
+export const tabGroupsPicker: PickerSource = {
+  mode: 'groups',
+  title: 'Tab Groups',
+  keymap: {
+    open: 'g',
+    description: '[G]roups',
+    // Like folds in vim
+    bindings: [
+      { keys: 'za', modes: ['normal'], action: 'toggleCollapsed', description: 'toggle collapsed' },
+      { keys: 'zc', modes: ['normal'], action: 'collapse', description: 'collapse' },
+      { keys: 'zo', modes: ['normal'], action: 'expand', description: 'expand' }
+    ]
+  },
+  load: loadTabGroups,
+  results: (query) =>
+    derived([tabGroups, currentWindowId, query], ([$tabGroups, $currentWindowId, $query]) =>
+      searchTabGroups($tabGroups, $query, $currentWindowId)
+    ),
+  counter: countOf(tabGroups),
+  renderItem: (item) => {
+    const group = item.tabGroup
+    const tabCount = group?.tabs.length ?? 0
+    return {
+      icon: { tag: '●', color: group && GROUP_COLORS[group.color] },
+      title: item.titleSegments,
+      detail: `${tabCount} ${tabCount === 1 ? 'tab' : 'tabs'}${group?.collapsed ? ' · collapsed' : ''}`
+    }
+  },
+  renderPreview: (item) => ({
+    kind: 'tabs',
+    tabs: item.tabGroup?.tabs.slice(0, PREVIEW_TAB_COUNT) ?? []
+  }),
+  actions: {
+    // Switching to a tab in a collapsed group expands it
+    open: switchToItemTab,
+    toggleCollapsed: setCollapsed(),
+    collapse: setCollapsed(true),
+    expand: setCollapsed(false)
+  }
+}
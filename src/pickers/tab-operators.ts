@@ -0,0 +1,105 @@
+import type { Tab } from '../types/shared.js'
+import {
+  addTabsToHarpoon,
+  moveTabsToNewWindow,
+  toggleTabsPinned,
+  toggleTabsMuted,
+  reloadTabs,
+  duplicateTabs
+} from '../services/service-worker-bridge.js'
+import { loadTabs } from '../stores/tabs.js'
+import { loadWindows, tabsToMove } from '../stores/windows.js'
+import { clearSearch } from '../stores/search.js'
+import { closeModal, switchMode } from '../stores/modal.js'
+import { triggerBorderFlash } from '../stores/harpoon-flash.js'
+import { keyboardLogger } from '../utils/logger.js'
+import { endBatch, targetTabs } from './common.js'
+import type { PickerAction, PickerContext } from './types.js'
+
+/**
+ * An operator that sends the marked or selected tabs to the service worker in one message. Operators
+ * that take the tabs out of this window close the modal; the others refresh the list.
+ */
+function tabOperator(
+  description: string,
+  run: (tabIds: number[]) => Promise<unknown>,
+  { closesModal = false }: { closesModal?: boolean } = {}
+): PickerAction {
+  return (context) => {
+    const tabs = targetTabs(context)
+    if (tabs.length === 0) {
+      return
+    }
+
+    triggerBorderFlash()
+    endBatch(context)
+    if (closesModal) {
+      closeModal()
+    }
+
+    run(tabs.map((tab) => tab.id))
+      .then(() => (closesModal ? undefined : loadTabs()))
+      .catch((error) => {
+        keyboardLogger.error(`Failed to ${description}:`, error)
+      })
+  }
+}
+
+function copyTabs(description: string, format: (tabs: Tab[]) => string): PickerAction {
+  return (context) => {
+    const tabs = targetTabs(context)
+    if (tabs.length === 0) {
+      return
+    }
+
+    endBatch(context)
+    navigator.clipboard
+      .writeText(format(tabs))
+      .then(() => triggerBorderFlash())
+      .catch((error) => {
+        keyboardLogger.error(`Failed to copy ${description}:`, error)
+      })
+  }
+}
+
+/**
+ * The tabs as a Markdown list of links
+ */
+export function toMarkdownList(tabs: Tab[]): string {
+  return tabs
+    .map(
+      (tab) => `- [${tab.title.replace(/([[\]\\])/g, '\\$1')}](${tab.url.replace(/\)/g, '%29')})`
+    )
+    .join('\n')
+}
+
+// Hand the tabs to the window picker, which moves them to the window picked there
+function moveToWindow(context: PickerContext) {
+  const tabs = targetTabs(context)
+  if (tabs.length === 0) {
+    return
+  }
+
+  endBatch(context)
+  tabsToMove.set(tabs.map((tab) => tab.id))
+  loadWindows()
+  clearSearch()
+  switchMode('windows')
+}
+
+// Bridge calls are looked up when the operator runs, not when the module loads
+export const tabOperators = {
+  addToHarpoon: tabOperator('add tabs to harpoon', (tabIds) => addTabsToHarpoon(tabIds)),
+  moveToNewWindow: tabOperator(
+    'move tabs to a new window',
+    (tabIds) => moveTabsToNewWindow(tabIds),
+    { closesModal: true }
+  ),
+  moveToWindow,
+  togglePinned: tabOperator('pin or unpin tabs', (tabIds) => toggleTabsPinned(tabIds)),
+  toggleMuted: tabOperator('mute or unmute tabs', (tabIds) => toggleTabsMuted(tabIds)),
+  reload: tabOperator('reload tabs', (tabIds) => reloadTabs(tabIds)),
+  duplicate: tabOperator('duplicate tabs', (tabIds) => duplicateTabs(tabIds)),
+  copyUrls: copyTabs('tab URLs', (tabs) => tabs.map((tab) => tab.url).join('\n')),
+  copyMarkdown: copyTabs('tabs as Markdown', toMarkdownList)
+}
@@ -0,0 +1,112 @@
+import { derived, get } from 'svelte/store'
+import type { PickerItem } from '../types/shared.js'
+import { allTabs, currentWindowId, loadTabs, tabScope, toggleTabScope } from '../stores/tabs.js'
+import { windowTag } from '../stores/windows.js'
+import { setSelectedTab } from '../stores/modal.js'
+import { promptInModal } from '../stores/modal-prompt.js'
+import { createTabGroup } from '../services/service-worker-bridge.js'
+import { toTabItem } from '../utils/picker-items.js'
+import { keyboardLogger } from '../utils/logger.js'
+import {
+  countOf,
+  searchTabsIn,
+  switchToItemTab,
+  closeItemTabs,
+  endBatch,
+  targetTabs
+} from './common.js'
+import { tabOperators } from './tab-operators.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+// The tab's group and, when tabs of several windows are listed, its window
+function tabDetail(item: PickerItem): string | undefined {
+  const tab = item.tab
+  if (!tab) {
+    return undefined
+  }
+  const labels = [
+    tab.groupId !== undefined ? tab.groupTitle || 'unnamed group' : null,
+    get(tabScope) === 'all' ? windowTag(tab.windowId, get(currentWindowId)) : null
+  ].filter(Boolean)
+  return labels.length > 0 ? labels.join(' · ') : undefined
+}
+
+// Put the marked or selected tabs in a new tab group, named by the user
+async function groupSelection(context: PickerContext) {
+  const tabs = targetTabs(context)
+  if (tabs.length === 0) {
+    return
+  }
+
+  const title = await promptInModal(
+    `Name for the new group of ${tabs.length} tabs (empty for none):`
+  )
+  if (title === null) {
+    return
+  }
+
+  const tabIds = tabs.map((tab) => tab.id)
+  endBatch(context)
+  createTabGroup(tabIds, title)
+    .then(() => loadTabs())
+    .catch((error) => {
+      keyboardLogger.error('Failed to create tab group:', error)
+    })
+}
+
+// Open tabs of this window (or every window), most recently used first and ranked by
+// frecency while searching
+export const tabPicker: PickerSource = {
+  mode: 'tab',
+  title: 'Tabs',
+  keymap: {
+    open: '<leader>',
+    description: 'tabs',
+    bindings: [
+      { keys: 'dd', modes: ['normal', 'visual'], action: 'close', description: 'close' },
+      { keys: 'gn', modes: ['visual'], action: 'group', description: 'new tab group' },
+      { keys: 'ha', modes: ['visual'], action: 'addToHarpoon', description: 'add to harpoon' },
+      {
+        keys: 'wn',
+        modes: ['visual'],
+        action: 'moveToNewWindow',
+        description: 'move to new window'
+      },
+      { keys: 'wm', modes: ['visual'], action: 'moveToWindow', description: 'move to window' },
+      { keys: 'P', modes: ['visual'], action: 'togglePinned', description: 'pin or unpin' },
+      { keys: 'M', modes: ['visual'], action: 'toggleMuted', description: 'mute or unmute' },
+      { keys: 'R', modes: ['visual'], action: 'reload', description: 'reload' },
+      { keys: 'yp', modes: ['visual'], action: 'duplicate', description: 'duplicate' },
+      { keys: 'yy', modes: ['normal', 'visual'], action: 'copyUrls', description: 'copy URLs' },
+      { keys: 'ym', modes: ['visual'], action: 'copyMarkdown', description: 'copy Markdown links' },
+      {
+        keys: '<C-a>',
+        // Not in insert mode, where Ctrl-A selects the query
+        modes: ['normal', 'visual'],
+        action: 'toggleAllWindows',
+        description: 'this window or all windows'
+      }
+    ]
+  },
+  tabs: allTabs,
+  markable: true,
+  results: searchTabsIn(allTabs, (tab, matches) => toTabItem(tab, matches), { frecency: true }),
+  counter: derived([countOf(allTabs), tabScope], ([$count, $tabScope]) =>
+    $tabScope === 'all' ? (shown: number) => `${$count(shown)} · all windows` : $count
+  ),
+  renderItem: (item) => ({
+    icon: { favicon: item.faviconUrl },
+    title: item.titleSegments,
+    detail: tabDetail(item)
+  }),
+  actions: {
+    open: switchToItemTab,
+    close: closeItemTabs,
+    group: groupSelection,
+    ...tabOperators,
+    toggleAllWindows: () => {
+      setSelectedTab(0)
+      toggleTabScope()
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { get, writable } from 'svelte/store'
+import type { PickerItem, Tab } from '../../types/shared.js'
+import { allTabs, harpoonTabs } from '../../stores/tabs.js'
+import { bookmarks } from '../../stores/bookmarks.js'
+import { historyEntries } from '../../stores/history.js'
+import { searchClient } from '../../services/search-client.js'
+import { everythingPicker } from '../everything.js'
+
+vi.mock('../../services/search-client.js', () => ({
+  searchClient: {
+    search: vi.fn(),
+    cancel: vi.fn()
+  }
+}))
+
+const createTab = (id: number, title: string): Tab => ({
+  id,
+  title,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+describe('everything picker', () => {
+  const query = writable('')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    query.set('')
+    allTabs.set([createTab(1, 'Docs'), createTab(2, 'Inbox')])
+    harpoonTabs.set([])
+    bookmarks.set([
+      {
+        id: 'b1',
+        title: 'Recipes',
+        url: 'https://food.example.com',
+        folderPath: [],
+        faviconUrl: ''
+      }
+    ])
+    historyEntries.set([])
+  })
+
+  it('should list every source without searching when there is no query', () => {
+    const results = everythingPicker.results(query)
+    let rows: PickerItem[] = []
+    const unsubscribe = results.subscribe((value) => (rows = value))
+
+    expect(rows.map((row) => row.key)).toEqual(['tab:1', 'tab:2', 'bookmark:b1'])
+    expect(searchClient.search).not.toHaveBeenCalled()
+    unsubscribe()
+  })
+
+  it('should search the same corpus through the search port as the query grows', async () => {
+    vi.mocked(searchClient.search).mockImplementation(async (corpus) => [
+      { item: corpus[2], refIndex: 2, score: 0, matches: [] }
+    ])
+    const results = everythingPicker.results(query)
+    const unsubscribe = results.subscribe(() => {})
+
+    query.set('r')
+    query.set('re')
+    await Promise.resolve()
+
+    const calls = vi.mocked(searchClient.search).mock.calls
+    expect(calls.map(([, searched]) => searched)).toEqual(['r', 're'])
+    expect(calls[1][0]).toBe(calls[0][0])
+    expect(get(results).map((row) => row.key)).toEqual(['bookmark:b1'])
+
+    unsubscribe()
+    expect(searchClient.cancel).toHaveBeenCalled()
+  })
+})
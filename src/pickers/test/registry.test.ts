@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { get, readable, writable } from 'svelte/store'
+import type { ModalMode, PickerItem } from '../../types/shared.js'
+import {
+  registerPickerSource,
+  getPickerSource,
+  fromPickerSource,
+  describePickerCommand,
+  isPickerCommand,
+  renderPickerItem,
+  renderPickerPreview
+} from '../registry.js'
+import type { PickerSource } from '../types.js'
+
+function makeSource(mode: ModalMode, overrides: Partial<PickerSource> = {}): PickerSource {
+  return {
+    mode,
+    title: `${mode} picker`,
+    keymap: { open: mode[0] },
+    results: () => readable<PickerItem[]>([]),
+    counter: readable((shown: number) => `${shown}`),
+    actions: { open: () => {} },
+    ...overrides
+  }
+}
+
+const item: PickerItem = {
+  key: 'tab:1',
+  source: 'tab',
+  title: 'Docs',
+  url: 'https://example.com',
+  faviconUrl: 'https://example.com/favicon.ico',
+  screenshotUrl: '',
+  titleSegments: [{ text: 'Docs', highlighted: false }],
+  urlSegments: []
+}
+
+describe('picker registry', () => {
+  const links = makeSource('links', {
+    keymap: {
+      open: 'f',
+      description: '[F]ollow link',
+      bindings: [
+        {
+          keys: '<C-t>',
+          modes: ['insert', 'normal'],
+          action: 'openInBackground',
+          description: 'open in background'
+        },
+        { keys: 'yy', modes: ['normal'], action: 'copyUrl', description: 'copy URL' }
+      ]
+    }
+  })
+  const harpoon = makeSource('harpoon', { keymap: { open: 'ho' } })
+  registerPickerSource(links)
+  registerPickerSource(harpoon)
+
+  it('should look sources up by mode', () => {
+    expect(getPickerSource('links')).toBe(links)
+    expect(() => getPickerSource('history')).toThrow('No picker registered for mode "history"')
+  })
+
+  it('should describe the commands that open pickers and run their bound actions', () => {
+    expect(describePickerCommand('picker.links')).toBe('[F]ollow link')
+    expect(describePickerCommand('picker.harpoon')).toBe('harpoon picker')
+    expect(describePickerCommand('links:copyUrl')).toBe('copy URL')
+    expect(describePickerCommand('links:open')).toBeUndefined()
+    expect(describePickerCommand('picker.history')).toBeUndefined()
+    expect(describePickerCommand('list.down')).toBeUndefined()
+  })
+
+  it('should know the commands of registered pickers', () => {
+    expect(isPickerCommand('picker.links')).toBe(true)
+    expect(isPickerCommand('links:open')).toBe(true)
+    expect(isPickerCommand('links:copyUrl')).toBe(false)
+    expect(isPickerCommand('picker.history')).toBe(false)
+    expect(isPickerCommand('history:open')).toBe(false)
+  })
+
+  it('should draw rows with their favicon and preview the screenshot by default', () => {
+    expect(renderPickerItem(harpoon, item)).toEqual({
+      icon: { favicon: item.faviconUrl },
+      title: item.titleSegments
+    })
+    expect(renderPickerPreview(harpoon, item)).toEqual({ kind: 'screenshot' })
+  })
+
+  it('should follow the store of the current picker as the mode changes', () => {
+    const mode = writable<ModalMode>('links')
+    const titles = fromPickerSource(mode, (source) => readable(source.title), '')
+
+    expect(get(titles)).toBe('links picker')
+    mode.set('harpoon')
+    expect(get(titles)).toBe('harpoon picker')
+  })
+})
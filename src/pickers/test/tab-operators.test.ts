@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import type { PickerItem, Tab } from '../../types/shared.js'
+import { toTabItem } from '../../utils/picker-items.js'
+import { inputMode, modalMode } from '../../stores/modal.js'
+import { tabsToMove } from '../../stores/windows.js'
+import { markedTabs, toggleMark } from '../../stores/marks.js'
+import { tabOperators, toMarkdownList } from '../tab-operators.js'
+
+vi.mock('../../services/service-worker-bridge.js', () => ({
+  addTabsToHarpoon: vi.fn(async () => ({ message: 'addedTabsToHarpoon' })),
+  moveTabsToNewWindow: vi.fn(async () => ({ windowId: 2 })),
+  toggleTabsPinned: vi.fn(async () => ({ pinned: true })),
+  toggleTabsMuted: vi.fn(),
+  reloadTabs: vi.fn(async () => ({ success: true })),
+  duplicateTabs: vi.fn(),
+  getWindows: vi.fn(async () => []),
+  requestInitialSync: vi.fn(async () => ({ allTabs: [], harpoonTabs: [] }))
+}))
+
+import {
+  addTabsToHarpoon,
+  moveTabsToNewWindow,
+  toggleTabsPinned,
+  reloadTabs
+} from '../../services/service-worker-bridge.js'
+
+const createTab = (id: number, title: string): Tab => ({
+  id,
+  title,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+const items: PickerItem[] = [
+  createTab(1, 'Docs'),
+  createTab(2, 'Issues [open]'),
+  createTab(3, 'Pull requests')
+].map((tab) => toTabItem(tab))
+
+describe('tab operators', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    inputMode.set('visual')
+    modalMode.set('tab')
+  })
+
+  it('should send the selected tabs in one message and leave visual mode', () => {
+    tabOperators.addToHarpoon({ items, index: 2, selection: [0, 2], marked: [] })
+
+    expect(addTabsToHarpoon).toHaveBeenCalledTimes(1)
+    expect(addTabsToHarpoon).toHaveBeenCalledWith([1, 3])
+    expect(get(inputMode)).toBe('normal')
+  })
+
+  it('should work on the tab under the cursor without a selection', () => {
+    tabOperators.togglePinned({ items, index: 1, selection: [], marked: [] })
+
+    expect(toggleTabsPinned).toHaveBeenCalledWith([2])
+  })
+
+  it('should work on the marked tabs, even ones the query hides, and use up the marks', () => {
+    const hidden = createTab(9, 'Filtered out')
+    toggleMark(hidden)
+    toggleMark(createTab(2, 'Issues [open]'))
+
+    tabOperators.reload({ items, index: 0, selection: [0, 1], marked: get(markedTabs) })
+
+    expect(reloadTabs).toHaveBeenCalledWith([9, 2])
+    expect(get(markedTabs)).toEqual([])
+    expect(get(inputMode)).toBe('normal')
+  })
+
+  it('should hand the tabs to the window picker to move them', () => {
+    tabOperators.moveToWindow({ items, index: 0, selection: [0, 1], marked: [] })
+
+    expect(get(tabsToMove)).toEqual([1, 2])
+    expect(get(modalMode)).toBe('windows')
+    expect(moveTabsToNewWindow).not.toHaveBeenCalled()
+  })
+
+  it('should list tabs as Markdown links', () => {
+    expect(toMarkdownList([createTab(2, 'Issues [open]'), createTab(3, 'Pull requests')])).toBe(
+      '- [Issues \\[open\\]](https://example.com/2)\n- [Pull requests](https://example.com/3)'
+    )
+  })
+})
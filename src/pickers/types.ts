@@ -0,0 +1,82 @@
+import type { Readable } from 'svelte/store'
+import type { InputMode, MatchSegment, PickerItem, Tab } from '../types/shared.js'
+
+// What an action sees of the picker when it runs
+export type PickerContext = {
+  items: PickerItem[]
+  // Row under the cursor
+  index: number
+  // Rows in the visual selection; empty outside visual mode
+  selection: number[]
+  // Marked tabs, which batch actions work on when there are any; the query may hide them
+  marked: Tab[]
+}
+
+export type PickerAction = (context: PickerContext) => void
+
+export type PickerActions = {
+  // Enter, or a click on a row
+  open: PickerAction
+  [name: string]: PickerAction
+}
+
+export type PickerBinding = {
+  // A key sequence in key notation, e.g. 'dd' or '<C-t>'; the keymap runs it as
+  // `<picker>:<action>`, which the settings can rebind
+  keys: string
+  modes: InputMode[]
+  // Name of the action in the source's actions
+  action: string
+  // What which-key lists for the keys
+  description: string
+}
+
+export type PickerKeymap = {
+  // Keys after the leader that open the picker, in key notation
+  open: string
+  // What which-key lists for the open keys; defaults to the title
+  description?: string
+  bindings?: PickerBinding[]
+}
+
+// How a row is drawn in the list
+export type ItemView = {
+  // Harpoon slot numbers, or the source of a row in mixed pickers
+  badge?: { text: string; kind: 'slot' | 'source'; harpoon?: boolean }
+  // A favicon, or a short tag (heading level, landmark role, link arrow) in its place
+  icon: { favicon: string } | { tag: string; indent?: number; dimmed?: boolean; color?: string }
+  title: MatchSegment[]
+  // Dimmed text at the end of the row
+  detail?: MatchSegment[] | string
+}
+
+// What the preview pane shows for the row under the cursor
+export type PreviewView =
+  | { kind: 'screenshot' }
+  | { kind: 'context'; before?: string[]; segments: MatchSegment[]; after?: string[] }
+  // A grid of tabs, e.g. the top tabs of a window
+  | { kind: 'tabs'; tabs: Tab[] }
+
+/**
+ * Everything the modal needs to know about one picker: where its rows come from, how they
+ * are drawn and previewed, what the keys do, and how the picker is opened.
+ */
+export interface PickerSource {
+  // Key the picker is registered and opened under, e.g. 'links' for `picker.links`
+  mode: string
+  title: string
+  keymap: PickerKeymap
+  // Fetch or index the picker's data as it opens
+  load?: () => void
+  // Open tabs the picker lists, for pickers over the tab list
+  tabs?: Readable<Tab[]>
+  // Rows can be marked (Tab, m) for the picker's batch actions
+  markable?: boolean
+  // Rows matching the query, subscribed to while the picker is open
+  results: (query: Readable<string>) => Readable<PickerItem[]>
+  // Counter shown next to the search bar, given the number of rows listed
+  counter: Readable<(shown: number) => string>
+  renderItem?: (item: PickerItem) => ItemView
+  renderPreview?: (item: PickerItem) => PreviewView
+  actions: PickerActions
+}
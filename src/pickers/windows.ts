@@ -0,0 +1,118 @@
+import { derived, get } from 'svelte/store'
+import { windows, loadWindows, searchWindows, tabsToMove } from '../stores/windows.js'
+import {
+  focusWindow,
+  closeWindow,
+  renameWindow,
+  moveTabsToWindow
+} from '../services/service-worker-bridge.js'
+import { closeModal, setSelectedTab } from '../stores/modal.js'
+import { triggerBorderFlash } from '../stores/harpoon-flash.js'
+import { confirmInModal, promptInModal } from '../stores/modal-prompt.js'
+import { keyboardLogger } from '../utils/logger.js'
+import { countOf, searchIn } from './common.js'
+import type { PickerContext, PickerSource } from './types.js'
+
+// Focus the window, or move the tabs handed over by the tab picker there
+function focus({ items, index }: PickerContext) {
+  const window = items[index]?.window
+  if (!window) {
+    return
+  }
+
+  const tabIds = get(tabsToMove)
+  closeModal()
+  if (tabIds.length > 0) {
+    tabsToMove.set([])
+    moveTabsToWindow(tabIds, window.id).catch((error) => {
+      keyboardLogger.error('Failed to move tabs to window:', error)
+    })
+    return
+  }
+
+  focusWindow(window.id).catch((error) => {
+    keyboardLogger.error('Failed to focus window:', error)
+  })
+}
+
+// Closing a window takes all its tabs with it, so it has to be confirmed
+async function close({ items, index }: PickerContext) {
+  const window = items[index]?.window
+  if (!window) {
+    return
+  }
+  const tabs = window.tabCount === 1 ? '1 tab' : `${window.tabCount} tabs`
+  if (!(await confirmInModal(`Close "${items[index].title}" and its ${tabs}?`))) {
+    return
+  }
+
+  triggerBorderFlash()
+  windows.update((list) => list.filter((other) => other.id !== window.id))
+  const remaining = get(windows).length
+  if (remaining === 0) {
+    closeModal()
+  } else {
+    setSelectedTab(Math.min(index, remaining - 1))
+  }
+
+  closeWindow(window.id).catch((error) => {
+    keyboardLogger.error('Failed to close window:', error)
+    loadWindows()
+  })
+}
+
+async function rename({ items, index }: PickerContext) {
+  const window = items[index]?.window
+  if (!window) {
+    return
+  }
+
+  const name = await promptInModal('Window name (empty to clear):', window.name ?? '')
+  if (name === null) {
+    return
+  }
+
+  renameWindow(window.id, name)
+    .then(() => loadWindows())
+    .catch((error) => {
+      keyboardLogger.error('Failed to rename window:', error)
+    })
+}
+
+// Browser windows, most recently used first
+export const windowsPicker: PickerSource = {
+  mode: 'windows',
+  title: 'Windows',
+  keymap: {
+    open: 'w',
+    description: '[W]indows',
+    bindings: [
+      { keys: 'dd', modes: ['normal'], action: 'close', description: 'close window' },
+      { keys: 'r', modes: ['normal'], action: 'rename', description: 'rename' }
+    ]
+  },
+  load: () => {
+    tabsToMove.set([])
+    loadWindows()
+  },
+  results: searchIn(windows, searchWindows),
+  counter: derived([countOf(windows), tabsToMove], ([$count, $tabsToMove]) =>
+    $tabsToMove.length > 0
+      ? (shown: number) => `move ${$tabsToMove.length} tabs to… ${$count(shown)}`
+      : $count
+  ),
+  renderItem: (item) => {
+    const tabCount = item.window?.tabCount ?? 0
+    return {
+      icon: { favicon: item.faviconUrl },
+      title: item.titleSegments,
+      detail: `${tabCount} ${tabCount === 1 ? 'tab' : 'tabs'}${item.window?.focused ? ' · current' : ''}`
+    }
+  },
+  renderPreview: (item) => ({ kind: 'tabs', tabs: item.window?.topTabs ?? [] }),
+  actions: {
+    open: focus,
+    close,
+    rename
+  }
+}
@@ -0,0 +1,90 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { Bookmark } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+
+/**
+ * Bookmark manager - a flat, cached list of the user's bookmarks
+ *
+ * The bookmark tree is flattened once and kept until a bookmark changes, so opening the
+ * picker doesn't walk the whole tree every time.
+ */
+export class BookmarkManager {
+  private cache: Bookmark[] | null = null
+  private loading: Promise<Bookmark[]> | null = null
+  // Bumped on every bookmark change, so a load that raced a change isn't cached
+  private generation = 0
+
+  constructor() {
+    this.setupEventListeners()
+  }
+
+  async getBookmarks(): Promise<Bookmark[]> {
+    if (this.cache) {
+      return this.cache
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadBookmarks().finally(() => {
+        this.loading = null
+      })
+    }
+    return this.loading
+  }
+
+  /**
+   * Drop the cached list; the next request reloads it
+   */
+  invalidate(): void {
+    this.cache = null
+    this.generation++
+  }
+
+  private async loadBookmarks(): Promise<Bookmark[]> {
+    const generation = this.generation
+    const tree = await chrome.bookmarks.getTree()
+    const bookmarks: Bookmark[] = []
+    for (const root of tree) {
+      this.flatten(root, [], bookmarks)
+    }
+
+    if (generation === this.generation) {
+      this.cache = bookmarks
+    }
+    serviceWorkerLogger.debug(`Loaded ${bookmarks.length} bookmarks`)
+    return bookmarks
+  }
+
+  private flatten(node: chrome.bookmarks.BookmarkTreeNode, folderPath: string[], bookmarks: Bookmark[]): void {
+    if (node.url) {
+      // Bookmarklets only run in place on a page, they can't be opened
+      if (!node.url.startsWith('javascript:')) {
+        bookmarks.push({
+          id: node.id,
+          title: node.title || node.url,
+          url: node.url,
+          folderPath,
+          faviconUrl: generateFaviconUrl(node.url)
+        })
+      }
+      return
+    }
+
+    // The root node has no title; top level folders are e.g. "Bookmarks bar"
+    const path = node.title ? [...folderPath, node.title] : folderPath
+    for (const child of node.children ?? []) {
+      this.flatten(child, path, bookmarks)
+    }
+  }
+
+  private setupEventListeners(): void {
+    const invalidate = () => this.invalidate()
+    chrome.bookmarks.onCreated.addListener(invalidate)
+    chrome.bookmarks.onRemoved.addListener(invalidate)
+    chrome.bookmarks.onChanged.addListener(invalidate)
+    chrome.bookmarks.onMoved.addListener(invalidate)
+    chrome.bookmarks.onChildrenReordered?.addListener(invalidate)
+    chrome.bookmarks.onImportEnded?.addListener(invalidate)
+  }
+}
+
+export const bookmarkManager = new BookmarkManager()
@@ -0,0 +1,128 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import { stateManager } from '../state/state-manager.js'
+import { storage, type ClosedTabEntry } from '../storage/storage-layer.js'
+import { harpoonManager } from './harpoon-manager.js'
+
+/**
+ * Close journal - tabs closed from the modal, batch by batch, so they can be reopened
+ *
+ * The browser's session history can bring a closed page back, but not its place in the
+ * window or its harpoon slot, which the tab's removal drops for good; the journal keeps
+ * both, recorded before the tabs go.
+ */
+export class CloseJournalManager {
+  private maxBatches = 20
+
+  /**
+   * Close tabs as one batch that undoLastClose reopens together. The batch is journaled only
+   * once its tabs are gone, so a failed close leaves nothing to reopen twice.
+   */
+  async closeTabs(tabIds: number[]): Promise<void> {
+    const entries = await Promise.all(tabIds.map((tabId) => this.toEntry(tabId)))
+    const batch = entries.filter(
+      (entry): entry is ClosedTabEntry & { tabId: number } => entry !== null
+    )
+    if (batch.length === 0) {
+      return
+    }
+
+    await chrome.tabs.remove(batch.map((entry) => entry.tabId))
+
+    const journal = await this.readJournal()
+    const journaled = batch.map(({ tabId, ...entry }) => entry)
+    await storage.write('closeJournal', [...journal, journaled].slice(-this.maxBatches))
+  }
+
+  /**
+   * Reopen the last batch of closed tabs where they were, and put the harpooned ones back
+   * in their slots. Returns how many tabs were reopened.
+   */
+  async undoLastClose(): Promise<number> {
+    const journal = await this.readJournal()
+    const batch = journal.pop()
+    if (!batch) {
+      return 0
+    }
+    await storage.write('closeJournal', journal)
+
+    // Left to right, so each lands at its old index once the ones before it are back
+    const reopened: Array<{ entry: ClosedTabEntry; tab: chrome.tabs.Tab }> = []
+    for (const entry of [...batch].sort((a, b) => a.index - b.index)) {
+      try {
+        reopened.push({ entry, tab: await this.reopen(entry) })
+      } catch (error) {
+        serviceWorkerLogger.warn(`Failed to reopen ${entry.url}:`, error)
+      }
+    }
+
+    // Lowest slot first, for the same reason
+    const harpooned = reopened
+      .filter(({ entry, tab }) => entry.harpoonSlot !== undefined && tab.id && tab.windowId)
+      .sort((a, b) => a.entry.harpoonSlot! - b.entry.harpoonSlot!)
+    for (const { entry, tab } of harpooned) {
+      await harpoonManager.restoreTab(
+        {
+          id: tab.id!,
+          url: entry.url,
+          title: entry.title,
+          faviconUrl: entry.faviconUrl,
+          screenshotUrl: '',
+          windowId: tab.windowId!
+        },
+        entry.harpoonSlot!
+      )
+    }
+
+    serviceWorkerLogger.info(`Reopened ${reopened.length} closed tabs`)
+    return reopened.length
+  }
+
+  private async toEntry(tabId: number): Promise<(ClosedTabEntry & { tabId: number }) | null> {
+    let tab: chrome.tabs.Tab
+    try {
+      tab = await chrome.tabs.get(tabId)
+    } catch {
+      return null
+    }
+    if (!tab.url) {
+      return null
+    }
+
+    const harpoonSlot = stateManager
+      .getHarpoonTabsForWindow(tab.windowId)
+      .findIndex((harpoonTab) => harpoonTab.id === tabId)
+
+    return {
+      tabId,
+      url: tab.url,
+      title: tab.title || tab.url,
+      faviconUrl: tab.favIconUrl || generateFaviconUrl(tab.url),
+      windowId: tab.windowId,
+      index: tab.index,
+      pinned: tab.pinned,
+      ...(harpoonSlot !== -1 && { harpoonSlot })
+    }
+  }
+
+  // In its old window at its old index, or at the end of the current window if that's gone
+  private async reopen(entry: ClosedTabEntry): Promise<chrome.tabs.Tab> {
+    const windowExists = await chrome.windows.get(entry.windowId).then(
+      () => true,
+      () => false
+    )
+
+    return chrome.tabs.create({
+      url: entry.url,
+      pinned: entry.pinned,
+      active: false,
+      ...(windowExists && { windowId: entry.windowId, index: entry.index })
+    })
+  }
+
+  private async readJournal(): Promise<ClosedTabEntry[][]> {
+    return (await storage.read<ClosedTabEntry[][]>('closeJournal')) ?? []
+  }
+}
+
+export const closeJournalManager = new CloseJournalManager()
@@ -0,0 +1,73 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { GrepMatch, GrepTabResult, Tab } from '../../types/shared.js'
+import { stateManager } from '../state/state-manager.js'
+import { messageBroker } from '../messaging/message-broker.js'
+import { settingsService } from '../../services/settings.js'
+
+// Tabs that don't answer within this time (frozen, busy or still loading) are left out
+const TAB_TIMEOUT_MS = 1000
+const MAX_MATCHES_PER_TAB = 20
+
+/**
+ * Grep manager - live grep across the page text of every open tab
+ *
+ * The query is sent to each tab's content script, which searches its own page. Tabs are
+ * searched in parallel and each one gets a single short-lived attempt, so one slow page
+ * never holds up the results from the rest.
+ */
+export class GrepManager {
+  /**
+   * Search all open tabs, returning the tabs with matches in most-recently-used order
+   */
+  async grepTabs(query: string): Promise<GrepTabResult[]> {
+    if (!query.trim()) {
+      return []
+    }
+
+    const tabs = await this.getSearchableTabs()
+    const results = await Promise.all(tabs.map((tab) => this.grepTab(tab, query)))
+    return results.filter((result): result is GrepTabResult => result !== null)
+  }
+
+  /**
+   * Scroll a tab to a match found by grepTabs
+   */
+  async revealMatch(tabId: number, match: Pick<GrepMatch, 'query' | 'occurrence'>): Promise<boolean> {
+    const result = await messageBroker.sendMessage(
+      tabId,
+      'revealGrepMatch',
+      { query: match.query, occurrence: match.occurrence },
+      { priority: 'high', maxRetries: 0, timeout: TAB_TIMEOUT_MS }
+    )
+    if (!result.success) {
+      serviceWorkerLogger.debug(`Could not reveal grep match in tab ${tabId}:`, result.error)
+    }
+    return result.success
+  }
+
+  private async grepTab(tab: Tab, query: string): Promise<GrepTabResult | null> {
+    const result = await messageBroker.sendMessage(
+      tab.id,
+      'grepPage',
+      { query, maxMatches: MAX_MATCHES_PER_TAB },
+      { priority: 'high', maxRetries: 0, timeout: TAB_TIMEOUT_MS }
+    )
+
+    if (!result.success) {
+      // Discarded tabs and pages without the content script end up here
+      serviceWorkerLogger.debug(`Skipping tab ${tab.id} in grep:`, result.error)
+      return null
+    }
+
+    const matches = (result.response as { matches?: GrepMatch[] } | undefined)?.matches ?? []
+    return matches.length > 0 ? { tab, matches } : null
+  }
+
+  private async getSearchableTabs(): Promise<Tab[]> {
+    const tabs = stateManager.getTabHistory()
+    const excluded = await Promise.all(tabs.map((tab) => settingsService.isUrlExcluded(tab.url)))
+    return tabs.filter((tab, index) => !excluded[index] && !tab.url.startsWith('chrome://'))
+  }
+}
+
+export const grepManager = new GrepManager()
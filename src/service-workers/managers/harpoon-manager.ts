@@ -1,10 +1,12 @@
 import { harpoonLogger } from '../../utils/logger.js'
 import type { Tab } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
 import { stateManager } from '../state/state-manager.js'
 import { messageBroker } from '../messaging/message-broker.js'
 import { tabManager } from './tab-manager.js'
 import { windowManager } from './window-manager.js'
 import { screenshotManager } from './screenshot-manager.js'
+import { tabGroupManager } from './tab-group-manager.js'
 
 export interface HarpoonStats {
   totalTabs: number
@@ -49,52 +51,33 @@ export class HarpoonManager {
   async addTabToHarpoon(tabId: number): Promise<void> {
     harpoonLogger.debug(`Adding tab ${tabId} to harpoon`)
     try {
-      // Get the tab from Chrome
-      const chromeTab = await this.getChromeTab(tabId)
-      if (!chromeTab) {
-        throw new Error(`Tab ${tabId} not found`)
-      }
-
-      // Create telescope tab
-      const telescopeTab = await this.createTelescopeTab(chromeTab)
+      await this.addTab(tabId)
 
-      // Check if tab is already in harpoon for this window
-      const windowId = telescopeTab.windowId
-      const currentHarpoonTabs = stateManager.getHarpoonTabsForWindow(windowId)
-      const existingIndex = currentHarpoonTabs.findIndex((tab) => tab.id === tabId)
-      harpoonLogger.debug(
-        `Current harpoon tabs for window ${windowId}:`,
-        currentHarpoonTabs.map((t) => t.id)
-      )
+      // Notify content scripts (async, don't block response)
+      this.notifyHarpoonChange().catch((error) => {
+        harpoonLogger.error('Failed to notify harpoon change:', error)
+      })
+    } catch (error) {
+      harpoonLogger.error(`Failed to add tab ${tabId} to harpoon:`, error)
+      throw error
+    }
+  }
 
-      if (existingIndex !== -1) {
-        // Update existing tab
-        await stateManager.updateHarpoonTabs({
-          type: 'update',
-          windowId,
-          tab: telescopeTab
-        })
-        harpoonLogger.debug(`Updated existing harpoon tab ${tabId} in window ${windowId}`)
-      } else {
-        // Add new tab
-        await stateManager.updateHarpoonTabs({
-          type: 'add',
-          windowId,
-          tab: telescopeTab
-        })
-        harpoonLogger.debug(`Added tab ${tabId} to harpoon in window ${windowId}`)
+  /**
+   * Add several tabs to harpoon in order, each to its own window's list, and notify once
+   */
+  async addTabsToHarpoon(tabIds: number[]): Promise<void> {
+    harpoonLogger.debug(`Adding ${tabIds.length} tabs to harpoon`)
+    try {
+      for (const tabId of tabIds) {
+        await this.addTab(tabId)
       }
 
-      harpoonLogger.debug(`Harpoon tabs after addition:`, stateManager.getHarpoonTabs())
-      // Enforce max harpoon tabs limit for this window
-      await this.enforceMaxHarpoonTabs(windowId)
-
-      // Notify content scripts (async, don't block response)
       this.notifyHarpoonChange().catch((error) => {
         harpoonLogger.error('Failed to notify harpoon change:', error)
       })
     } catch (error) {
-      harpoonLogger.error(`Failed to add tab ${tabId} to harpoon:`, error)
+      harpoonLogger.error('Failed to add tabs to harpoon:', error)
       throw error
     }
   }
@@ -320,6 +303,24 @@ export class HarpoonManager {
     }
   }
 
+  /**
+   * Put a reopened tab back in its window's harpoon list, at the slot it had when closed
+   */
+  async restoreTab(tab: Tab, slot: number): Promise<void> {
+    const windowId = tab.windowId
+    const tabs = stateManager.getHarpoonTabsForWindow(windowId)
+    tabs.splice(Math.min(slot, tabs.length), 0, tab)
+
+    await stateManager.updateHarpoonTabs({ type: 'add', windowId, tab })
+    await stateManager.updateHarpoonTabs({ type: 'reorder', windowId, tabs })
+    await this.enforceMaxHarpoonTabs(windowId)
+    harpoonLogger.debug(`Restored tab ${tab.id} to harpoon slot ${slot + 1} in window ${windowId}`)
+
+    this.notifyHarpoonChange().catch((error) => {
+      harpoonLogger.error('Failed to notify harpoon change:', error)
+    })
+  }
+
   /**
    * Reorder harpoon tabs for a specific window
    */
@@ -605,6 +606,51 @@ export class HarpoonManager {
     })
   }
 
+  /**
+   * Add a tab to its window's harpoon list, or refresh it if it's there, without notifying
+   */
+  private async addTab(tabId: number): Promise<void> {
+    // Get the tab from Chrome
+    const chromeTab = await this.getChromeTab(tabId)
+    if (!chromeTab) {
+      throw new Error(`Tab ${tabId} not found`)
+    }
+
+    // Create telescope tab
+    const telescopeTab = await this.createTelescopeTab(chromeTab)
+
+    // Check if tab is already in harpoon for this window
+    const windowId = telescopeTab.windowId
+    const currentHarpoonTabs = stateManager.getHarpoonTabsForWindow(windowId)
+    const existingIndex = currentHarpoonTabs.findIndex((tab) => tab.id === tabId)
+    harpoonLogger.debug(
+      `Current harpoon tabs for window ${windowId}:`,
+      currentHarpoonTabs.map((t) => t.id)
+    )
+
+    if (existingIndex !== -1) {
+      // Update existing tab
+      await stateManager.updateHarpoonTabs({
+        type: 'update',
+        windowId,
+        tab: telescopeTab
+      })
+      harpoonLogger.debug(`Updated existing harpoon tab ${tabId} in window ${windowId}`)
+    } else {
+      // Add new tab
+      await stateManager.updateHarpoonTabs({
+        type: 'add',
+        windowId,
+        tab: telescopeTab
+      })
+      harpoonLogger.debug(`Added tab ${tabId} to harpoon in window ${windowId}`)
+    }
+
+    harpoonLogger.debug(`Harpoon tabs after addition:`, stateManager.getHarpoonTabs())
+    // Enforce max harpoon tabs limit for this window
+    await this.enforceMaxHarpoonTabs(windowId)
+  }
+
   private async createTelescopeTab(tab: chrome.tabs.Tab): Promise<Tab> {
     if (!tab.id || !tab.url || !tab.title || !tab.windowId) {
       throw new Error('Invalid Chrome tab data')
@@ -623,23 +669,13 @@ export class HarpoonManager {
     return {
       id: tab.id,
       url: tab.url,
-      highlightedUrl: tab.url,
       title: tab.title,
-      highlightedTitle: tab.title,
-      faviconUrl: tab.favIconUrl || this.generateFaviconUrl(tab.url),
+      faviconUrl: tab.favIconUrl || generateFaviconUrl(tab.url),
       screenshotUrl,
-      windowId: tab.windowId
+      windowId: tab.windowId,
+      ...(await tabGroupManager.getGroupFields(tab))
     }
   }
-
-  private generateFaviconUrl(url: string): string {
-    // Using Google favicon service as fallback
-    // This is used when Chrome doesn't provide a favIconUrl (e.g., for new tabs)
-    const faviconUrl = new URL('https://www.google.com/s2/favicons')
-    faviconUrl.searchParams.set('sz', '64')
-    faviconUrl.searchParams.set('domain_url', url)
-    return faviconUrl.toString()
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,72 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { HistoryEntry } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import { settingsService } from '../../services/settings.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// chrome.history.search returns at most this many pages
+const MAX_HISTORY_RESULTS = 5000
+
+/**
+ * History manager - recently visited pages from the browser history
+ */
+export class HistoryManager {
+  /**
+   * Pages visited in the last N days (from settings), most recent first, one entry per page
+   */
+  async getHistory(now: number = Date.now()): Promise<HistoryEntry[]> {
+    const days = await settingsService.getHistoryDays()
+    const items = await chrome.history.search({
+      text: '',
+      startTime: now - days * DAY_MS,
+      maxResults: MAX_HISTORY_RESULTS
+    })
+
+    const entries = this.dedupe(items)
+    serviceWorkerLogger.debug(`Loaded ${entries.length} history entries from the last ${days} days`)
+    return entries
+  }
+
+  /**
+   * History keeps one item per URL, but anchors on the same page are separate URLs; merge
+   * those into one entry with the combined visit count
+   */
+  private dedupe(items: chrome.history.HistoryItem[]): HistoryEntry[] {
+    const byPage = new Map<string, HistoryEntry>()
+
+    for (const item of items) {
+      if (!item.url || !/^https?:|^file:/.test(item.url)) continue
+
+      const page = item.url.split('#')[0]
+      const visitCount = item.visitCount ?? 0
+      const lastVisitTime = item.lastVisitTime ?? 0
+      const existing = byPage.get(page)
+
+      if (!existing) {
+        byPage.set(page, {
+          id: item.id,
+          title: item.title || item.url,
+          url: item.url,
+          faviconUrl: generateFaviconUrl(item.url),
+          visitCount,
+          lastVisitTime
+        })
+        continue
+      }
+
+      existing.visitCount += visitCount
+      if (lastVisitTime > existing.lastVisitTime) {
+        Object.assign(existing, {
+          id: item.id,
+          title: item.title || existing.title,
+          url: item.url,
+          lastVisitTime
+        })
+      }
+    }
+
+    return Array.from(byPage.values()).sort((a, b) => b.lastVisitTime - a.lastVisitTime)
+  }
+}
+
+export const historyManager = new HistoryManager()
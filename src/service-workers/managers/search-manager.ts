@@ -0,0 +1,110 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { SearchableTab, SearchPortRequest, SearchPortResponse } from '../../types/shared.js'
+import { IncrementalTabSearch, SEARCH_PORT_NAME } from '../../services/search.js'
+
+type SearchRequest = Extract<SearchPortRequest, { type: 'search' }>
+
+interface SearchSession {
+  tabs: SearchableTab[]
+  search: IncrementalTabSearch<SearchableTab>
+  pendingRequest: SearchRequest | null
+  scheduled: boolean
+}
+
+/**
+ * Search manager - runs tab search for content scripts, off the host page's main thread
+ *
+ * Each content script connects over a port, sends its tab list whenever it changes and then
+ * one search request per keystroke. Requests that are superseded before they start are
+ * dropped, so a burst of typing only searches for the latest query.
+ */
+export class SearchManager {
+  private sessions = new Set<SearchSession>()
+
+  isSearchPort(port: chrome.runtime.Port): boolean {
+    return port.name === SEARCH_PORT_NAME
+  }
+
+  /**
+   * Serve search requests on a newly connected port
+   */
+  handlePort(port: chrome.runtime.Port): void {
+    const session: SearchSession = {
+      tabs: [],
+      search: new IncrementalTabSearch<SearchableTab>(),
+      pendingRequest: null,
+      scheduled: false
+    }
+    this.sessions.add(session)
+
+    port.onMessage.addListener((request: SearchPortRequest) => {
+      switch (request.type) {
+        case 'setTabs':
+          session.tabs = request.tabs
+          break
+
+        case 'search':
+          session.pendingRequest = request
+          this.scheduleSearch(session, port)
+          break
+
+        case 'cancel':
+          session.pendingRequest = null
+          break
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      session.pendingRequest = null
+      this.sessions.delete(session)
+    })
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+
+  // Run on a later task so newer requests already queued on the port replace this one
+  private scheduleSearch(session: SearchSession, port: chrome.runtime.Port): void {
+    if (session.scheduled) {
+      return
+    }
+    session.scheduled = true
+
+    setTimeout(() => {
+      session.scheduled = false
+      const request = session.pendingRequest
+      session.pendingRequest = null
+      if (!request || !this.sessions.has(session)) {
+        return
+      }
+
+      try {
+        const results = session.search.search(session.tabs, request.query, {
+          harpoonTabIds: new Set(request.harpoonTabIds)
+        })
+        const response: SearchPortResponse = {
+          type: 'results',
+          requestId: request.requestId,
+          hits: results.map((result) => ({
+            tabId: result.item.id,
+            refIndex: result.refIndex,
+            score: result.score,
+            matches: result.matches
+          }))
+        }
+        port.postMessage(response)
+      } catch (error) {
+        serviceWorkerLogger.error('Search request failed:', error)
+        const response: SearchPortResponse = {
+          type: 'error',
+          requestId: request.requestId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+        port.postMessage(response)
+      }
+    }, 0)
+  }
+}
+
+export const searchManager = new SearchManager()
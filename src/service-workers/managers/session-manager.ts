@@ -0,0 +1,84 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { ClosedSession } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import { screenshotManager } from './screenshot-manager.js'
+
+/**
+ * Session manager - recently closed tabs and windows
+ *
+ * Closing a tab drops it from our tab history and harpoon, but the browser still remembers
+ * it; this lists those sessions and restores them.
+ */
+export class SessionManager {
+  async getRecentlyClosed(): Promise<ClosedSession[]> {
+    const sessions = await chrome.sessions.getRecentlyClosed({
+      maxResults: chrome.sessions.MAX_SESSION_RESULTS
+    })
+
+    const closed = await Promise.all(sessions.map((session) => this.toClosedSession(session)))
+    return closed.filter((session): session is ClosedSession => session !== null)
+  }
+
+  /**
+   * Restore closed sessions in the given order
+   */
+  async restore(sessionIds: string[]): Promise<void> {
+    for (const sessionId of sessionIds) {
+      try {
+        await chrome.sessions.restore(sessionId)
+      } catch (error) {
+        // Already restored from elsewhere, or expired; keep going with the rest
+        serviceWorkerLogger.warn(`Failed to restore session ${sessionId}:`, error)
+      }
+    }
+  }
+
+  private async toClosedSession(session: chrome.sessions.Session): Promise<ClosedSession | null> {
+    const closedAt = this.toMilliseconds(session.lastModified)
+
+    if (session.tab?.sessionId && session.tab.url) {
+      const { tab } = session
+      return {
+        sessionId: tab.sessionId!,
+        kind: 'tab',
+        title: tab.title || tab.url!,
+        url: tab.url!,
+        faviconUrl: tab.favIconUrl || generateFaviconUrl(tab.url!),
+        screenshotUrl: (await this.getScreenshot(tab.url!)) || '',
+        closedAt
+      }
+    }
+
+    if (session.window?.sessionId) {
+      const tabs = session.window.tabs ?? []
+      const firstUrl = tabs[0]?.url || ''
+      return {
+        sessionId: session.window.sessionId,
+        kind: 'window',
+        title: `Window (${tabs.length} ${tabs.length === 1 ? 'tab' : 'tabs'})`,
+        url: firstUrl,
+        faviconUrl: tabs[0]?.favIconUrl || (firstUrl ? generateFaviconUrl(firstUrl) : ''),
+        screenshotUrl: '',
+        closedAt,
+        tabTitles: tabs.map((tab) => tab.title || tab.url || '')
+      }
+    }
+
+    return null
+  }
+
+  private async getScreenshot(url: string): Promise<string | null> {
+    try {
+      return await screenshotManager.getScreenshotForUrl(url)
+    } catch {
+      return null
+    }
+  }
+
+  // Chrome reports seconds since the epoch, Firefox milliseconds
+  private toMilliseconds(lastModified: number): number {
+    return lastModified < 1e12 ? lastModified * 1000 : lastModified
+  }
+}
+
+export const sessionManager = new SessionManager()
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { settingsService } from '../../services/settings.js'
 import { serviceWorkerLogger } from '../../utils/logger.js'
+import type { KeymapOverrides } from '../../services/keymap.js'
 
 export class SettingsManager {
   constructor() {
@@ -43,10 +44,60 @@ export class SettingsManager {
     return settingsService.isUrlExcluded(url)
   }
 
+  /**
+   * Get how many days of history the history picker lists
+   */
+  async getHistoryDays(): Promise<number> {
+    return settingsService.getHistoryDays()
+  }
+
+  /**
+   * Set how many days of history the history picker lists
+   */
+  async setHistoryDays(days: number): Promise<void> {
+    await settingsService.setHistoryDays(days)
+    serviceWorkerLogger.info(`History picker now lists ${days} days`)
+  }
+
+  /**
+   * Get whether the tab picker lists every window's tabs by default
+   */
+  async getSearchAllWindows(): Promise<boolean> {
+    return settingsService.getSearchAllWindows()
+  }
+
+  /**
+   * Set whether the tab picker lists every window's tabs by default
+   */
+  async setSearchAllWindows(allWindows: boolean): Promise<void> {
+    await settingsService.setSearchAllWindows(allWindows)
+    serviceWorkerLogger.info(`Tab picker now opens on ${allWindows ? 'all windows' : 'this window'}`)
+  }
+
+  /**
+   * Get the user's changes to the built-in keymap
+   */
+  async getKeymap(): Promise<KeymapOverrides> {
+    return settingsService.getKeymap()
+  }
+
+  /**
+   * Set the user's changes to the built-in keymap
+   */
+  async setKeymap(keymap: KeymapOverrides): Promise<void> {
+    await settingsService.setKeymap(keymap)
+    serviceWorkerLogger.info('Keymap settings updated')
+
+    // Pages pick up the new keys without a reload
+    await this.broadcastSettingsChange('keymap')
+  }
+
   /**
    * Broadcast settings change to all tabs
    */
-  private async broadcastSettingsChange(): Promise<void> {
+  private async broadcastSettingsChange(
+    type: 'excludedSites' | 'keymap' = 'excludedSites'
+  ): Promise<void> {
     const tabs = await chrome.tabs.query({})
 
     for (const tab of tabs) {
@@ -54,7 +105,7 @@ export class SettingsManager {
         try {
           await chrome.tabs.sendMessage(tab.id, {
             message: 'settingsChanged',
-            type: 'excludedSites'
+            type
           })
         } catch (error) {
           // Tab might not have content script loaded
@@ -83,9 +134,33 @@ export class SettingsManager {
       case 'isUrlExcluded':
         return { isExcluded: await this.isUrlExcluded(message.url) }
 
+      case 'getHistoryDays':
+        return { days: await this.getHistoryDays() }
+
+      case 'setHistoryDays':
+        await this.setHistoryDays(message.days)
+        return { success: true }
+
+      case 'getSearchAllWindows':
+        return { allWindows: await this.getSearchAllWindows() }
+
+      case 'setSearchAllWindows':
+        await this.setSearchAllWindows(message.allWindows)
+        return { success: true }
+
+      case 'getKeymap':
+        return { keymap: await this.getKeymap() }
+
+      case 'setKeymap':
+        try {
+          await this.setKeymap(message.keymap)
+          return { success: true }
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : String(error) }
+        }
+
       default:
         return null
     }
   }
 }
-
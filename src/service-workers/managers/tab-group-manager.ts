@@ -0,0 +1,169 @@
+import { serviceWorkerLogger } from '../../utils/logger.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import type { Tab, TabGroupColor, TabGroupInfo } from '../../types/shared.js'
+import { stateManager } from '../state/state-manager.js'
+import { messageBroker } from '../messaging/message-broker.js'
+
+export type TabGroupFields = Pick<Tab, 'groupId' | 'groupTitle' | 'groupColor'>
+
+/**
+ * Tab group manager - group details for tabs, the groups the group picker lists, and
+ * collapsing and creating groups
+ *
+ * Browsers without the tabGroups API (Firefox) have no groups: tabs get no group fields and
+ * the group picker lists nothing.
+ */
+export class TabGroupManager {
+  constructor() {
+    this.setupEventListeners()
+  }
+
+  /**
+   * The group fields for a tab; none for tabs outside a group
+   */
+  async getGroupFields(tab: chrome.tabs.Tab): Promise<TabGroupFields> {
+    // Ungrouped tabs have a group ID of -1 (chrome.tabGroups.TAB_GROUP_ID_NONE)
+    if (!this.isSupported() || tab.groupId === undefined || tab.groupId < 0) {
+      return {}
+    }
+
+    try {
+      return this.toGroupFields(await chrome.tabGroups.get(tab.groupId))
+    } catch (error) {
+      // The group was closed while the tab was being read
+      serviceWorkerLogger.debug(`Tab group ${tab.groupId} not found:`, error)
+      return {}
+    }
+  }
+
+  /**
+   * Every tab group, with its tabs in tab strip order
+   */
+  async getGroups(): Promise<TabGroupInfo[]> {
+    if (!this.isSupported()) {
+      return []
+    }
+
+    const [groups, chromeTabs] = await Promise.all([
+      chrome.tabGroups.query({}),
+      chrome.tabs.query({})
+    ])
+    const knownTabs = new Map(stateManager.getTabHistory().map((tab) => [tab.id, tab]))
+
+    return groups.map((group) => ({
+      id: group.id,
+      title: group.title ?? '',
+      color: group.color as TabGroupColor,
+      collapsed: group.collapsed,
+      windowId: group.windowId,
+      tabs: chromeTabs
+        .filter((tab) => tab.groupId === group.id)
+        .sort((a, b) => a.index - b.index)
+        // Tabs from the history carry their screenshots
+        .map((tab) => knownTabs.get(tab.id!) ?? this.toTab(tab, group))
+    }))
+  }
+
+  async setCollapsed(groupId: number, collapsed: boolean): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('Tab groups are not supported in this browser')
+    }
+
+    await chrome.tabGroups.update(groupId, { collapsed })
+    serviceWorkerLogger.debug(`${collapsed ? 'Collapsed' : 'Expanded'} tab group ${groupId}`)
+  }
+
+  /**
+   * Put tabs in a new group, named unless the title is empty; tabs from other windows move
+   * to the first tab's window
+   */
+  async createGroup(tabIds: number[], title: string): Promise<number> {
+    if (tabIds.length === 0) {
+      throw new Error('No tabs to group')
+    }
+    if (!this.isSupported()) {
+      throw new Error('Tab groups are not supported in this browser')
+    }
+
+    const groupId = await chrome.tabs.group({ tabIds: tabIds as [number, ...number[]] })
+    const trimmed = title.trim()
+    if (trimmed) {
+      await chrome.tabGroups.update(groupId, { title: trimmed })
+    }
+
+    serviceWorkerLogger.info(`Grouped ${tabIds.length} tabs as "${trimmed}"`)
+    return groupId
+  }
+
+  /**
+   * Renamed, recolored or collapsed groups update the tabs in them, in the history and in
+   * harpoon; tabs joining or leaving a group are updated by the tab manager
+   */
+  private async handleGroupUpdated(group: chrome.tabGroups.TabGroup): Promise<void> {
+    const fields = this.toGroupFields(group)
+    const groupTabs = stateManager.getTabHistory().filter((tab) => tab.groupId === group.id)
+    const harpoonTabs = stateManager
+      .getHarpoonTabsForWindow(group.windowId)
+      .filter((tab) => tab.groupId === group.id)
+
+    for (const tab of groupTabs) {
+      await stateManager.updateTabHistory({
+        type: 'update',
+        tab: { ...tab, ...fields }
+      })
+    }
+    for (const tab of harpoonTabs) {
+      await stateManager.updateHarpoonTabs({
+        type: 'update',
+        windowId: group.windowId,
+        tab: { ...tab, ...fields }
+      })
+    }
+
+    // A group lives in one window, so only that window's tab list changes
+    if (groupTabs.length > 0) {
+      await messageBroker.broadcastToWindow(group.windowId, 'tabsUpdated', {
+        allTabs: stateManager.getTabHistoryForWindow(group.windowId),
+        frecencyScores: stateManager.getFrecencyScores()
+      })
+    }
+    if (harpoonTabs.length > 0) {
+      await messageBroker.broadcastToAllTabs('harpoonChanged', {})
+    }
+  }
+
+  private isSupported(): boolean {
+    return chrome.tabGroups !== undefined
+  }
+
+  private toGroupFields(group: chrome.tabGroups.TabGroup): TabGroupFields {
+    return {
+      groupId: group.id,
+      groupTitle: group.title ?? '',
+      groupColor: group.color as TabGroupColor
+    }
+  }
+
+  private toTab(tab: chrome.tabs.Tab, group: chrome.tabGroups.TabGroup): Tab {
+    const url = tab.url || tab.pendingUrl || ''
+    return {
+      id: tab.id!,
+      title: tab.title || url,
+      url,
+      faviconUrl: tab.favIconUrl || generateFaviconUrl(url),
+      screenshotUrl: '',
+      windowId: tab.windowId,
+      ...this.toGroupFields(group)
+    }
+  }
+
+  private setupEventListeners(): void {
+    chrome.tabGroups?.onUpdated.addListener((group) => {
+      this.handleGroupUpdated(group).catch((error) => {
+        serviceWorkerLogger.error('Failed to update tabs of a tab group:', error)
+      })
+    })
+  }
+}
+
+export const tabGroupManager = new TabGroupManager()
@@ -1,9 +1,12 @@
 import { serviceWorkerLogger } from '../../utils/logger.js'
 import type { Tab } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import { isSameUrl } from '../../utils/tab-filters.js'
 import { stateManager } from '../state/state-manager.js'
 import { messageBroker } from '../messaging/message-broker.js'
 import { screenshotManager } from './screenshot-manager.js'
 import { bufferManager } from './buffer-manager.js'
+import { tabGroupManager } from './tab-group-manager.js'
 
 
 export interface TabValidationResult {
@@ -105,8 +108,8 @@ export class TabManager {
         }
       }
 
-      // Handle other tab property changes
-      if (changeInfo.title || changeInfo.favIconUrl) {
+      // Handle other tab property changes, including the tab joining or leaving a group
+      if (changeInfo.title || changeInfo.favIconUrl || changeInfo.groupId !== undefined) {
         await this.handleTabPropertyChange(tab)
       }
 
@@ -142,6 +145,9 @@ export class TabManager {
       // Update buffer manager with previous active tab for "last buffer" functionality
       bufferManager.updatePreviousActiveTab(activeInfo.windowId, previousActiveTabId)
 
+      // Record the visit for frecency ranking in the tab picker
+      await stateManager.recordTabActivation(activeInfo.tabId)
+
       // Capture screenshot for the activated tab (with delay for page rendering)
       setTimeout(async () => {
         // Re-verify the tab is still active before capturing
@@ -209,9 +215,13 @@ export class TabManager {
         })
       }
 
+      // Tab IDs are never reused, so its frecency data is dead weight now
+      await stateManager.removeTabActivity(tabId)
+
       // Notify content scripts in the affected window only
       await messageBroker.broadcastToWindow(removeInfo.windowId, 'tabsUpdated', {
-        allTabs: stateManager.getTabHistoryForWindow(removeInfo.windowId)
+        allTabs: stateManager.getTabHistoryForWindow(removeInfo.windowId),
+        frecencyScores: stateManager.getFrecencyScores()
         // Removed harpoonTabs to avoid overriding window-scoped harpoon data
         // Harpoon updates are handled by the harpoon system via harpoonChanged messages
       })
@@ -221,6 +231,24 @@ export class TabManager {
     }
   }
 
+  /**
+   * Handle a tab moving to another window
+   */
+  async onTabAttached(tabId: number, attachInfo: chrome.tabs.TabAttachInfo): Promise<void> {
+    try {
+      const tab = await this.getChromeTab(tabId)
+      if (!tab || !this.isValidChromeTab(tab)) {
+        return
+      }
+
+      serviceWorkerLogger.debug(`Tab ${tabId} moved to window ${attachInfo.newWindowId}`)
+      await this.handleTabPropertyChange(tab)
+      await this.broadcastTabUpdatesPerWindow()
+    } catch (error) {
+      serviceWorkerLogger.error('Failed to handle tab attach:', error)
+    }
+  }
+
   /**
    * Handle window creation
    */
@@ -293,12 +321,15 @@ export class TabManager {
       // Get all windows
       const windows = await this.getAllWindows()
       
+      const frecencyScores = stateManager.getFrecencyScores()
+
       // Send window-specific updates to each window
       const broadcastPromises = windows.map(async (window) => {
         if (window.id) {
           const windowTabs = stateManager.getTabHistoryForWindow(window.id)
           await messageBroker.broadcastToWindow(window.id, 'tabsUpdated', {
-            allTabs: windowTabs
+            allTabs: windowTabs,
+            frecencyScores
           })
         }
       })
@@ -308,7 +339,8 @@ export class TabManager {
       serviceWorkerLogger.error('Failed to broadcast tab updates per window:', error)
       // Fallback to old behavior if window-specific fails
       await messageBroker.broadcastToAllTabs('tabsUpdated', {
-        allTabs: stateManager.getTabHistory()
+        allTabs: stateManager.getTabHistory(),
+        frecencyScores: stateManager.getFrecencyScores()
       })
     }
   }
@@ -436,6 +468,102 @@ export class TabManager {
     }
   }
 
+  /**
+   * Open a URL in a new background tab next to the tab it was opened from
+   */
+  async openTabInBackground(url: string, openerTab?: chrome.tabs.Tab): Promise<void> {
+    await chrome.tabs.create({
+      url,
+      active: false,
+      ...(openerTab?.id !== undefined && { openerTabId: openerTab.id, index: openerTab.index + 1 })
+    })
+    serviceWorkerLogger.debug('Opened background tab:', url)
+  }
+
+  /**
+   * Open a URL in the tab it was requested from, or in a new window. In the current tab an
+   * already open tab with the same page is preferred, so a URL is only ever open once.
+   */
+  async openUrl(url: string, target: 'current' | 'window', senderTab?: chrome.tabs.Tab): Promise<void> {
+    if (target === 'window') {
+      await chrome.windows.create({ url })
+      serviceWorkerLogger.debug('Opened URL in new window:', url)
+      return
+    }
+
+    const openTabs = await chrome.tabs.query({})
+    const existing = openTabs.find((tab) => tab.id !== undefined && tab.url && isSameUrl(tab.url, url))
+    if (existing?.id !== undefined) {
+      await this.switchToTab(existing.id)
+      return
+    }
+
+    if (senderTab?.id !== undefined) {
+      await chrome.tabs.update(senderTab.id, { url })
+    } else {
+      await chrome.tabs.create({ url })
+    }
+    serviceWorkerLogger.debug('Opened URL:', url)
+  }
+
+  /**
+   * Move tabs to a new window, in order; the first one becomes its active tab
+   */
+  async moveTabsToNewWindow(tabIds: number[]): Promise<number> {
+    const [firstTabId, ...otherTabIds] = tabIds
+    if (firstTabId === undefined) {
+      throw new Error('No tabs to move')
+    }
+
+    const window = await chrome.windows.create({ tabId: firstTabId, focused: true })
+    if (otherTabIds.length > 0) {
+      await chrome.tabs.move(otherTabIds, { windowId: window.id!, index: -1 })
+    }
+    serviceWorkerLogger.debug(`Moved ${tabIds.length} tabs to new window ${window.id}`)
+    return window.id!
+  }
+
+  /**
+   * Move tabs to the end of another window
+   */
+  async moveTabsToWindow(tabIds: number[], windowId: number): Promise<void> {
+    await chrome.tabs.move(tabIds, { windowId, index: -1 })
+    serviceWorkerLogger.debug(`Moved ${tabIds.length} tabs to window ${windowId}`)
+  }
+
+  /**
+   * Unpin the tabs if they are all pinned, otherwise pin them all
+   */
+  async toggleTabsPinned(tabIds: number[]): Promise<boolean> {
+    const tabs = await Promise.all(tabIds.map((tabId) => this.getChromeTab(tabId)))
+    const pinned = !tabs.every((tab) => tab?.pinned)
+    await Promise.all(tabIds.map((tabId) => chrome.tabs.update(tabId, { pinned })))
+    return pinned
+  }
+
+  /**
+   * Unmute the tabs if they are all muted, otherwise mute them all
+   */
+  async toggleTabsMuted(tabIds: number[]): Promise<boolean> {
+    const tabs = await Promise.all(tabIds.map((tabId) => this.getChromeTab(tabId)))
+    const muted = !tabs.every((tab) => tab?.mutedInfo?.muted)
+    await Promise.all(tabIds.map((tabId) => chrome.tabs.update(tabId, { muted })))
+    return muted
+  }
+
+  async reloadTabs(tabIds: number[]): Promise<void> {
+    await Promise.all(tabIds.map((tabId) => chrome.tabs.reload(tabId)))
+  }
+
+  /**
+   * Duplicate tabs one at a time, so each copy opens next to its original
+   */
+  async duplicateTabs(tabIds: number[]): Promise<void> {
+    for (const tabId of tabIds) {
+      await chrome.tabs.duplicate(tabId)
+    }
+  }
+
   /**
    * Refresh a tab with its latest screenshot
    */
@@ -503,6 +631,7 @@ export class TabManager {
     chrome.tabs.onUpdated.addListener(this.onTabUpdated.bind(this))
     chrome.tabs.onActivated.addListener(this.onTabActivated.bind(this))
     chrome.tabs.onRemoved.addListener(this.onTabRemoved.bind(this))
+    chrome.tabs.onAttached.addListener(this.onTabAttached.bind(this))
     chrome.windows.onCreated.addListener(this.onWindowCreated.bind(this))
     chrome.windows.onRemoved.addListener(this.onWindowRemoved.bind(this))
     chrome.windows.onFocusChanged.addListener(this.onWindowFocusChanged.bind(this))
@@ -540,6 +669,9 @@ export class TabManager {
         tabs: allTabs
       })
 
+      // Forget frecency data recorded for tabs from a previous browser session
+      await stateManager.pruneTabActivity(new Set(allTabs.map(tab => tab.id)))
+
       serviceWorkerLogger.info(`Populated initial tab history with ${allTabs.length} tabs`)
     } catch (error) {
       serviceWorkerLogger.error('Failed to populate initial tab history:', error)
@@ -658,6 +790,7 @@ export class TabManager {
         type: 'remove',
         tabId
       })
+      await stateManager.removeTabActivity(tabId)
     }
 
     // Remove from harpoon using per-window system
@@ -688,24 +821,14 @@ export class TabManager {
     return {
       id: tab.id!,
       url: tab.url!,
-      highlightedUrl: tab.url!,
       title: tab.title!,
-      highlightedTitle: tab.title!,
-      faviconUrl: tab.favIconUrl || this.generateFaviconUrl(tab.url!),
+      faviconUrl: tab.favIconUrl || generateFaviconUrl(tab.url!),
       screenshotUrl,
-      windowId: tab.windowId!
+      windowId: tab.windowId!,
+      ...(await tabGroupManager.getGroupFields(tab))
     }
   }
 
-  private generateFaviconUrl(url: string): string {
-    // Using Google favicon service as fallback
-    // This is used when Chrome doesn't provide a favIconUrl (e.g., for new tabs)
-    const faviconUrl = new URL('https://www.google.com/s2/favicons')
-    faviconUrl.searchParams.set('sz', '64')
-    faviconUrl.searchParams.set('domain_url', url)
-    return faviconUrl.toString()
-  }
-
   private isValidChromeTab(tab: chrome.tabs.Tab): boolean {
     return !!(tab.id && tab.url && tab.title && tab.windowId)
   }
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// The module creates its singleton on import, which registers the change listeners
+const { getTree, listeners } = vi.hoisted(() => {
+  const listeners: (() => void)[] = []
+  const event = () => ({ addListener: (listener: () => void) => listeners.push(listener) })
+  const getTree = vi.fn()
+  ;(globalThis as any).chrome.bookmarks = {
+    getTree,
+    onCreated: event(),
+    onRemoved: event(),
+    onChanged: event(),
+    onMoved: event(),
+    onChildrenReordered: event(),
+    onImportEnded: event()
+  }
+  return { getTree, listeners }
+})
+
+import { BookmarkManager } from '../bookmark-manager.js'
+
+const tree = [
+  {
+    id: '0',
+    title: '',
+    children: [
+      {
+        id: '1',
+        title: 'Bookmarks bar',
+        children: [
+          { id: '10', title: 'Docs', url: 'https://example.com/docs' },
+          {
+            id: '11',
+            title: 'Work',
+            children: [{ id: '20', title: 'Wiki', url: 'https://wiki.example.com' }]
+          },
+          { id: '12', title: 'Bookmarklet', url: 'javascript:void(0)' }
+        ]
+      },
+      { id: '2', title: 'Other bookmarks', children: [{ id: '30', title: '', url: 'https://news.example.com' }] }
+    ]
+  }
+]
+
+describe('BookmarkManager', () => {
+  let bookmarkManager: BookmarkManager
+
+  beforeEach(() => {
+    getTree.mockReset()
+    getTree.mockResolvedValue(tree)
+    listeners.length = 0
+    bookmarkManager = new BookmarkManager()
+  })
+
+  it('should flatten the tree with folder paths, skipping bookmarklets', async () => {
+    const bookmarks = await bookmarkManager.getBookmarks()
+
+    expect(bookmarks.map(({ id, title, folderPath }) => ({ id, title, folderPath }))).toEqual([
+      { id: '10', title: 'Docs', folderPath: ['Bookmarks bar'] },
+      { id: '20', title: 'Wiki', folderPath: ['Bookmarks bar', 'Work'] },
+      { id: '30', title: 'https://news.example.com', folderPath: ['Other bookmarks'] }
+    ])
+    expect(bookmarks[0].faviconUrl).toContain('example.com')
+  })
+
+  it('should cache the list until a bookmark changes', async () => {
+    await bookmarkManager.getBookmarks()
+    await bookmarkManager.getBookmarks()
+    expect(getTree).toHaveBeenCalledTimes(1)
+
+    listeners[0]()
+    await bookmarkManager.getBookmarks()
+    expect(getTree).toHaveBeenCalledTimes(2)
+  })
+
+  it('should share one load between concurrent requests', async () => {
+    await Promise.all([bookmarkManager.getBookmarks(), bookmarkManager.getBookmarks()])
+    expect(getTree).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not cache a list loaded while bookmarks changed', async () => {
+    let resolveTree: (value: typeof tree) => void = () => {}
+    getTree.mockReturnValueOnce(new Promise((resolve) => (resolveTree = resolve)))
+
+    const loading = bookmarkManager.getBookmarks()
+    bookmarkManager.invalidate()
+    resolveTree(tree)
+    await loading
+
+    await bookmarkManager.getBookmarks()
+    expect(getTree).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Tab } from '../../../types/shared.js'
+
+const { stored } = vi.hoisted(() => ({ stored: new Map<string, unknown>() }))
+
+vi.mock('../../storage/storage-layer.js', () => ({
+  storage: {
+    read: vi.fn(async (key: string) => stored.get(key) ?? null),
+    write: vi.fn(async (key: string, value: unknown) => {
+      stored.set(key, value)
+    })
+  }
+}))
+
+vi.mock('../../state/state-manager.js', () => ({
+  stateManager: { getHarpoonTabsForWindow: vi.fn(() => []) }
+}))
+
+vi.mock('../harpoon-manager.js', () => ({
+  harpoonManager: { restoreTab: vi.fn() }
+}))
+
+import { stateManager } from '../../state/state-manager.js'
+import { harpoonManager } from '../harpoon-manager.js'
+import { CloseJournalManager } from '../close-journal-manager.js'
+
+const chromeTab = (id: number, index: number, extra: Partial<chrome.tabs.Tab> = {}) =>
+  ({
+    id,
+    index,
+    windowId: 1,
+    url: `https://example.com/${id}`,
+    title: `Tab ${id}`,
+    favIconUrl: 'icon.png',
+    pinned: false,
+    ...extra
+  }) as chrome.tabs.Tab
+
+const harpoonTab = (id: number): Tab => ({
+  id,
+  title: `Tab ${id}`,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+describe('CloseJournalManager', () => {
+  let closeJournal: CloseJournalManager
+  let nextTabId: number
+  const openTabs = new Map<number, chrome.tabs.Tab>()
+  const remove = vi.fn()
+  const create = vi.fn()
+  const getWindow = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stored.clear()
+    openTabs.clear()
+    nextTabId = 100
+    ;[chromeTab(1, 0, { pinned: true }), chromeTab(2, 1), chromeTab(3, 2), chromeTab(4, 3)].forEach(
+      (tab) => openTabs.set(tab.id!, tab)
+    )
+
+    const chrome = (globalThis as any).chrome
+    chrome.tabs.get = vi.fn(async (tabId: number) => {
+      const tab = openTabs.get(tabId)
+      if (!tab) throw new Error(`No tab with id: ${tabId}`)
+      return tab
+    })
+    chrome.tabs.remove = remove
+    chrome.tabs.create = create.mockImplementation(async (properties) => ({
+      id: nextTabId++,
+      windowId: properties.windowId ?? 2,
+      index: properties.index ?? 0
+    }))
+    chrome.windows = { get: getWindow.mockResolvedValue({ id: 1 }) }
+
+    closeJournal = new CloseJournalManager()
+  })
+
+  it('should reopen the last closed batch where its tabs were', async () => {
+    await closeJournal.closeTabs([1])
+    await closeJournal.closeTabs([4, 2])
+
+    expect(remove).toHaveBeenLastCalledWith([4, 2])
+    expect(await closeJournal.undoLastClose()).toBe(2)
+
+    // Left to right, so the second tab's index is right once the first is back
+    expect(create.mock.calls.map(([properties]) => properties)).toEqual([
+      { url: 'https://example.com/2', pinned: false, active: false, windowId: 1, index: 1 },
+      { url: 'https://example.com/4', pinned: false, active: false, windowId: 1, index: 3 }
+    ])
+
+    // The batch before is next
+    create.mockClear()
+    expect(await closeJournal.undoLastClose()).toBe(1)
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://example.com/1', pinned: true, index: 0 })
+    )
+    expect(await closeJournal.undoLastClose()).toBe(0)
+  })
+
+  it('should put harpooned tabs back in their slots', async () => {
+    vi.mocked(stateManager.getHarpoonTabsForWindow).mockReturnValue([
+      harpoonTab(3),
+      harpoonTab(9),
+      harpoonTab(2)
+    ])
+    await closeJournal.closeTabs([2, 3, 4])
+
+    await closeJournal.undoLastClose()
+
+    expect(vi.mocked(harpoonManager.restoreTab).mock.calls).toEqual([
+      [expect.objectContaining({ id: 101, url: 'https://example.com/3', windowId: 1 }), 0],
+      [expect.objectContaining({ id: 100, url: 'https://example.com/2', windowId: 1 }), 2]
+    ])
+  })
+
+  it('should reopen tabs in the current window when theirs is gone', async () => {
+    await closeJournal.closeTabs([3])
+    getWindow.mockRejectedValue(new Error('No window with id: 1'))
+
+    await closeJournal.undoLastClose()
+
+    expect(create).toHaveBeenCalledWith({
+      url: 'https://example.com/3',
+      pinned: false,
+      active: false
+    })
+  })
+
+  it('should only close and journal tabs that are still open', async () => {
+    await closeJournal.closeTabs([42])
+    await closeJournal.closeTabs([2, 42])
+
+    expect(remove.mock.calls).toEqual([[[2]]])
+    expect(await closeJournal.undoLastClose()).toBe(1)
+    expect(await closeJournal.undoLastClose()).toBe(0)
+  })
+
+  it('should not journal a batch that failed to close', async () => {
+    await closeJournal.closeTabs([1])
+    remove.mockRejectedValueOnce(new Error('No tab with id: 3'))
+
+    await expect(closeJournal.closeTabs([2, 3])).rejects.toThrow('No tab with id: 3')
+
+    // Only the earlier batch comes back
+    expect(await closeJournal.undoLastClose()).toBe(1)
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/1' }))
+    expect(await closeJournal.undoLastClose()).toBe(0)
+  })
+})
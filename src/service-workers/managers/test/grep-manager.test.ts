@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { GrepMatch, Tab } from '../../../types/shared.js'
+
+vi.mock('../../state/state-manager.js', () => ({
+  stateManager: { getTabHistory: vi.fn() }
+}))
+vi.mock('../../messaging/message-broker.js', () => ({
+  messageBroker: { sendMessage: vi.fn() }
+}))
+vi.mock('../../../services/settings.js', () => ({
+  settingsService: { isUrlExcluded: vi.fn() }
+}))
+
+import { stateManager } from '../../state/state-manager.js'
+import { messageBroker } from '../../messaging/message-broker.js'
+import { settingsService } from '../../../services/settings.js'
+import { GrepManager } from '../grep-manager.js'
+
+const createTab = (id: number, url: string): Tab => ({
+  id,
+  url,
+  title: `Tab ${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+const createMatch = (line: string): GrepMatch => ({
+  query: 'grep',
+  line,
+  matchStart: 0,
+  matchEnd: 4,
+  before: [],
+  after: [],
+  occurrence: 0
+})
+
+describe('GrepManager', () => {
+  let grepManager: GrepManager
+
+  beforeEach(() => {
+    vi.mocked(settingsService.isUrlExcluded).mockImplementation(async (url) => url.includes('excluded'))
+    vi.mocked(messageBroker.sendMessage).mockReset()
+    grepManager = new GrepManager()
+  })
+
+  it('should collect matches from every tab in most-recently-used order', async () => {
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([
+      createTab(1, 'https://a.com'),
+      createTab(2, 'https://b.com'),
+      createTab(3, 'https://c.com')
+    ])
+    vi.mocked(messageBroker.sendMessage).mockImplementation(async (tabId) => ({
+      success: true,
+      response: { matches: tabId === 2 ? [] : [createMatch(`grep in ${tabId}`)] }
+    }))
+
+    const results = await grepManager.grepTabs('grep')
+
+    expect(results.map((result) => result.tab.id)).toEqual([1, 3])
+    expect(results[1].matches[0].line).toBe('grep in 3')
+  })
+
+  it('should skip excluded sites without messaging them', async () => {
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([
+      createTab(1, 'https://excluded.com'),
+      createTab(2, 'https://b.com')
+    ])
+    vi.mocked(messageBroker.sendMessage).mockResolvedValue({ success: true, response: { matches: [] } })
+
+    await grepManager.grepTabs('grep')
+
+    expect(messageBroker.sendMessage).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(messageBroker.sendMessage).mock.calls[0][0]).toBe(2)
+  })
+
+  it('should send each tab a single attempt with a short timeout', async () => {
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([createTab(1, 'https://a.com')])
+    vi.mocked(messageBroker.sendMessage).mockResolvedValue({ success: true, response: { matches: [] } })
+
+    await grepManager.grepTabs('grep')
+
+    const options = vi.mocked(messageBroker.sendMessage).mock.calls[0][3]
+    expect(options).toMatchObject({ maxRetries: 0 })
+    expect(options?.timeout).toBeLessThanOrEqual(1000)
+  })
+
+  it('should leave out tabs that time out or fail', async () => {
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([
+      createTab(1, 'https://a.com'),
+      createTab(2, 'https://b.com')
+    ])
+    vi.mocked(messageBroker.sendMessage).mockImplementation(async (tabId) =>
+      tabId === 1
+        ? { success: false, error: 'Timeout' }
+        : { success: true, response: { matches: [createMatch('grep')] } }
+    )
+
+    const results = await grepManager.grepTabs('grep')
+
+    expect(results.map((result) => result.tab.id)).toEqual([2])
+  })
+
+  it('should not message any tab for an empty query', async () => {
+    expect(await grepManager.grepTabs('  ')).toEqual([])
+    expect(messageBroker.sendMessage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('../../../services/settings.js', () => ({
+  settingsService: { getHistoryDays: vi.fn() }
+}))
+
+import { settingsService } from '../../../services/settings.js'
+import { HistoryManager } from '../history-manager.js'
+
+const search = vi.fn()
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = 1_700_000_000_000
+
+describe('HistoryManager', () => {
+  let historyManager: HistoryManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(global.chrome as any).history = { search }
+    vi.mocked(settingsService.getHistoryDays).mockResolvedValue(7)
+    search.mockResolvedValue([])
+    historyManager = new HistoryManager()
+  })
+
+  it('should search the configured number of days', async () => {
+    vi.mocked(settingsService.getHistoryDays).mockResolvedValue(30)
+
+    await historyManager.getHistory(NOW)
+
+    expect(search).toHaveBeenCalledWith(
+      expect.objectContaining({ text: '', startTime: NOW - 30 * DAY_MS })
+    )
+  })
+
+  it('should list pages most recent first', async () => {
+    search.mockResolvedValue([
+      { id: '1', url: 'https://example.com/old', title: 'Old', visitCount: 3, lastVisitTime: NOW - DAY_MS },
+      { id: '2', url: 'https://example.com/new', title: '', visitCount: 1, lastVisitTime: NOW - 1000 }
+    ])
+
+    const entries = await historyManager.getHistory(NOW)
+
+    expect(entries.map(({ id, title, visitCount }) => ({ id, title, visitCount }))).toEqual([
+      { id: '2', title: 'https://example.com/new', visitCount: 1 },
+      { id: '1', title: 'Old', visitCount: 3 }
+    ])
+    expect(entries[0].lastVisitTime).toBe(NOW - 1000)
+  })
+
+  it('should merge anchors on the same page into one entry', async () => {
+    search.mockResolvedValue([
+      { id: '1', url: 'https://example.com/docs#intro', title: 'Docs', visitCount: 2, lastVisitTime: NOW - 5000 },
+      { id: '2', url: 'https://example.com/docs#usage', title: 'Docs - Usage', visitCount: 4, lastVisitTime: NOW - 1000 },
+      { id: '3', url: 'https://example.com/docs', title: 'Docs', visitCount: 1, lastVisitTime: NOW - 9000 }
+    ])
+
+    const entries = await historyManager.getHistory(NOW)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      id: '2',
+      title: 'Docs - Usage',
+      url: 'https://example.com/docs#usage',
+      visitCount: 7,
+      lastVisitTime: NOW - 1000
+    })
+  })
+
+  it('should skip browser pages and other schemes', async () => {
+    search.mockResolvedValue([
+      { id: '1', url: 'chrome://settings', title: 'Settings', lastVisitTime: NOW },
+      { id: '2', url: 'javascript:void(0)', title: '', lastVisitTime: NOW },
+      { id: '3', url: 'https://example.com', title: 'Example', lastVisitTime: NOW }
+    ])
+
+    const entries = await historyManager.getHistory(NOW)
+
+    expect(entries.map((entry) => entry.id)).toEqual(['3'])
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { SearchPortRequest, SearchPortResponse, SearchableTab } from '../../../types/shared.js'
+import { SearchManager } from '../search-manager.js'
+import { SEARCH_PORT_NAME } from '../../../services/search.js'
+
+// Minimal stand-in for a chrome.runtime.Port connected from a content script
+const createMockPort = () => {
+  const messageListeners: Array<(request: SearchPortRequest) => void> = []
+  const disconnectListeners: Array<() => void> = []
+  const port = {
+    name: SEARCH_PORT_NAME,
+    postMessage: vi.fn<(response: SearchPortResponse) => void>(),
+    onMessage: { addListener: (listener: (request: SearchPortRequest) => void) => messageListeners.push(listener) },
+    onDisconnect: { addListener: (listener: () => void) => disconnectListeners.push(listener) }
+  }
+  return {
+    port: port as unknown as chrome.runtime.Port,
+    postMessage: port.postMessage,
+    send: (request: SearchPortRequest) => messageListeners.forEach((listener) => listener(request)),
+    disconnect: () => disconnectListeners.forEach((listener) => listener())
+  }
+}
+
+const tabs: SearchableTab[] = [
+  { id: 1, title: 'Pull requests', url: 'https://github.com/pulls', windowId: 1 },
+  { id: 2, title: 'Inbox', url: 'https://mail.example.com', windowId: 1 },
+  { id: 3, title: 'Issues', url: 'https://github.com/issues', windowId: 2 }
+]
+
+describe('SearchManager', () => {
+  let searchManager: SearchManager
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    searchManager = new SearchManager()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should only handle the search port', () => {
+    expect(searchManager.isSearchPort(createMockPort().port)).toBe(true)
+    expect(searchManager.isSearchPort({ name: 'other' } as chrome.runtime.Port)).toBe(false)
+  })
+
+  it('should answer search requests with hits for the synced tabs', () => {
+    const mock = createMockPort()
+    searchManager.handlePort(mock.port)
+
+    mock.send({ type: 'setTabs', tabs })
+    mock.send({ type: 'search', requestId: 1, query: 'github', harpoonTabIds: [] })
+    vi.runAllTimers()
+
+    expect(mock.postMessage).toHaveBeenCalledTimes(1)
+    const response = mock.postMessage.mock.calls[0][0]
+    expect(response.type).toBe('results')
+    if (response.type === 'results') {
+      expect(response.requestId).toBe(1)
+      expect(response.hits.map((hit) => hit.tabId).sort()).toEqual([1, 3])
+      expect(response.hits[0].matches.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('should pass harpoon tab ids to the h: operator', () => {
+    const mock = createMockPort()
+    searchManager.handlePort(mock.port)
+
+    mock.send({ type: 'setTabs', tabs })
+    mock.send({ type: 'search', requestId: 1, query: 'h:', harpoonTabIds: [2] })
+    vi.runAllTimers()
+
+    const response = mock.postMessage.mock.calls[0][0]
+    expect(response.type === 'results' && response.hits.map((hit) => hit.tabId)).toEqual([2])
+  })
+
+  it('should drop requests superseded before they started', () => {
+    const mock = createMockPort()
+    searchManager.handlePort(mock.port)
+
+    mock.send({ type: 'setTabs', tabs })
+    mock.send({ type: 'search', requestId: 1, query: 'i', harpoonTabIds: [] })
+    mock.send({ type: 'search', requestId: 2, query: 'in', harpoonTabIds: [] })
+    mock.send({ type: 'search', requestId: 3, query: 'inb', harpoonTabIds: [] })
+    vi.runAllTimers()
+
+    expect(mock.postMessage).toHaveBeenCalledTimes(1)
+    expect(mock.postMessage.mock.calls[0][0].requestId).toBe(3)
+  })
+
+  it('should not answer cancelled requests', () => {
+    const mock = createMockPort()
+    searchManager.handlePort(mock.port)
+
+    mock.send({ type: 'setTabs', tabs })
+    mock.send({ type: 'search', requestId: 1, query: 'inbox', harpoonTabIds: [] })
+    mock.send({ type: 'cancel' })
+    vi.runAllTimers()
+
+    expect(mock.postMessage).not.toHaveBeenCalled()
+  })
+
+  it('should forget sessions when the port disconnects', () => {
+    const mock = createMockPort()
+    searchManager.handlePort(mock.port)
+    expect(searchManager.getSessionCount()).toBe(1)
+
+    mock.send({ type: 'search', requestId: 1, query: 'inbox', harpoonTabIds: [] })
+    mock.disconnect()
+    vi.runAllTimers()
+
+    expect(searchManager.getSessionCount()).toBe(0)
+    expect(mock.postMessage).not.toHaveBeenCalled()
+  })
+
+  it('should keep ports independent', () => {
+    const first = createMockPort()
+    const second = createMockPort()
+    searchManager.handlePort(first.port)
+    searchManager.handlePort(second.port)
+
+    first.send({ type: 'setTabs', tabs })
+    second.send({ type: 'setTabs', tabs: [tabs[1]] })
+    first.send({ type: 'search', requestId: 1, query: 'inbox', harpoonTabIds: [] })
+    second.send({ type: 'search', requestId: 1, query: 'inbox', harpoonTabIds: [] })
+    vi.runAllTimers()
+
+    const firstResponse = first.postMessage.mock.calls[0][0]
+    const secondResponse = second.postMessage.mock.calls[0][0]
+    expect(firstResponse.type === 'results' && firstResponse.hits[0].refIndex).toBe(1)
+    expect(secondResponse.type === 'results' && secondResponse.hits[0].refIndex).toBe(0)
+  })
+})
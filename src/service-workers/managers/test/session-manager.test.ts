@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('../screenshot-manager.js', () => ({
+  screenshotManager: { getScreenshotForUrl: vi.fn() }
+}))
+
+import { screenshotManager } from '../screenshot-manager.js'
+import { SessionManager } from '../session-manager.js'
+
+const getRecentlyClosed = vi.fn()
+const restore = vi.fn()
+
+describe('SessionManager', () => {
+  let sessionManager: SessionManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(global.chrome as any).sessions = { MAX_SESSION_RESULTS: 25, getRecentlyClosed, restore }
+    vi.mocked(screenshotManager.getScreenshotForUrl).mockResolvedValue(null)
+    sessionManager = new SessionManager()
+  })
+
+  it('should list closed tabs and windows newest first', async () => {
+    vi.mocked(screenshotManager.getScreenshotForUrl).mockResolvedValue('data:image/png;base64,abc')
+    getRecentlyClosed.mockResolvedValue([
+      {
+        lastModified: 1_700_000_100,
+        tab: { sessionId: 't1', title: 'Docs', url: 'https://example.com/docs', favIconUrl: 'icon.png' }
+      },
+      {
+        lastModified: 1_700_000_000,
+        window: {
+          sessionId: 'w1',
+          tabs: [
+            { title: 'Inbox', url: 'https://mail.example.com' },
+            { title: 'Calendar', url: 'https://calendar.example.com' }
+          ]
+        }
+      }
+    ])
+
+    const sessions = await sessionManager.getRecentlyClosed()
+
+    expect(sessions).toEqual([
+      {
+        sessionId: 't1',
+        kind: 'tab',
+        title: 'Docs',
+        url: 'https://example.com/docs',
+        faviconUrl: 'icon.png',
+        screenshotUrl: 'data:image/png;base64,abc',
+        closedAt: 1_700_000_100_000
+      },
+      expect.objectContaining({
+        sessionId: 'w1',
+        kind: 'window',
+        title: 'Window (2 tabs)',
+        url: 'https://mail.example.com',
+        closedAt: 1_700_000_000_000,
+        tabTitles: ['Inbox', 'Calendar']
+      })
+    ])
+  })
+
+  it('should accept close times already in milliseconds', async () => {
+    getRecentlyClosed.mockResolvedValue([
+      { lastModified: 1_700_000_000_000, tab: { sessionId: 't1', title: 'Docs', url: 'https://example.com' } }
+    ])
+
+    const [session] = await sessionManager.getRecentlyClosed()
+
+    expect(session.closedAt).toBe(1_700_000_000_000)
+  })
+
+  it('should skip sessions without a URL to restore', async () => {
+    getRecentlyClosed.mockResolvedValue([{ lastModified: 1, tab: { sessionId: 't1', title: 'New Tab' } }])
+
+    expect(await sessionManager.getRecentlyClosed()).toEqual([])
+  })
+
+  it('should restore every session even if one fails', async () => {
+    restore.mockRejectedValueOnce(new Error('Session not found')).mockResolvedValue({})
+
+    await sessionManager.restore(['t1', 't2', 'w1'])
+
+    expect(restore.mock.calls.map(([sessionId]) => sessionId)).toEqual(['t1', 't2', 'w1'])
+  })
+})
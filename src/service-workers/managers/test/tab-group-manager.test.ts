@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Tab } from '../../../types/shared.js'
+
+// The module creates its singleton on import, which registers the group listener
+const { tabGroups, groupTabs, queryTabs } = vi.hoisted(() => {
+  const tabGroups = {
+    get: vi.fn(),
+    query: vi.fn(),
+    update: vi.fn(),
+    onUpdated: { addListener: vi.fn() }
+  }
+  const groupTabs = vi.fn()
+  const chrome = (globalThis as any).chrome
+  chrome.tabGroups = tabGroups
+  chrome.tabs.group = groupTabs
+  return { tabGroups, groupTabs, queryTabs: chrome.tabs.query }
+})
+
+vi.mock('../../state/state-manager.js', () => ({
+  stateManager: {
+    getTabHistory: vi.fn(() => []),
+    getTabHistoryForWindow: vi.fn(() => []),
+    getHarpoonTabsForWindow: vi.fn(() => []),
+    getFrecencyScores: vi.fn(() => ({})),
+    updateTabHistory: vi.fn(),
+    updateHarpoonTabs: vi.fn()
+  }
+}))
+
+vi.mock('../../messaging/message-broker.js', () => ({
+  messageBroker: { broadcastToWindow: vi.fn(), broadcastToAllTabs: vi.fn() }
+}))
+
+import { stateManager } from '../../state/state-manager.js'
+import { messageBroker } from '../../messaging/message-broker.js'
+import { TabGroupManager } from '../tab-group-manager.js'
+
+const createTab = (id: number, groupId?: number): Tab => ({
+  id,
+  title: `Tab ${id}`,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: `data:image/png;base64,${id}`,
+  windowId: 1,
+  ...(groupId !== undefined && { groupId, groupTitle: 'Old', groupColor: 'grey' as const })
+})
+
+const group = { id: 7, title: 'Review', color: 'blue', collapsed: false, windowId: 1 }
+
+describe('TabGroupManager', () => {
+  let tabGroupManager: TabGroupManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tabGroupManager = new TabGroupManager()
+  })
+
+  it('should read the group of a grouped tab and nothing for other tabs', async () => {
+    tabGroups.get.mockResolvedValue(group)
+
+    expect(await tabGroupManager.getGroupFields({ groupId: 7 } as chrome.tabs.Tab)).toEqual({
+      groupId: 7,
+      groupTitle: 'Review',
+      groupColor: 'blue'
+    })
+    expect(await tabGroupManager.getGroupFields({ groupId: -1 } as chrome.tabs.Tab)).toEqual({})
+    expect(tabGroups.get).toHaveBeenCalledTimes(1)
+  })
+
+  it('should list groups with their tabs in tab strip order', async () => {
+    const known = createTab(2, 7)
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([known])
+    tabGroups.query.mockResolvedValue([group])
+    queryTabs.mockResolvedValue([
+      { id: 2, index: 4, groupId: 7, windowId: 1 },
+      { id: 3, index: 1, groupId: 7, windowId: 1, title: 'New Tab', url: 'chrome://newtab/' },
+      { id: 4, index: 0, groupId: -1, windowId: 1 }
+    ])
+
+    const [info] = await tabGroupManager.getGroups()
+
+    expect(info).toMatchObject({ id: 7, title: 'Review', color: 'blue', collapsed: false })
+    expect(info.tabs.map((tab) => tab.id)).toEqual([3, 2])
+    expect(info.tabs[1]).toBe(known)
+    expect(info.tabs[0]).toMatchObject({ title: 'New Tab', screenshotUrl: '', groupId: 7 })
+  })
+
+  it('should create a named group from tabs', async () => {
+    groupTabs.mockResolvedValue(9)
+
+    expect(await tabGroupManager.createGroup([1, 2], '  Research ')).toBe(9)
+    expect(groupTabs).toHaveBeenCalledWith({ tabIds: [1, 2] })
+    expect(tabGroups.update).toHaveBeenCalledWith(9, { title: 'Research' })
+  })
+
+  it('should update the tabs of a renamed group and tell the modal', async () => {
+    const renamed = createTab(1, 7)
+    vi.mocked(stateManager.getTabHistory).mockReturnValue([renamed, createTab(2)])
+    vi.mocked(stateManager.getTabHistoryForWindow).mockReturnValue([renamed])
+    vi.mocked(stateManager.getHarpoonTabsForWindow).mockReturnValue([createTab(1, 7)])
+    const [onUpdated] = tabGroups.onUpdated.addListener.mock.calls[0]
+
+    await onUpdated(group)
+    await vi.waitFor(() => expect(messageBroker.broadcastToAllTabs).toHaveBeenCalled())
+
+    expect(stateManager.updateTabHistory).toHaveBeenCalledTimes(1)
+    expect(stateManager.updateTabHistory).toHaveBeenCalledWith({
+      type: 'update',
+      tab: expect.objectContaining({ id: 1, groupTitle: 'Review', groupColor: 'blue' })
+    })
+    expect(stateManager.updateHarpoonTabs).toHaveBeenCalledWith({
+      type: 'update',
+      windowId: 1,
+      tab: expect.objectContaining({ id: 1, groupTitle: 'Review', groupColor: 'blue' })
+    })
+    expect(messageBroker.broadcastToWindow).toHaveBeenCalledWith(1, 'tabsUpdated', {
+      allTabs: [renamed],
+      frecencyScores: {}
+    })
+    expect(messageBroker.broadcastToAllTabs).toHaveBeenCalledWith('harpoonChanged', {})
+  })
+
+  it('should have no groups where the browser lacks the tabGroups API', async () => {
+    const chrome = (globalThis as any).chrome
+    delete chrome.tabGroups
+    try {
+      const manager = new TabGroupManager()
+
+      expect(await manager.getGroups()).toEqual([])
+      expect(await manager.getGroupFields({ groupId: 7 } as chrome.tabs.Tab)).toEqual({})
+      await expect(manager.createGroup([1], 'Research')).rejects.toThrow('not supported')
+      expect(groupTabs).not.toHaveBeenCalled()
+    } finally {
+      chrome.tabGroups = tabGroups
+    }
+  })
+})
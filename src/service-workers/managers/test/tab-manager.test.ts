@@ -29,9 +29,7 @@ const mockChromeTab: chrome.tabs.Tab = {
 const createMockTelescopeTab = (id: number, url: string, title: string, windowId: number = 1): Tab => ({
   id,
   url,
-  highlightedUrl: url,
   title,
-  highlightedTitle: title,
   faviconUrl: 'https://example.com/favicon.ico',
   screenshotUrl: '',
   windowId
@@ -120,9 +118,7 @@ describe('TabManager Core Logic', () => {
       const telescopeTab: Tab = {
         id: chromeTab.id!,
         url: chromeTab.url!,
-        highlightedUrl: chromeTab.url!,
         title: chromeTab.title || '',
-        highlightedTitle: chromeTab.title || '',
         faviconUrl: chromeTab.favIconUrl || '',
         screenshotUrl: '',
         windowId: chromeTab.windowId!
@@ -131,9 +127,7 @@ describe('TabManager Core Logic', () => {
       expect(telescopeTab).toEqual({
         id: 123,
         url: 'https://github.com/test/repo',
-        highlightedUrl: 'https://github.com/test/repo',
         title: 'GitHub Repository',
-        highlightedTitle: 'GitHub Repository',
         faviconUrl: 'https://github.com/favicon.ico',
         screenshotUrl: '',
         windowId: 2
@@ -154,16 +148,13 @@ describe('TabManager Core Logic', () => {
       const telescopeTab: Tab = {
         id: chromeTab.id!,
         url: chromeTab.url!,
-        highlightedUrl: chromeTab.url!,
         title: chromeTab.title || '',
-        highlightedTitle: chromeTab.title || '',
         faviconUrl: chromeTab.favIconUrl || '',
         screenshotUrl: '',
         windowId: chromeTab.windowId!
       }
 
       expect(telescopeTab.title).toBe('')
-      expect(telescopeTab.highlightedTitle).toBe('')
       expect(telescopeTab.faviconUrl).toBe('')
       expect(telescopeTab.url).toBe('https://example.com/page')
     })
@@ -261,9 +252,7 @@ describe('TabManager Core Logic', () => {
         tab: {
           id: 789,
           url: 'https://test.com',
-          highlightedUrl: 'https://test.com',
           title: 'Test Page',
-          highlightedTitle: 'Test Page',
           faviconUrl: 'https://example.com/favicon.ico',
           screenshotUrl: '',
           windowId: 1
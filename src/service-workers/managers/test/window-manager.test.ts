@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Tab } from '../../../types/shared.js'
+
+// The module creates its singleton on import, which registers the window listeners
+const { getWindow, removeWindow, stored } = vi.hoisted(() => {
+  const event = () => ({ addListener: vi.fn() })
+  const getWindow = vi.fn()
+  const removeWindow = vi.fn()
+  const stored = new Map<string, unknown>()
+  const chrome = (globalThis as any).chrome
+  chrome.windows = {
+    get: getWindow,
+    remove: removeWindow,
+    onFocusChanged: event(),
+    onCreated: event(),
+    onRemoved: event()
+  }
+  return { getWindow, removeWindow, stored }
+})
+
+vi.mock('../../storage/storage-layer.js', () => ({
+  storage: {
+    read: vi.fn(async (key: string) => stored.get(key) ?? null),
+    write: vi.fn(async (key: string, value: unknown) => {
+      stored.set(key, value)
+    })
+  }
+}))
+
+vi.mock('../../state/state-manager.js', () => ({
+  stateManager: {
+    getTabHistoryForWindow: vi.fn(),
+    getWindowState: vi.fn(() => null)
+  }
+}))
+
+vi.mock('../../messaging/message-broker.js', () => ({
+  messageBroker: { broadcastToWindow: vi.fn() }
+}))
+
+import { stateManager } from '../../state/state-manager.js'
+import { storage } from '../../storage/storage-layer.js'
+import { WindowManager } from '../window-manager.js'
+
+const createTab = (id: number, title: string): Tab => ({
+  id,
+  title,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: `data:image/png;base64,${id}`,
+  windowId: 1
+})
+
+describe('WindowManager', () => {
+  let windowManager: WindowManager
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stored.clear()
+    windowManager = new WindowManager()
+  })
+
+  describe('getWindowInfo', () => {
+    it('should describe a window by its active tab and most recent tabs', async () => {
+      // Tab history is most recently used first
+      const history = [2, 1, 3, 4, 5].map((id) => createTab(id, `Tab ${id}`))
+      vi.mocked(stateManager.getTabHistoryForWindow).mockReturnValue(history)
+      getWindow.mockImplementation((_id, _options, callback) =>
+        callback({
+          id: 1,
+          focused: true,
+          type: 'normal',
+          tabs: [1, 2, 3, 4, 5, 6].map((id) => ({ id, active: id === 2, windowId: 1 }))
+        })
+      )
+      stored.set('windowNames', { 1: 'Work' })
+
+      const info = await windowManager.getWindowInfo(1)
+
+      expect(getWindow).toHaveBeenCalledWith(1, { populate: true }, expect.any(Function))
+      expect(info).toMatchObject({ id: 1, focused: true, tabCount: 6, name: 'Work' })
+      expect(info?.activeTab).toBe(history[0])
+      expect(info?.topTabs.map((tab) => tab.id)).toEqual([2, 1, 3, 4])
+    })
+
+    it('should fall back to Chrome for an active tab the history skips', async () => {
+      vi.mocked(stateManager.getTabHistoryForWindow).mockReturnValue([createTab(1, 'Docs')])
+      getWindow.mockImplementation((_id, _options, callback) =>
+        callback({
+          id: 1,
+          tabs: [{ id: 9, active: true, windowId: 1, title: 'New Tab', url: 'chrome://newtab/' }]
+        })
+      )
+
+      const info = await windowManager.getWindowInfo(1)
+
+      expect(info?.name).toBeUndefined()
+      expect(info?.activeTab).toMatchObject({ id: 9, title: 'New Tab', screenshotUrl: '' })
+    })
+  })
+
+  describe('renameWindow', () => {
+    it('should keep trimmed names in storage', async () => {
+      await windowManager.renameWindow(1, '  Research ')
+
+      expect(storage.write).toHaveBeenCalledWith('windowNames', { 1: 'Research' })
+    })
+
+    it('should clear the name when it is empty', async () => {
+      stored.set('windowNames', { 1: 'Research', 2: 'Work' })
+
+      await windowManager.renameWindow(1, ' ')
+
+      expect(stored.get('windowNames')).toEqual({ 2: 'Work' })
+    })
+  })
+
+  it('should close a window', async () => {
+    removeWindow.mockImplementation((_id, callback) => callback())
+
+    await windowManager.closeWindow(3)
+
+    expect(removeWindow).toHaveBeenCalledWith(3, expect.any(Function))
+  })
+})
@@ -1,16 +1,14 @@
 import { serviceWorkerLogger } from '../../utils/logger.js'
-import type { Tab } from '../../types/shared.js'
+import { generateFaviconUrl } from '../../utils/favicon.js'
+import type { Tab, WindowInfo } from '../../types/shared.js'
 import { stateManager, type WindowState } from '../state/state-manager.js'
 import { messageBroker } from '../messaging/message-broker.js'
+import { storage } from '../storage/storage-layer.js'
 
-export interface WindowInfo {
-  id: number
-  focused: boolean
-  state: string
-  type: string
-  tabCount: number
-  lastActivity: number
-}
+export type { WindowInfo }
+
+// Tabs shown in a window's preview
+const PREVIEW_TAB_COUNT = 4
 
 export interface CrossWindowSyncResult {
   success: boolean
@@ -237,25 +235,35 @@ export class WindowManager {
   }
 
   /**
-   * Get window information
+   * Get window information, with the tabs the window picker shows for it
    */
   async getWindowInfo(windowId: number): Promise<WindowInfo | null> {
     try {
-      const window = await this.getChromeWindow(windowId)
+      const window = await this.getChromeWindow(windowId, true)
       if (!window) {
         return null
       }
 
       const windowState = this.getWindowState(windowId)
       const tabs = await this.getTabsInWindow(windowId)
+      const names = await this.getWindowNames()
+
+      // Tab history skips pages like chrome://, so the active tab may only be known to Chrome
+      const activeChromeTab = window.tabs?.find((tab) => tab.active)
+      const activeTab = activeChromeTab
+        ? (tabs.find((tab) => tab.id === activeChromeTab.id) ?? this.toTab(activeChromeTab))
+        : (tabs[0] ?? null)
 
       return {
         id: window.id!,
         focused: window.focused || false,
         state: window.state || 'normal',
         type: window.type || 'normal',
-        tabCount: tabs.length,
-        lastActivity: windowState?.lastActivity || Date.now()
+        tabCount: window.tabs?.length ?? tabs.length,
+        lastActivity: windowState?.lastActivity || Date.now(),
+        ...(names[windowId] && { name: names[windowId] }),
+        activeTab,
+        topTabs: tabs.slice(0, PREVIEW_TAB_COUNT)
       }
     } catch (error) {
       serviceWorkerLogger.error(`Failed to get window info for ${windowId}:`, error)
@@ -287,6 +295,36 @@ export class WindowManager {
     }
   }
 
+  /**
+   * Name a window so it is easier to find in the window picker. An empty name clears it.
+   */
+  async renameWindow(windowId: number, name: string): Promise<void> {
+    const names = await this.getWindowNames()
+    const trimmed = name.trim()
+
+    if (trimmed) {
+      names[windowId] = trimmed
+    } else {
+      delete names[windowId]
+    }
+
+    await this.setWindowNames(names)
+    serviceWorkerLogger.debug(`Window ${windowId} renamed to "${trimmed}"`)
+  }
+
+  /**
+   * Close a window with all its tabs
+   */
+  async closeWindow(windowId: number): Promise<void> {
+    try {
+      await this.removeChromeWindow(windowId)
+      serviceWorkerLogger.debug(`Window ${windowId} closed`)
+    } catch (error) {
+      serviceWorkerLogger.error(`Failed to close window ${windowId}:`, error)
+      throw error
+    }
+  }
+
   /**
    * Clean up closed windows
    */
@@ -481,15 +519,24 @@ export class WindowManager {
         this.focusedWindowId = null
       }
 
+      const names = await this.getWindowNames()
+      if (names[windowId]) {
+        delete names[windowId]
+        await this.setWindowNames(names)
+      }
+
       serviceWorkerLogger.debug(`Window ${windowId} removed`)
     } catch (error) {
       serviceWorkerLogger.error('Failed to handle window removal:', error)
     }
   }
 
-  private async getChromeWindow(windowId: number): Promise<chrome.windows.Window | null> {
+  private async getChromeWindow(
+    windowId: number,
+    populate = false
+  ): Promise<chrome.windows.Window | null> {
     return new Promise((resolve) => {
-      chrome.windows.get(windowId, (window) => {
+      chrome.windows.get(windowId, { populate }, (window) => {
         if (chrome.runtime.lastError) {
           resolve(null)
         } else {
@@ -507,6 +554,38 @@ export class WindowManager {
     })
   }
 
+  private async removeChromeWindow(windowId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      chrome.windows.remove(windowId, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message))
+        } else {
+          resolve()
+        }
+      })
+    })
+  }
+
+  private async getWindowNames(): Promise<Record<number, string>> {
+    return (await storage.read<Record<number, string>>('windowNames')) ?? {}
+  }
+
+  private async setWindowNames(names: Record<number, string>): Promise<void> {
+    await storage.write('windowNames', names)
+  }
+
+  private toTab(tab: chrome.tabs.Tab): Tab {
+    const url = tab.url || tab.pendingUrl || ''
+    return {
+      id: tab.id!,
+      title: tab.title || url,
+      url,
+      faviconUrl: tab.favIconUrl || generateFaviconUrl(url),
+      screenshotUrl: '',
+      windowId: tab.windowId
+    }
+  }
+
   private async focusChromeWindow(windowId: number): Promise<void> {
     return new Promise((resolve, reject) => {
       chrome.windows.update(windowId, { focused: true }, (window) => {
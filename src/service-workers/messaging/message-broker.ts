@@ -391,7 +391,7 @@ export class MessageBroker {
       timestamp: Date.now(),
       priority: options.priority || 'medium',
       retryCount: 0,
-      maxRetries: options.maxRetries || 3,
+      maxRetries: options.maxRetries ?? 3,
       timeout: options.timeout || 5000
     }
   }
@@ -1,6 +1,15 @@
 import { serviceWorkerLogger } from '../utils/logger.js'
 import { configureLogs } from '../utils/logging-config.js'
-import type { Tab } from '../types/shared.js'
+import type {
+  Tab,
+  GrepMatch,
+  GrepTabResult,
+  ClosedSession,
+  Bookmark,
+  HistoryEntry,
+  WindowInfo,
+  TabGroupInfo
+} from '../types/shared.js'
 
 // Import all managers
 import { stateManager } from './state/state-manager.js'
@@ -11,6 +20,13 @@ import { screenshotManager } from './managers/screenshot-manager.js'
 import { harpoonManager } from './managers/harpoon-manager.js'
 import { bufferManager } from './managers/buffer-manager.js'
 import { recoveryManager } from './managers/recovery-manager.js'
+import { searchManager } from './managers/search-manager.js'
+import { grepManager } from './managers/grep-manager.js'
+import { sessionManager } from './managers/session-manager.js'
+import { closeJournalManager } from './managers/close-journal-manager.js'
+import { bookmarkManager } from './managers/bookmark-manager.js'
+import { historyManager } from './managers/history-manager.js'
+import { tabGroupManager } from './managers/tab-group-manager.js'
 import { SettingsManager } from './managers/settings-manager.js'
 
 /**
@@ -34,6 +50,9 @@ class TelescopeServiceWorker {
 
     // Setup message handlers
     this.setupMessageHandlers()
+
+    // Setup the search port (searching doesn't depend on manager state)
+    this.setupSearchPort()
   }
 
   /**
@@ -141,6 +160,14 @@ class TelescopeServiceWorker {
     })
   }
 
+  private setupSearchPort(): void {
+    chrome.runtime.onConnect.addListener((port) => {
+      if (searchManager.isSearchPort(port)) {
+        searchManager.handlePort(port)
+      }
+    })
+  }
+
   private async handleMessage(
     request: unknown,
     sender: chrome.runtime.MessageSender,
@@ -185,6 +212,35 @@ class TelescopeServiceWorker {
       case 'closeTab':
         return this.handleCloseTab(request.tabId as number)
 
+      // Closing from the modal is journaled so it can be undone
+      case 'closeTabs':
+        return this.handleCloseTabs(request.tabIds as number[])
+
+      case 'undoCloseTabs':
+        return this.handleUndoCloseTabs()
+
+      // Operators on a visual selection of tabs
+      case 'addTabsToHarpoon':
+        return this.handleAddTabsToHarpoon(request.tabIds as number[])
+
+      case 'moveTabsToNewWindow':
+        return this.handleMoveTabsToNewWindow(request.tabIds as number[])
+
+      case 'moveTabsToWindow':
+        return this.handleMoveTabsToWindow(request.tabIds as number[], request.windowId as number)
+
+      case 'toggleTabsPinned':
+        return this.handleToggleTabsPinned(request.tabIds as number[])
+
+      case 'toggleTabsMuted':
+        return this.handleToggleTabsMuted(request.tabIds as number[])
+
+      case 'reloadTabs':
+        return this.handleReloadTabs(request.tabIds as number[])
+
+      case 'duplicateTabs':
+        return this.handleDuplicateTabs(request.tabIds as number[])
+
       case 'showModal':
         return this.handleShowModal(request.mode as string)
 
@@ -196,6 +252,12 @@ class TelescopeServiceWorker {
       case 'addExcludedSite':
       case 'removeExcludedSite':
       case 'isUrlExcluded':
+      case 'getHistoryDays':
+      case 'setHistoryDays':
+      case 'getSearchAllWindows':
+      case 'setSearchAllWindows':
+      case 'getKeymap':
+      case 'setKeymap':
         return this.settingsManager.handleMessage(request, sender)
 
       case 'modalStateChanged':
@@ -208,7 +270,7 @@ class TelescopeServiceWorker {
         return this.handleGetCurrentWindowId(sender)
 
       case 'requestInitialSync':
-        return this.handleRequestInitialSync(sender)
+        return this.handleRequestInitialSync(request.allWindows as boolean | undefined, sender)
 
       case 'getSystemHealth':
         return this.handleGetSystemHealth()
@@ -219,6 +281,51 @@ class TelescopeServiceWorker {
       case 'switchToLastBuffer':
         return this.handleSwitchToLastBuffer(sender)
 
+      case 'openTabInBackground':
+        return this.handleOpenTabInBackground(request.url as string, sender)
+
+      case 'getRecentlyClosed':
+        return this.handleGetRecentlyClosed()
+
+      case 'restoreSessions':
+        return this.handleRestoreSessions(request.sessionIds as string[])
+
+      case 'getBookmarks':
+        return this.handleGetBookmarks()
+
+      case 'getHistory':
+        return this.handleGetHistory()
+
+      case 'openUrl':
+        return this.handleOpenUrl(request.url as string, request.target as 'current' | 'window', sender)
+
+      case 'grepTabs':
+        return this.handleGrepTabs(request.query as string)
+
+      case 'getWindows':
+        return this.handleGetWindows()
+
+      case 'focusWindow':
+        return this.handleFocusWindow(request.windowId as number)
+
+      case 'closeWindow':
+        return this.handleCloseWindow(request.windowId as number)
+
+      case 'renameWindow':
+        return this.handleRenameWindow(request.windowId as number, request.name as string)
+
+      case 'getTabGroups':
+        return this.handleGetTabGroups()
+
+      case 'setTabGroupCollapsed':
+        return this.handleSetTabGroupCollapsed(request.groupId as number, request.collapsed as boolean)
+
+      case 'createTabGroup':
+        return this.handleCreateTabGroup(request.tabIds as number[], request.title as string)
+
+      case 'switchToGrepMatch':
+        return this.handleSwitchToGrepMatch(request.tabId as number, request.match as GrepMatch)
+
       default:
         serviceWorkerLogger.warn('Unknown message type:', message)
         return { error: 'Unknown message type' }
@@ -304,6 +411,53 @@ class TelescopeServiceWorker {
     }
   }
 
+  private async handleAddTabsToHarpoon(tabIds: number[]): Promise<{ message: string }> {
+    await harpoonManager.addTabsToHarpoon(tabIds)
+    return { message: 'addedTabsToHarpoon' }
+  }
+
+  private async handleMoveTabsToNewWindow(
+    tabIds: number[]
+  ): Promise<{ message: string; windowId: number }> {
+    const windowId = await tabManager.moveTabsToNewWindow(tabIds)
+    return { message: 'movedTabsToNewWindow', windowId }
+  }
+
+  private async handleMoveTabsToWindow(
+    tabIds: number[],
+    windowId: number
+  ): Promise<{ message: string }> {
+    await tabManager.moveTabsToWindow(tabIds, windowId)
+    return { message: 'movedTabsToWindow' }
+  }
+
+  private async handleToggleTabsPinned(tabIds: number[]): Promise<{ pinned: boolean }> {
+    return { pinned: await tabManager.toggleTabsPinned(tabIds) }
+  }
+
+  private async handleToggleTabsMuted(tabIds: number[]): Promise<{ muted: boolean }> {
+    return { muted: await tabManager.toggleTabsMuted(tabIds) }
+  }
+
+  private async handleReloadTabs(tabIds: number[]): Promise<{ message: string }> {
+    await tabManager.reloadTabs(tabIds)
+    return { message: 'reloadedTabs' }
+  }
+
+  private async handleDuplicateTabs(tabIds: number[]): Promise<{ message: string }> {
+    await tabManager.duplicateTabs(tabIds)
+    return { message: 'duplicatedTabs' }
+  }
+
+  private async handleCloseTabs(tabIds: number[]): Promise<{ message: string }> {
+    await closeJournalManager.closeTabs(tabIds)
+    return { message: 'closedTabs' }
+  }
+
+  private async handleUndoCloseTabs(): Promise<{ reopened: number }> {
+    return { reopened: await closeJournalManager.undoLastClose() }
+  }
+
   private async handleCloseTab(tabId: number): Promise<{ message: string }> {
     if (!tabId) {
       throw new Error('No tab ID provided')
@@ -370,9 +524,21 @@ class TelescopeServiceWorker {
     return sender.tab?.windowId || null
   }
 
+  /**
+   * Tabs for the content script's lists. The tab list covers the sender's window unless all
+   * windows are asked for; without either, the searchAllWindows setting decides.
+   */
   private async handleRequestInitialSync(
+    allWindows: boolean | undefined,
     sender: chrome.runtime.MessageSender
-  ): Promise<{ message: string; allTabs: Tab[]; harpoonTabs: Tab[]; windowId?: number }> {
+  ): Promise<{
+    message: string
+    allTabs: Tab[]
+    harpoonTabs: Tab[]
+    frecencyScores: Record<number, number>
+    windowId?: number
+    allWindows: boolean
+  }> {
     try {
       const startTime = Date.now()
       const windowId = sender.tab?.windowId
@@ -383,9 +549,11 @@ class TelescopeServiceWorker {
         startTime
       )
 
-      const allTabs = windowId
-        ? stateManager.getTabHistoryForWindow(windowId)
-        : stateManager.getTabHistory()
+      const listAllWindows = allWindows ?? (await this.settingsManager.getSearchAllWindows())
+      const allTabs =
+        windowId && !listAllWindows
+          ? stateManager.getTabHistoryForWindow(windowId)
+          : stateManager.getTabHistory()
       const harpoonTabs = windowId
         ? stateManager.getHarpoonTabsForWindow(windowId)
         : stateManager.getHarpoonTabs()
@@ -397,6 +565,7 @@ class TelescopeServiceWorker {
         'ms',
         {
           windowId,
+          allWindows: listAllWindows,
           allTabsCount: allTabs.length,
           harpoonTabsCount: harpoonTabs.length
         }
@@ -406,7 +575,9 @@ class TelescopeServiceWorker {
         message: 'initialSync',
         allTabs,
         harpoonTabs,
-        windowId
+        frecencyScores: stateManager.getFrecencyScores(),
+        windowId,
+        allWindows: listAllWindows
       }
     } catch (error) {
       serviceWorkerLogger.error('Failed to handle initial sync:', error)
@@ -456,6 +627,91 @@ class TelescopeServiceWorker {
     }
   }
 
+  private async handleOpenTabInBackground(
+    url: string,
+    sender: chrome.runtime.MessageSender
+  ): Promise<{ message: string }> {
+    await tabManager.openTabInBackground(url, sender.tab)
+    return { message: 'openedTabInBackground' }
+  }
+
+  private async handleGetRecentlyClosed(): Promise<{ sessions: ClosedSession[] }> {
+    return { sessions: await sessionManager.getRecentlyClosed() }
+  }
+
+  private async handleRestoreSessions(sessionIds: string[]): Promise<{ message: string }> {
+    await sessionManager.restore(sessionIds)
+    return { message: 'restoredSessions' }
+  }
+
+  private async handleGetBookmarks(): Promise<{ bookmarks: Bookmark[] }> {
+    return { bookmarks: await bookmarkManager.getBookmarks() }
+  }
+
+  private async handleGetHistory(): Promise<{ entries: HistoryEntry[] }> {
+    return { entries: await historyManager.getHistory() }
+  }
+
+  private async handleOpenUrl(
+    url: string,
+    target: 'current' | 'window',
+    sender: chrome.runtime.MessageSender
+  ): Promise<{ message: string }> {
+    await tabManager.openUrl(url, target, sender.tab)
+    return { message: 'openedUrl' }
+  }
+
+  // Only regular browser windows; popups and devtools have no tabs worth switching to
+  private async handleGetWindows(): Promise<{ windows: WindowInfo[] }> {
+    const windows = await windowManager.getAllWindowInfo()
+    return { windows: windows.filter((window) => window.type === 'normal') }
+  }
+
+  private async handleFocusWindow(windowId: number): Promise<{ message: string }> {
+    await windowManager.focusWindow(windowId)
+    return { message: 'focusedWindow' }
+  }
+
+  private async handleCloseWindow(windowId: number): Promise<{ message: string }> {
+    await windowManager.closeWindow(windowId)
+    return { message: 'closedWindow' }
+  }
+
+  private async handleRenameWindow(windowId: number, name: string): Promise<{ message: string }> {
+    await windowManager.renameWindow(windowId, name)
+    return { message: 'renamedWindow' }
+  }
+
+  private async handleGetTabGroups(): Promise<{ groups: TabGroupInfo[] }> {
+    return { groups: await tabGroupManager.getGroups() }
+  }
+
+  private async handleSetTabGroupCollapsed(
+    groupId: number,
+    collapsed: boolean
+  ): Promise<{ message: string }> {
+    await tabGroupManager.setCollapsed(groupId, collapsed)
+    return { message: collapsed ? 'collapsedTabGroup' : 'expandedTabGroup' }
+  }
+
+  private async handleCreateTabGroup(
+    tabIds: number[],
+    title: string
+  ): Promise<{ message: string; groupId: number }> {
+    const groupId = await tabGroupManager.createGroup(tabIds, title)
+    return { message: 'createdTabGroup', groupId }
+  }
+
+  private async handleGrepTabs(query: string): Promise<{ results: GrepTabResult[] }> {
+    return { results: await grepManager.grepTabs(query) }
+  }
+
+  private async handleSwitchToGrepMatch(tabId: number, match: GrepMatch): Promise<{ message: string }> {
+    await this.handleSwitchToTab(tabId)
+    await grepManager.revealMatch(tabId, match)
+    return { message: 'switchedToGrepMatch' }
+  }
+
   private setupManagerCoordination(): void {
     // Setup screenshot capture for tab events
     stateManager.subscribeToTabHistory((newTabs, previousTabs) => {
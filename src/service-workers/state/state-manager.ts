@@ -1,5 +1,6 @@
 import { serviceWorkerLogger } from '../../utils/logger.js'
-import type { Tab } from '../../types/shared.js'
+import type { Tab, TabActivity } from '../../types/shared.js'
+import { recordActivation, calculateFrecencyScores } from '../../services/frecency.js'
 import { storage, type WindowState, type SystemHealth } from '../storage/storage-layer.js'
 
 export type { WindowState, SystemHealth }
@@ -37,6 +38,7 @@ export class StateManager {
   private harpoonTabsState: Tab[] = [] // Legacy - for migration
   private harpoonWindowsState: Record<number, Tab[]> = {} // New per-window harpoon storage
   private windowStatesState: Record<number, WindowState> = {}
+  private tabActivityState: Record<number, TabActivity> = {}
   private systemHealthState: SystemHealth = {
     version: 1,
     lastCleanup: Date.now(),
@@ -66,6 +68,7 @@ export class StateManager {
       const harpoonWindows = await storage.read<Record<number, Tab[]>>('harpoonWindows') || {}
       const windowStates = await storage.read<Record<number, WindowState>>('windowStates') || {}
       const systemHealth = await storage.read<SystemHealth>('systemHealth') || this.systemHealthState
+      const tabActivity = await storage.read<Record<number, TabActivity>>('tabActivity') || {}
 
       // Migrate legacy harpoon data if needed
       if (legacyHarpoonTabs.length > 0 && Object.keys(harpoonWindows).length === 0) {
@@ -100,6 +103,7 @@ export class StateManager {
       this.tabHistoryState = tabHistory
       this.windowStatesState = windowStates
       this.systemHealthState = systemHealth
+      this.tabActivityState = tabActivity
 
       serviceWorkerLogger.info('State manager initialized', {
         tabHistoryCount: tabHistory.length,
@@ -171,6 +175,94 @@ export class StateManager {
     }
   }
 
+  /**
+   * Get recorded activation activity for all tabs
+   */
+  getTabActivity(): Record<number, TabActivity> {
+    return { ...this.tabActivityState }
+  }
+
+  /**
+   * Get frecency scores keyed by tab ID (tabs without activity are omitted)
+   */
+  getFrecencyScores(now: number = Date.now()): Record<number, number> {
+    return calculateFrecencyScores(this.tabActivityState, now)
+  }
+
+  /**
+   * Record that a tab was activated, for frecency ranking
+   */
+  async recordTabActivation(tabId: number, timestamp: number = Date.now()): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize()
+    }
+
+    const newState = {
+      ...this.tabActivityState,
+      [tabId]: recordActivation(this.tabActivityState[tabId], timestamp)
+    }
+
+    try {
+      this.tabActivityState = newState
+      await storage.write('tabActivity', newState)
+    } catch (error) {
+      serviceWorkerLogger.error('Failed to record tab activation:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Forget activity for a tab that no longer exists
+   */
+  async removeTabActivity(tabId: number): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize()
+    }
+
+    if (!this.tabActivityState[tabId]) {
+      return
+    }
+
+    const newState = { ...this.tabActivityState }
+    delete newState[tabId]
+
+    try {
+      this.tabActivityState = newState
+      await storage.write('tabActivity', newState)
+    } catch (error) {
+      serviceWorkerLogger.error('Failed to remove tab activity:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Drop activity for tabs that no longer exist (tab IDs restart after a browser restart)
+   */
+  async pruneTabActivity(liveTabIds: Set<number>): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize()
+    }
+
+    const newState: Record<number, TabActivity> = {}
+    for (const [tabId, activity] of Object.entries(this.tabActivityState)) {
+      if (liveTabIds.has(Number(tabId))) {
+        newState[Number(tabId)] = activity
+      }
+    }
+
+    if (Object.keys(newState).length === Object.keys(this.tabActivityState).length) {
+      return
+    }
+
+    try {
+      this.tabActivityState = newState
+      await storage.write('tabActivity', newState)
+    } catch (error) {
+      serviceWorkerLogger.error('Failed to prune tab activity:', error)
+      throw error
+    }
+  }
+
   /**
    * Get current harpoon tabs (legacy - returns all tabs from all windows)
    */
@@ -26,8 +26,6 @@ const createMockTab = (overrides: Partial<Tab> = {}): Tab => ({
   id: 1,
   title: 'Test Tab',
   url: 'https://example.com',
-  highlightedTitle: 'Test Tab',
-  highlightedUrl: 'https://example.com',
   faviconUrl: 'https://example.com/favicon.ico',
   screenshotUrl: 'https://example.com/screenshot.png',
   windowId: 1,
@@ -78,7 +76,7 @@ describe('StateManager', () => {
       await stateManager.initialize() // Second call
       
       // Should only call storage.read once per key
-      expect(mockStorage.read).toHaveBeenCalledTimes(5) // Not 10
+      expect(mockStorage.read).toHaveBeenCalledTimes(6) // Not 12
     })
 
     it('should migrate legacy harpoon data to per-window storage', async () => {
@@ -241,4 +239,48 @@ describe('StateManager', () => {
       expect(stateManager.getHarpoonTabsForWindow(2)).toEqual([tab2])
     })
   })
-})
\ No newline at end of file
+
+  describe('tab activity', () => {
+    beforeEach(async () => {
+      await stateManager.initialize()
+    })
+
+    it('should record activations and persist them', async () => {
+      await stateManager.recordTabActivation(1, 1000)
+      await stateManager.recordTabActivation(1, 2000)
+
+      expect(stateManager.getTabActivity()[1]).toEqual({ count: 2, timestamps: [1000, 2000] })
+      expect(mockStorage.write).toHaveBeenCalledWith('tabActivity', {
+        1: { count: 2, timestamps: [1000, 2000] }
+      })
+    })
+
+    it('should score recently activated tabs', async () => {
+      const now = Date.now()
+      await stateManager.recordTabActivation(1, now)
+
+      const scores = stateManager.getFrecencyScores(now)
+      expect(scores[1]).toBeGreaterThan(0)
+      expect(scores[2]).toBeUndefined()
+    })
+
+    it('should remove activity for closed tabs', async () => {
+      await stateManager.recordTabActivation(1)
+      await stateManager.recordTabActivation(2)
+
+      await stateManager.removeTabActivity(1)
+
+      expect(Object.keys(stateManager.getTabActivity())).toEqual(['2'])
+    })
+
+    it('should prune activity for tabs that no longer exist', async () => {
+      await stateManager.recordTabActivation(1)
+      await stateManager.recordTabActivation(2)
+      await stateManager.recordTabActivation(3)
+
+      await stateManager.pruneTabActivity(new Set([2]))
+
+      expect(Object.keys(stateManager.getTabActivity())).toEqual(['2'])
+    })
+  })
+})
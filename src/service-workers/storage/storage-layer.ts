@@ -1,7 +1,22 @@
 import { serviceWorkerLogger } from '../../utils/logger.js'
 import type { Tab } from '../../types/shared.js'
+import { validateKeymapOverrides } from '../../services/keymap.js'
 
-export type StorageKey = 'tabHistory' | 'harpoonHistory' | 'harpoonWindows' | 'tabsScreenshotMap' | 'windowStates' | 'systemHealth' | 'excludedSites'
+export type StorageKey = 'tabHistory' | 'harpoonHistory' | 'harpoonWindows' | 'tabsScreenshotMap' | 'windowStates' | 'systemHealth' | 'excludedSites' | 'tabActivity' | 'historyDays' | 'searchAllWindows' | 'keymap' | 'closeJournal' | 'windowNames'
+
+/**
+ * A tab closed from the modal, with where it was, so undo can put it back
+ */
+export interface ClosedTabEntry {
+  url: string
+  title: string
+  faviconUrl: string
+  windowId: number
+  index: number
+  pinned: boolean
+  // Its position in the window's harpoon list, if it was harpooned
+  harpoonSlot?: number
+}
 
 export interface WindowState {
   id: number
@@ -17,13 +32,16 @@ export interface SystemHealth {
   lastHealthCheck: number
 }
 
+// Kept for the browser session only: window IDs don't outlive it, so neither do their names
+const SESSION_KEYS = new Set<StorageKey>(['windowNames'])
+
 export class SimpleStorage {
   /**
    * Read data from storage
    */
   async read<T>(key: StorageKey): Promise<T | null> {
     return new Promise((resolve, reject) => {
-      chrome.storage.local.get([key], (result) => {
+      this.areaFor(key).get([key], (result) => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
           return
@@ -51,7 +69,7 @@ export class SimpleStorage {
     }
 
     return new Promise((resolve, reject) => {
-      chrome.storage.local.set({ [key]: value }, () => {
+      this.areaFor(key).set({ [key]: value }, () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
           return
@@ -66,7 +84,7 @@ export class SimpleStorage {
    */
   async delete(key: StorageKey): Promise<void> {
     return new Promise((resolve, reject) => {
-      chrome.storage.local.remove([key], () => {
+      this.areaFor(key).remove([key], () => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
           return
@@ -110,6 +128,10 @@ export class SimpleStorage {
     })
   }
 
+  private areaFor(key: StorageKey): chrome.storage.StorageArea {
+    return SESSION_KEYS.has(key) ? chrome.storage.session : chrome.storage.local
+  }
+
   /**
    * Validate data before storage
    */
@@ -136,7 +158,29 @@ export class SimpleStorage {
       
       case 'excludedSites':
         return Array.isArray(value) && value.every(site => typeof site === 'string')
+
+      case 'tabActivity':
+        return typeof value === 'object' && value !== null &&
+               Object.values(value as Record<string, unknown>).every(this.validateTabActivity)
+
+      case 'historyDays':
+        return Number.isInteger(value) && (value as number) > 0
+
+      case 'searchAllWindows':
+        return typeof value === 'boolean'
+
+      case 'keymap':
+        return validateKeymapOverrides(value) === null
+
+      case 'closeJournal':
+        return Array.isArray(value) && value.every(batch =>
+          Array.isArray(batch) && batch.length > 0 && batch.every(this.validateClosedTabEntry)
+        )
       
+      case 'windowNames':
+        return typeof value === 'object' && value !== null &&
+               Object.values(value as Record<string, unknown>).every(name => typeof name === 'string')
+
       default:
         return false
     }
@@ -154,6 +198,31 @@ export class SimpleStorage {
     )
   }
 
+  private validateTabActivity(activity: unknown): boolean {
+    if (typeof activity !== 'object' || activity === null) return false
+
+    const a = activity as Record<string, unknown>
+    return (
+      typeof a.count === 'number' &&
+      Array.isArray(a.timestamps) &&
+      a.timestamps.every(timestamp => typeof timestamp === 'number')
+    )
+  }
+
+  private validateClosedTabEntry(entry: unknown): boolean {
+    if (typeof entry !== 'object' || entry === null) return false
+
+    const e = entry as Record<string, unknown>
+    return (
+      typeof e.url === 'string' &&
+      typeof e.title === 'string' &&
+      typeof e.windowId === 'number' &&
+      typeof e.index === 'number' &&
+      typeof e.pinned === 'boolean' &&
+      (e.harpoonSlot === undefined || typeof e.harpoonSlot === 'number')
+    )
+  }
+
   private validateSystemHealth(health: unknown): boolean {
     if (typeof health !== 'object' || health === null) return false
     
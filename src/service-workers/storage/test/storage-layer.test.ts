@@ -10,6 +10,11 @@ const mockChromeStorage = {
     remove: vi.fn(),
     clear: vi.fn(),
     getBytesInUse: vi.fn()
+  },
+  session: {
+    get: vi.fn(),
+    set: vi.fn(),
+    remove: vi.fn()
   }
 }
 
@@ -36,8 +41,6 @@ const createMockTab = (overrides: Partial<Tab> = {}): Tab => ({
   id: 1,
   title: 'Test Tab',
   url: 'https://example.com',
-  highlightedTitle: 'Test Tab',
-  highlightedUrl: 'https://example.com',
   faviconUrl: 'https://example.com/favicon.ico',
   screenshotUrl: 'https://example.com/screenshot.png',
   windowId: 1,
@@ -129,6 +132,23 @@ describe('SimpleStorage', () => {
 
       await expect(storage.write('tabHistory', testData)).rejects.toThrow('Write failed')
     })
+
+    it('should keep window names in session storage', async () => {
+      mockChromeStorage.session.set.mockImplementation((data, callback) => {
+        callback()
+      })
+
+      await storage.write('windowNames', { 1: 'Research' })
+
+      expect(mockChromeStorage.session.set).toHaveBeenCalledWith(
+        { windowNames: { 1: 'Research' } },
+        expect.any(Function)
+      )
+      expect(mockChromeStorage.local.set).not.toHaveBeenCalled()
+      await expect(storage.write('windowNames', { 1: 42 })).rejects.toThrow(
+        'Invalid data for key windowNames'
+      )
+    })
   })
 
   describe('delete operations', () => {
@@ -0,0 +1,90 @@
+import type { TabActivity } from '../types/shared.js'
+
+/**
+ * Frecency ranking, modelled on telescope-frecency (which in turn follows Firefox):
+ * each recorded visit contributes a weight based on how long ago it happened, and the
+ * average visit weight is scaled by the total number of visits.
+ */
+
+// Only the most recent timestamps are kept per tab; the count keeps growing
+export const MAX_ACTIVITY_TIMESTAMPS = 10
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const RECENCY_BUCKETS: Array<{ maxAge: number; weight: number }> = [
+  { maxAge: 4 * HOUR, weight: 100 },
+  { maxAge: DAY, weight: 80 },
+  { maxAge: 3 * DAY, weight: 60 },
+  { maxAge: 7 * DAY, weight: 40 },
+  { maxAge: 30 * DAY, weight: 20 },
+  { maxAge: 90 * DAY, weight: 10 }
+]
+
+// How much a maximal frecency score can add to a perfect (1.0) match quality
+const FRECENCY_WEIGHT = 0.3
+
+export function recordActivation(activity: TabActivity | undefined, timestamp: number): TabActivity {
+  const timestamps = [...(activity?.timestamps || []), timestamp].slice(-MAX_ACTIVITY_TIMESTAMPS)
+  return {
+    count: (activity?.count || 0) + 1,
+    timestamps
+  }
+}
+
+export function calculateFrecency(activity: TabActivity, now: number = Date.now()): number {
+  if (activity.count === 0 || activity.timestamps.length === 0) {
+    return 0
+  }
+
+  const totalWeight = activity.timestamps.reduce((sum, timestamp) => {
+    const age = now - timestamp
+    const bucket = RECENCY_BUCKETS.find((candidate) => age <= candidate.maxAge)
+    return sum + (bucket?.weight || 0)
+  }, 0)
+
+  return (activity.count * totalWeight) / activity.timestamps.length
+}
+
+export function calculateFrecencyScores(
+  activities: Record<number, TabActivity>,
+  now: number = Date.now()
+): Record<number, number> {
+  const scores: Record<number, number> = {}
+  for (const [tabId, activity] of Object.entries(activities)) {
+    const score = calculateFrecency(activity, now)
+    if (score > 0) {
+      scores[Number(tabId)] = score
+    }
+  }
+  return scores
+}
+
+/**
+ * Order search results by match quality boosted by frecency.
+ * `matchScore` is normalised: 0 is a perfect match, 1 is no match.
+ */
+export function rankByFrecency<T>(
+  results: T[],
+  getTabId: (result: T) => number,
+  getMatchScore: (result: T) => number,
+  frecencyScores: Record<number, number>
+): T[] {
+  const maxFrecency = Math.max(0, ...results.map((result) => frecencyScores[getTabId(result)] || 0))
+
+  const rank = (result: T) => {
+    const matchQuality = 1 - getMatchScore(result)
+    if (maxFrecency === 0) {
+      return matchQuality
+    }
+    // Log scale so one heavily used tab doesn't flatten everything else to zero
+    const frecency = frecencyScores[getTabId(result)] || 0
+    const normalized = Math.log1p(frecency) / Math.log1p(maxFrecency)
+    return matchQuality + FRECENCY_WEIGHT * normalized
+  }
+
+  return results
+    .map((result, index) => ({ result, index, rank: rank(result) }))
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .map(({ result }) => result)
+}
@@ -0,0 +1,407 @@
+/**
+ * fzf-style fuzzy matcher (modelled on fzf's FuzzyMatchV2 / telescope-fzf-native).
+ *
+ * Each pattern term is matched with a Smith-Waterman style alignment that rewards
+ * contiguous runs and matches at word boundaries, and penalises gaps. Terms support
+ * the fzf extended syntax:
+ * - `foo` - fuzzy match
+ * - `'foo` - exact (substring) match
+ * - `^foo` - prefix match
+ * - `foo$` - suffix match
+ * - `^foo$` - whole-string match
+ *
+ * Matching is smart case: a term is case sensitive only if it contains an uppercase letter.
+ */
+
+export type TermType = 'fuzzy' | 'exact' | 'prefix' | 'suffix' | 'equal'
+
+export type PatternTerm = {
+  type: TermType
+  text: string
+  caseSensitive: boolean
+}
+
+export type MatchResult = {
+  score: number
+  // Matched character positions in ascending order
+  positions: number[]
+}
+
+const SCORE_MATCH = 16
+const SCORE_GAP_START = -3
+const SCORE_GAP_EXTENSION = -1
+
+// Matching the first character of a word is worth half a matched character
+const BONUS_BOUNDARY = SCORE_MATCH / 2
+const BONUS_BOUNDARY_WHITE = BONUS_BOUNDARY + 2
+const BONUS_BOUNDARY_DELIMITER = BONUS_BOUNDARY + 1
+const BONUS_NON_WORD = SCORE_MATCH / 2
+// camelCase and letter-to-digit transitions, slightly less than a real boundary
+const BONUS_CAMEL_123 = BONUS_BOUNDARY + SCORE_GAP_EXTENSION
+// Keeps a contiguous run together even when it doesn't start at a boundary
+const BONUS_CONSECUTIVE = -(SCORE_GAP_START + SCORE_GAP_EXTENSION)
+const BONUS_FIRST_CHAR_MULTIPLIER = 2
+
+// Ordered like fzf: everything after NON_WORD counts as a word character
+const CHAR_WHITE = 0
+const CHAR_NON_WORD = 1
+const CHAR_DELIMITER = 2
+const CHAR_LOWER = 3
+const CHAR_UPPER = 4
+const CHAR_LETTER = 5
+const CHAR_NUMBER = 6
+
+const DELIMITERS = '/,:;|'
+const WHITESPACE = /\s/
+const LETTER = /\p{L}/u
+
+// Scratch matrices shared between calls to avoid allocating per candidate
+let scoreMatrix = new Int32Array(0)
+let consecutiveMatrix = new Int32Array(0)
+
+/**
+ * Split a search pattern into whitespace separated terms; every term must match
+ */
+export function parsePattern(pattern: string): PatternTerm[] {
+  return pattern
+    .trim()
+    .split(/\s+/)
+    .filter((token) => token.length > 0)
+    .map(parseTerm)
+}
+
+export function parseTerm(token: string): PatternTerm {
+  let type: TermType = 'fuzzy'
+  let text = token
+
+  // A lone operator character is matched literally
+  if (text.startsWith("'") && text.length > 1) {
+    type = 'exact'
+    text = text.slice(1)
+  } else if (text.startsWith('^') && text.endsWith('$') && text.length > 2) {
+    type = 'equal'
+    text = text.slice(1, -1)
+  } else if (text.startsWith('^') && text.length > 1) {
+    type = 'prefix'
+    text = text.slice(1)
+  } else if (text.endsWith('$') && text.length > 1) {
+    type = 'suffix'
+    text = text.slice(0, -1)
+  }
+
+  return { type, text, caseSensitive: text !== text.toLowerCase() }
+}
+
+/**
+ * True when typing more characters after `token` can only narrow down what it matches.
+ * Not the case for a bare `'`/`^` (they become operators) or anchored `foo$` terms.
+ */
+export function isExtensibleTerm(token: string): boolean {
+  if (token === "'" || token === '^') {
+    return false
+  }
+  const { type } = parseTerm(token)
+  return type !== 'suffix' && type !== 'equal'
+}
+
+export function matchTerm(text: string, term: PatternTerm): MatchResult | null {
+  if (term.text.length === 0) {
+    return { score: 0, positions: [] }
+  }
+
+  const haystack = term.caseSensitive ? text : toLowerCase(text)
+
+  switch (term.type) {
+    case 'fuzzy':
+      return fuzzyMatch(text, haystack, term.text)
+
+    case 'exact':
+      return exactMatch(text, haystack, term.text)
+
+    case 'prefix':
+      return haystack.startsWith(term.text) ? runMatch(text, 0, term.text.length) : null
+
+    case 'suffix':
+      return haystack.endsWith(term.text)
+        ? runMatch(text, text.length - term.text.length, term.text.length)
+        : null
+
+    case 'equal':
+      return haystack === term.text ? runMatch(text, 0, term.text.length) : null
+  }
+}
+
+/**
+ * Best possible score for a term: every character matched contiguously from a word start.
+ * Used to normalise scores into the 0 (perfect) to 1 (no match) range.
+ */
+export function idealScore(term: PatternTerm): number {
+  const length = term.text.length
+  if (length === 0) {
+    return 0
+  }
+  return length * SCORE_MATCH + BONUS_BOUNDARY_WHITE * (BONUS_FIRST_CHAR_MULTIPLIER + length - 1)
+}
+
+/**
+ * Collapse matched positions into inclusive [start, end] ranges for the highlighter
+ */
+export function toMatchRanges(positions: number[]): [number, number][] {
+  const sorted = [...new Set(positions)].sort((a, b) => a - b)
+  const ranges: [number, number][] = []
+
+  for (const position of sorted) {
+    const last = ranges[ranges.length - 1]
+    if (last && position === last[1] + 1) {
+      last[1] = position
+    } else {
+      ranges.push([position, position])
+    }
+  }
+
+  return ranges
+}
+
+function fuzzyMatch(text: string, haystack: string, pattern: string): MatchResult | null {
+  const patternLength = pattern.length
+
+  // Phase 1: bail out early unless the pattern is a subsequence, remembering where each
+  // pattern character can first appear
+  const firstPositions = new Int32Array(patternLength)
+  let searchFrom = 0
+  for (let i = 0; i < patternLength; i++) {
+    const found = haystack.indexOf(pattern[i], searchFrom)
+    if (found < 0) {
+      return null
+    }
+    firstPositions[i] = found
+    searchFrom = found + 1
+  }
+
+  // Nothing can match outside [minIndex, maxIndex]
+  const minIndex = firstPositions[0]
+  const maxIndex = haystack.lastIndexOf(pattern[patternLength - 1])
+  const width = maxIndex - minIndex + 1
+
+  const bonuses = new Int32Array(width)
+  let previousClass = minIndex > 0 ? charClassOf(text[minIndex - 1]) : CHAR_WHITE
+  for (let j = 0; j < width; j++) {
+    const charClass = charClassOf(text[minIndex + j])
+    bonuses[j] = bonusFor(previousClass, charClass)
+    previousClass = charClass
+  }
+
+  // Phase 2: fill the score (H) and consecutive run length (C) matrices
+  const size = patternLength * width
+  if (scoreMatrix.length < size) {
+    scoreMatrix = new Int32Array(size)
+    consecutiveMatrix = new Int32Array(size)
+  }
+  const H = scoreMatrix
+  const C = consecutiveMatrix
+  H.fill(0, 0, size)
+  C.fill(0, 0, size)
+
+  let maxScore = 0
+  let maxScorePosition = 0
+
+  let inGap = false
+  let previousScore = 0
+  for (let j = 0; j < width; j++) {
+    if (haystack[minIndex + j] === pattern[0]) {
+      H[j] = SCORE_MATCH + bonuses[j] * BONUS_FIRST_CHAR_MULTIPLIER
+      C[j] = 1
+      inGap = false
+      if (patternLength === 1 && H[j] > maxScore) {
+        maxScore = H[j]
+        maxScorePosition = j
+      }
+    } else {
+      H[j] = Math.max(previousScore + (inGap ? SCORE_GAP_EXTENSION : SCORE_GAP_START), 0)
+      inGap = true
+    }
+    previousScore = H[j]
+  }
+
+  for (let i = 1; i < patternLength; i++) {
+    const row = i * width
+    const previousRow = row - width
+    const start = firstPositions[i] - minIndex
+    inGap = false
+
+    for (let j = start; j < width; j++) {
+      const left = j > start ? H[row + j - 1] : 0
+      const gapScore: number = left + (inGap ? SCORE_GAP_EXTENSION : SCORE_GAP_START)
+      let matchScore = 0
+      let consecutive = 0
+
+      if (haystack[minIndex + j] === pattern[i]) {
+        matchScore = H[previousRow + j - 1] + SCORE_MATCH
+        let bonus = bonuses[j]
+        consecutive = C[previousRow + j - 1] + 1
+
+        if (consecutive > 1) {
+          const firstBonus = bonuses[j - consecutive + 1]
+          // A stronger boundary inside the run starts a new run from there
+          if (bonus >= BONUS_BOUNDARY && bonus > firstBonus) {
+            consecutive = 1
+          } else {
+            bonus = Math.max(bonus, BONUS_CONSECUTIVE, firstBonus)
+          }
+        }
+
+        if (matchScore + bonus < gapScore) {
+          matchScore += bonuses[j]
+          consecutive = 0
+        } else {
+          matchScore += bonus
+        }
+      }
+
+      C[row + j] = consecutive
+      inGap = matchScore < gapScore
+      const score = Math.max(matchScore, gapScore, 0)
+      if (i === patternLength - 1 && score > maxScore) {
+        maxScore = score
+        maxScorePosition = j
+      }
+      H[row + j] = score
+    }
+  }
+
+  // Phase 3: backtrace from the best cell to recover the matched positions
+  const positions: number[] = []
+  let i = patternLength - 1
+  let j = maxScorePosition
+  let preferMatch = true
+
+  while (j >= 0) {
+    const row = i * width
+    const start = firstPositions[i] - minIndex
+    const score = H[row + j]
+    const diagonal = i > 0 && j >= start ? H[row - width + j - 1] : 0
+    const left = j > start ? H[row + j - 1] : 0
+    const currentRow = i
+
+    if (score > diagonal && (score > left || (score === left && preferMatch))) {
+      positions.push(minIndex + j)
+      if (i === 0) {
+        break
+      }
+      i--
+    }
+
+    const nextRow = currentRow + 1
+    preferMatch =
+      C[row + j] > 1 ||
+      (nextRow < patternLength &&
+        j + 1 >= firstPositions[nextRow] - minIndex &&
+        j + 1 < width &&
+        C[nextRow * width + j + 1] > 0)
+    j--
+  }
+
+  return { score: maxScore, positions: positions.reverse() }
+}
+
+// Pick the occurrence with the best boundary bonus, not just the first one
+function exactMatch(text: string, haystack: string, pattern: string): MatchResult | null {
+  let best: MatchResult | null = null
+  let index = haystack.indexOf(pattern)
+
+  while (index >= 0) {
+    const candidate = runMatch(text, index, pattern.length)
+    if (!best || candidate.score > best.score) {
+      best = candidate
+    }
+    index = haystack.indexOf(pattern, index + 1)
+  }
+
+  return best
+}
+
+// Score a contiguous match of `length` characters starting at `start`
+function runMatch(text: string, start: number, length: number): MatchResult {
+  let score = 0
+  let firstBonus = 0
+  let previousClass = start > 0 ? charClassOf(text[start - 1]) : CHAR_WHITE
+  const positions: number[] = []
+
+  for (let k = 0; k < length; k++) {
+    const charClass = charClassOf(text[start + k])
+    let bonus = bonusFor(previousClass, charClass)
+    previousClass = charClass
+
+    score += SCORE_MATCH
+    if (k === 0) {
+      firstBonus = bonus
+      score += bonus * BONUS_FIRST_CHAR_MULTIPLIER
+    } else {
+      if (bonus >= BONUS_BOUNDARY && bonus > firstBonus) {
+        firstBonus = bonus
+      }
+      bonus = Math.max(bonus, firstBonus, BONUS_CONSECUTIVE)
+      score += bonus
+    }
+    positions.push(start + k)
+  }
+
+  return { score, positions }
+}
+
+function bonusFor(previousClass: number, charClass: number): number {
+  if (charClass > CHAR_NON_WORD) {
+    switch (previousClass) {
+      case CHAR_WHITE:
+        return BONUS_BOUNDARY_WHITE
+      case CHAR_DELIMITER:
+        return BONUS_BOUNDARY_DELIMITER
+      case CHAR_NON_WORD:
+        return BONUS_BOUNDARY
+    }
+  }
+
+  if (
+    (previousClass === CHAR_LOWER && charClass === CHAR_UPPER) ||
+    (previousClass !== CHAR_NUMBER && charClass === CHAR_NUMBER)
+  ) {
+    return BONUS_CAMEL_123
+  }
+
+  switch (charClass) {
+    case CHAR_NON_WORD:
+    case CHAR_DELIMITER:
+      return BONUS_NON_WORD
+    case CHAR_WHITE:
+      return BONUS_BOUNDARY_WHITE
+  }
+
+  return 0
+}
+
+function charClassOf(char: string): number {
+  if (char >= 'a' && char <= 'z') return CHAR_LOWER
+  if (char >= 'A' && char <= 'Z') return CHAR_UPPER
+  if (char >= '0' && char <= '9') return CHAR_NUMBER
+  if (WHITESPACE.test(char)) return CHAR_WHITE
+  if (DELIMITERS.includes(char)) return CHAR_DELIMITER
+  if (char.toLowerCase() !== char) return CHAR_UPPER
+  if (char.toUpperCase() !== char) return CHAR_LOWER
+  if (LETTER.test(char)) return CHAR_LETTER
+  return CHAR_NON_WORD
+}
+
+// Lowercase without changing the string length, so positions map back onto the original
+function toLowerCase(text: string): string {
+  const lowered = text.toLowerCase()
+  if (lowered.length === text.length) {
+    return lowered
+  }
+
+  let result = ''
+  for (const char of text) {
+    const lowerChar = char.toLowerCase()
+    result += lowerChar.length === char.length ? lowerChar : char
+  }
+  return result
+}
@@ -1,22 +1,14 @@
 import { get } from 'svelte/store'
+import type { ModalMode } from '../types/shared.js'
 import { targetIsText, isRunningInIFrame } from '../utils/html-utils.js'
 import {
   keyBuffer,
-  addKeyToBuffer,
   clearKeyBuffer,
-  checkModalTrigger,
-  checkEscapeSequence,
-  checkHarpoonAdd,
-  checkHarpoonRemove,
-  checkHarpoonSwitch,
-  checkDeleteSequence,
-  checkSubmenuInvalidation,
-  getHarpoonSubmenuHints,
-  harpoonSubmenuActive,
-  activateHarpoonSubmenu,
-  clearHarpoonSubmenu,
-  checkLastTab
+  resolveKeys,
+  pendingHints,
+  timeoutLength
 } from '../stores/keyboard.js'
+import { countedRows, isListMotion, keyFromEvent, moveInList, type KeymapMode } from './keymap.js'
 import {
   openModal,
   closeModal,
@@ -29,18 +21,23 @@ import {
   setSelectedTab,
   modalMode
 } from '../stores/modal.js'
-import { filteredTabsFromSearch } from '../stores/search.js'
+import {
+  filteredTabsFromSearch,
+  searchQuery,
+  updateSearchQuery,
+  clearSearch
+} from '../stores/search.js'
+import { getPickerSource, pickerSources } from '../pickers/registry.js'
+import type { PickerContext } from '../pickers/types.js'
 import {
   addTabToHarpoon,
   removeTabFromHarpoon,
-  removeTabFromHarpoonById,
   getHarpoonTabs,
   sendOpenModalFromIFrame,
   switchToTab,
-  closeTab,
-  switchToLastBuffer
+  switchToLastBuffer,
+  undoCloseTabs
 } from './service-worker-bridge.js'
-import { updateHarpoonTabs, removeTabOptimistically } from '../stores/tabs.js'
 import { triggerBorderFlash } from '../stores/harpoon-flash.js'
 import {
   scheduleWhichKey,
@@ -60,6 +57,8 @@ import {
   updateVisualCursor,
   visualSelectionIndices
 } from '../stores/visual-selection.js'
+import { markedTabs, toggleMark } from '../stores/marks.js'
+import { modalPrompt, typeInModalPrompt } from '../stores/modal-prompt.js'
 import { keyboardLogger, harpoonLogger } from '../utils/logger.js'
 
 function getSearchBar(): HTMLInputElement | null {
@@ -79,6 +78,36 @@ function isSearchBarFocused(): boolean {
   return false
 }
 
+// Rows of the list that fit in it at once, for half-page moves
+const DEFAULT_PAGE_ROWS = 10
+
+function visibleRows(): number {
+  const shadowRoot = document.querySelector('#telescope-shadow-host')?.shadowRoot
+  const list = shadowRoot?.querySelector('.telescope-tab-list-container') as HTMLElement | null
+  const row = shadowRoot?.querySelector('.telescope-tab-item') as HTMLElement | null
+  if (list && row && row.offsetHeight > 0) {
+    return Math.floor(list.clientHeight / row.offsetHeight)
+  }
+  return DEFAULT_PAGE_ROWS
+}
+
+/**
+ * The list as the current picker's actions see it. In normal mode, a count selects that
+ * many rows from the cursor down, so 3dd closes three tabs.
+ */
+function pickerContext(count?: number): PickerContext {
+  const items = get(filteredTabsFromSearch)
+  const index = get(selectedTabIndex)
+  let selection: number[] = []
+  if (get(inputMode) === 'visual') {
+    selection = get(visualSelectionIndices)
+  } else if (count !== undefined && items.length > 0) {
+    selection = countedRows(index, count)
+  }
+
+  return { items, index, selection, marked: get(markedTabs) }
+}
+
 let keyboardHandlerActive = false
 
 export function setupKeyboardHandler() {
@@ -97,6 +126,17 @@ function handleKeydown(event: KeyboardEvent) {
   const userIsTyping = targetIsText(event)
   const currentIsModalOpen = get(isModalOpen)
 
+  // A question of the modal takes every key until it's answered
+  if (currentIsModalOpen && get(modalPrompt)) {
+    event.preventDefault()
+    event.stopImmediatePropagation()
+    const key = keyFromEvent(event)
+    if (key) {
+      typeInModalPrompt(key)
+    }
+    return
+  }
+
   // AGGRESSIVE: If modal is open, immediately stop ALL propagation except for typing
   if (currentIsModalOpen) {
     const currentInputMode = get(inputMode)
@@ -119,589 +159,308 @@ function handleKeydown(event: KeyboardEvent) {
     }
   }
 
-  // Add key to buffer for command detection
-  addKeyToBuffer(event.key)
+  if (userIsTyping) return
 
-  // Get current key buffer
-  const currentKeyBuffer = get(keyBuffer)
+  const key = keyFromEvent(event)
+  if (!key) return
 
-  // Non-modal suppressions
-  const nonModalSuppressions = [' ']
-  if (nonModalSuppressions.includes(event.key) && !currentIsModalOpen && !userIsTyping) {
-    event.preventDefault()
-    event.stopImmediatePropagation()
+  let keys = [...get(keyBuffer), key]
+  let match = resolveKeys(currentKeymapMode(), currentPicker(), keys)
+
+  // The pending keys lead nowhere with this one: finish them, then start over from this key
+  if (match.kind === 'none' && keys.length > 1) {
+    flushPendingKeys()
+    keys = [key]
+    match = resolveKeys(currentKeymapMode(), currentPicker(), keys)
   }
 
-  // Modal suppression logic moved to top of function for maximum effectiveness
+  if (match.kind === 'none') {
+    hideWhichKey()
+    return
+  }
 
-  if (userIsTyping) return
+  // The key is ours: keep it from the page and out of the search bar
+  event.preventDefault()
+  event.stopImmediatePropagation()
 
-  const last2 = currentKeyBuffer.slice(-2)
-  const last3 = currentKeyBuffer.slice(-3)
-
-  // Define when commands should be allowed
-  const modalClosed = !currentIsModalOpen
-  const modalOpenInNormalMode = currentIsModalOpen && get(inputMode) === 'normal'
-  const commandsAllowed = modalClosed || modalOpenInNormalMode
-
-  // Which-key logic: Show hints when space is pressed and no modal is open
-  if (event.key === ' ' && !currentIsModalOpen) {
-    const whichKeyHints = [
-      { key: 'space', description: 'tabs' },
-      { key: 'h', description: '[H]arpoon' },
-      { key: 'l', description: '[L]ast tab' },
-      { key: '1-9', description: '[H]arpoon [1-9]' }
-    ]
-    scheduleWhichKey(whichKeyHints, 500)
+  if (match.kind === 'prefix') {
+    waitForMoreKeys(keys)
+    return
   }
 
-  // Special handling for harpoon submenu activation - CHECK THIS FIRST before hiding which-key
-  if (last2.join('').toLowerCase() === ' h' && !currentIsModalOpen) {
-    const isWhichKeyCurrentlyVisible = get(isWhichKeyVisible)
+  clearPendingKeys()
+  runCommand(match.command, match.count)
+}
 
-    if (isWhichKeyCurrentlyVisible) {
-      // Which-key is already visible, show harpoon submenu immediately
-      event.preventDefault()
+function currentKeymapMode(): KeymapMode {
+  return get(isModalOpen) ? get(inputMode) : 'page'
+}
 
-      // Manually set submenu as active (without the timeout)
-      harpoonSubmenuActive.set(true)
+function currentPicker(): ModalMode | null {
+  return get(isModalOpen) ? get(modalMode) : null
+}
 
-      // Show harpoon hints immediately without hiding first
-      const harpoonHints = getHarpoonSubmenuHints()
-      showWhichKey(harpoonHints) // Direct show, no delay or hiding
-      return
-    } else {
-      // Which-key not visible, use normal submenu activation with timeout
-      activateHarpoonSubmenu()
-      return
-    }
-  }
+// Delay before which-key lists what can follow the pending keys
+const WHICH_KEY_DELAY = 500
 
-  // Hide which-key when any non-space key is pressed, unless in harpoon submenu
-  const isInHarpoonSubmenu = get(harpoonSubmenuActive)
+let pendingKeysTimeout: ReturnType<typeof setTimeout> | null = null
 
-  if (event.key !== ' ' && !isInHarpoonSubmenu) {
+/**
+ * Hold keys that start a sequence until the next key, for 'timeoutlen' after the last one;
+ * which-key lists what can follow after its own delay, and never when the wait ends sooner
+ */
+function waitForMoreKeys(keys: string[]) {
+  keyBuffer.set(keys)
+
+  const hints = pendingHints(currentKeymapMode(), currentPicker(), keys)
+  // Nothing to list after a count alone
+  if (hints.length === 0) {
     hideWhichKey()
+  } else if (get(isWhichKeyVisible)) {
+    // Straight away when a submenu opens from hints already up
+    showWhichKey(hints)
+  } else {
+    scheduleWhichKey(hints, WHICH_KEY_DELAY)
   }
 
-  // Handle harpoon submenu keys - prevent propagation to avoid conflicts with Vimium
-  if (isInHarpoonSubmenu && ['o', 'a', 'r'].includes(event.key.toLowerCase())) {
-    event.preventDefault()
-    event.stopPropagation()
-    event.stopImmediatePropagation()
+  if (pendingKeysTimeout) {
+    clearTimeout(pendingKeysTimeout)
   }
+  pendingKeysTimeout = setTimeout(flushPendingKeys, timeoutLength())
+}
 
-  // Check for submenu invalidation (invalid key after "space h")
-  if (checkSubmenuInvalidation(last3)) {
-    hideWhichKey()
+function clearPendingKeys() {
+  if (pendingKeysTimeout) {
+    clearTimeout(pendingKeysTimeout)
+    pendingKeysTimeout = null
   }
+  clearKeyBuffer()
+  hideWhichKey()
+}
 
-  // Check for modal trigger (handles both 2-key and 3-key sequences)
-  const modalTrigger2 = checkModalTrigger(last2)
-  const modalTrigger3 = checkModalTrigger(last3)
-  const modalTrigger = modalTrigger3 || modalTrigger2
-
-  if (modalTrigger && !currentIsModalOpen) {
-    event.preventDefault()
-    clearKeyBuffer()
-    hideWhichKey()
-
-    if (isRunningInIFrame()) {
-      sendOpenModalFromIFrame(modalTrigger)
-    } else {
-      openModal(modalTrigger)
-    }
-    return
+/**
+ * Give up waiting for the rest of a sequence: the pending keys run their own command if
+ * they have one, as 'g' would when 'gg' is bound too; in insert mode, they are typed
+ */
+function flushPendingKeys() {
+  const keys = get(keyBuffer)
+  const mode = currentKeymapMode()
+  const match = resolveKeys(mode, currentPicker(), keys)
+  clearPendingKeys()
+
+  if (match.kind === 'prefix' && match.node.command) {
+    runCommand(match.node.command, match.count)
+  } else if (mode === 'insert') {
+    typeKeys(keys)
   }
+}
 
-  // Handle escape key behavior based on current mode
-  if (event.key === 'Escape' && currentIsModalOpen) {
-    const currentInputMode = get(inputMode)
+// Characters held back as the start of an insert-mode sequence are typed after all
+function typeKeys(keys: string[]) {
+  const text = keys.filter((key) => key.length === 1).join('')
+  if (text) {
+    updateSearchQuery(get(searchQuery) + text)
+  }
+}
 
-    if (currentInputMode === 'insert') {
-      // In insert mode, single Escape switches to normal mode
-      event.preventDefault()
-      event.stopImmediatePropagation()
-      switchToNormalMode()
+/**
+ * Run a command of the keymap, with the count typed before its keys: a picker's action
+ * (`tab:close`), opening a picker (`picker.grep`), a list motion, or one of the commands
+ * below
+ */
+function runCommand(command: string, count?: number) {
+  const [picker, action] = command.split(':')
+  if (action !== undefined) {
+    const run = getPickerSource(picker).actions[action]
+    if (!run) {
+      keyboardLogger.warn(`The ${picker} picker has no action "${action}"`)
       return
-    } else {
-      // In normal mode, check for double escape to close modal
-      if (checkEscapeSequence(last2)) {
-        closeModal()
-        return
-      }
     }
+    run(pickerContext(count))
+    return
   }
 
-  if (currentIsModalOpen && event.key === 'Enter') {
-    event.preventDefault()
-    event.stopImmediatePropagation()
-
-    const filteredTabs = get(filteredTabsFromSearch)
-    const currentIndex = get(selectedTabIndex)
-    const selectedTab = filteredTabs[currentIndex]
-
-    if (selectedTab) {
-      showTabSwitchLoading()
-      switchToTab(selectedTab.id)
-        .then(() => {
-          hideLoading()
-          closeModal()
-        })
-        .catch((error) => {
-          hideLoading()
-          keyboardLogger.error('Failed to switch to tab:', error)
-        })
-    }
+  if (command.startsWith('picker.')) {
+    openPicker(command.slice('picker.'.length))
     return
   }
 
-  // Handle arrow key navigation in both insert and normal modes
-  if (currentIsModalOpen && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
-    event.preventDefault()
-    event.stopImmediatePropagation()
-
-    const filteredTabs = get(filteredTabsFromSearch)
-    const currentIndex = get(selectedTabIndex)
-
-    if (event.key === 'ArrowDown') {
-      // Because of column-reverse, going down visually means decreasing index
-      if (currentIndex - 1 >= 0) {
-        setSelectedTab(currentIndex - 1)
-      }
-    } else if (event.key === 'ArrowUp') {
-      // Because of column-reverse, going up visually means increasing index
-      if (currentIndex + 1 <= filteredTabs.length - 1) {
-        setSelectedTab(currentIndex + 1)
-      }
-    }
+  if (isListMotion(command)) {
+    moveCursor(command, count)
     return
   }
 
-  // Handle vim-style navigation keys in normal mode only
-  if (currentIsModalOpen && get(inputMode) === 'normal') {
-    const downKeys = ['j'] // j goes down visually
-    const upKeys = ['k'] // k goes up visually
-
-    const keysThatReturnToInsertMode = ['i', 'I', 'a', 'A']
-
-    if (downKeys.includes(event.key)) {
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-
-      // Because of column-reverse, going down visually means decreasing index
-      if (currentIndex - 1 >= 0) {
-        setSelectedTab(currentIndex - 1)
-      }
-      return
-    } else if (upKeys.includes(event.key)) {
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-
-      // Because of column-reverse, going up visually means increasing index
-      if (currentIndex + 1 <= filteredTabs.length - 1) {
-        setSelectedTab(currentIndex + 1)
-      }
-      return
-    } else if (keysThatReturnToInsertMode.includes(event.key)) {
-      // Switch back to insert mode and focus search bar
-      switchToInsertMode()
-
-      const searchBar = getSearchBar()
-      if (searchBar) {
-        searchBar.focus()
-      }
-      return
-    } else if (event.key === 'v' && !event.shiftKey) {
-      // Enter visual mode from normal mode (v key)
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const currentIndex = get(selectedTabIndex)
-      startVisualSelection(currentIndex)
-      switchToVisualMode()
-      return
-    } else if (event.key === 'V' && event.shiftKey) {
-      // Enter visual mode from normal mode (Shift+V key, same as v for our purposes)
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const currentIndex = get(selectedTabIndex)
-      startVisualSelection(currentIndex)
-      switchToVisualMode()
-      return
-    }
+  const run = commands[command]
+  if (!run) {
+    keyboardLogger.warn(`Unknown command "${command}"`)
+    return
   }
+  run()
+}
 
-  // Handle visual mode navigation
-  if (currentIsModalOpen && get(inputMode) === 'visual') {
-    const downKeys = ['j'] // j goes down visually
-    const upKeys = ['k'] // k goes up visually
-
-    if (downKeys.includes(event.key)) {
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-
-      // Because of column-reverse, going down visually means decreasing index
-      if (currentIndex - 1 >= 0) {
-        const newIndex = currentIndex - 1
-        setSelectedTab(newIndex)
-        updateVisualCursor(newIndex)
-      }
-      return
-    } else if (upKeys.includes(event.key)) {
-      event.preventDefault()
-      event.stopImmediatePropagation()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-
-      // Because of column-reverse, going up visually means increasing index
-      if (currentIndex + 1 <= filteredTabs.length - 1) {
-        const newIndex = currentIndex + 1
-        setSelectedTab(newIndex)
-        updateVisualCursor(newIndex)
-      }
-      return
-    } else if (event.key === 'Escape') {
-      // Exit visual mode back to normal mode
-      event.preventDefault()
-      event.stopImmediatePropagation()
+const commands: Record<string, () => void> = {
+  'harpoon.add': addCurrentTabToHarpoon,
+  'harpoon.remove': removeCurrentTabFromHarpoon,
+  ...Object.fromEntries(
+    [1, 2, 3, 4, 5, 6, 7, 8, 9].map((slot) => [
+      `harpoon.${slot}`,
+      () => switchToHarpoonSlot(slot - 1)
+    ])
+  ),
+  'tab.last': switchToLastTab,
+  'tab.undoClose': reopenClosedTabs,
+  'list.open': () => getPickerSource(get(modalMode)).actions.open(pickerContext()),
+  'modal.close': closeModal,
+  'mode.insert': enterInsertMode,
+  'mode.normal': enterNormalMode,
+  'mode.visual': enterVisualMode,
+  // Tab marks and moves up the list like fzf, Shift+Tab marks and moves down
+  'mark.toggle': () => markRow(),
+  'mark.next': () => markRow('list.up'),
+  'mark.previous': () => markRow('list.down')
+}
 
-      clearVisualSelection()
-      switchToNormalMode()
-      return
-    }
+function openPicker(mode: string) {
+  if (!pickerSources().some((source) => source.mode === mode)) {
+    keyboardLogger.warn(`No picker "${mode}" to open`)
+    return
   }
 
-  // Handle arrow key navigation in visual mode
-  if (
-    currentIsModalOpen &&
-    get(inputMode) === 'visual' &&
-    (event.key === 'ArrowDown' || event.key === 'ArrowUp')
-  ) {
-    event.preventDefault()
-    event.stopImmediatePropagation()
-
-    const filteredTabs = get(filteredTabsFromSearch)
-    const currentIndex = get(selectedTabIndex)
-
-    if (event.key === 'ArrowDown') {
-      // Because of column-reverse, going down visually means decreasing index
-      if (currentIndex - 1 >= 0) {
-        const newIndex = currentIndex - 1
-        setSelectedTab(newIndex)
-        updateVisualCursor(newIndex)
-      }
-    } else if (event.key === 'ArrowUp') {
-      // Because of column-reverse, going up visually means increasing index
-      if (currentIndex + 1 <= filteredTabs.length - 1) {
-        const newIndex = currentIndex + 1
-        setSelectedTab(newIndex)
-        updateVisualCursor(newIndex)
-      }
-    }
+  if (isRunningInIFrame()) {
+    sendOpenModalFromIFrame(mode)
     return
   }
-
-  // Handle harpoon deletion in modal (dd command)
-  if (currentIsModalOpen && get(inputMode) === 'normal' && get(modalMode) === 'harpoon') {
-    if (checkDeleteSequence(last2)) {
-      event.preventDefault()
-      clearKeyBuffer()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-      const selectedTab = filteredTabs[currentIndex]
-
-      if (selectedTab) {
-        // Show visual feedback
-        triggerBorderFlash()
-
-        // Remove the tab from harpoon
-        removeTabFromHarpoonById(selectedTab.id)
-          .then(() => {
-            // Adjust selection index after deletion
-            const newFilteredTabs = get(filteredTabsFromSearch)
-            if (newFilteredTabs.length === 0) {
-              // No tabs left, close modal
-              closeModal()
-            } else {
-              // Adjust index to stay within bounds
-              const newIndex = Math.min(currentIndex, newFilteredTabs.length - 1)
-              setSelectedTab(newIndex)
-            }
-          })
-          .catch((err) => {
-            harpoonLogger.error('Failed to remove tab from harpoon:', err)
-          })
-      }
-      return
-    }
+  // From inside the modal, the new picker starts with an empty query
+  if (get(isModalOpen)) {
+    clearSearch()
   }
+  openModal(mode)
+}
 
-  // Handle tab deletion in tab list modal (dd command)
-  if (currentIsModalOpen && get(inputMode) === 'normal' && get(modalMode) === 'tab') {
-    if (checkDeleteSequence(last2)) {
-      event.preventDefault()
-      clearKeyBuffer()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const currentIndex = get(selectedTabIndex)
-      const selectedTab = filteredTabs[currentIndex]
-
-      if (selectedTab) {
-        // Show visual feedback
-        triggerBorderFlash()
-
-        // Calculate what the filtered tabs will be after removal (before store updates)
-        const filteredTabsAfterRemoval = filteredTabs.filter((tab) => tab.id !== selectedTab.id)
-
-        // Optimistically remove the tab from UI immediately for responsive feedback
-        removeTabOptimistically(selectedTab.id)
-
-        // Adjust selection index based on calculated filtered tabs
-        if (filteredTabsAfterRemoval.length === 0) {
-          // No tabs left, close modal
-          closeModal()
-        } else {
-          // Adjust index to stay within bounds after removal
-          const newIndex = Math.min(currentIndex, filteredTabsAfterRemoval.length - 1)
-          setSelectedTab(newIndex)
-        }
-
-        // Close the actual browser tab (this will trigger service worker cleanup)
-        closeTab(selectedTab.id).catch((err) => {
-          keyboardLogger.error('Failed to close tab:', err)
-          // If tab closure fails, we could add logic here to restore the tab to the UI
-          // For now, the service worker event will eventually sync the state
-        })
-      }
-      return
-    }
+function moveCursor(motion: string, count?: number) {
+  const rows = get(filteredTabsFromSearch).length
+  if (rows === 0) {
+    return
   }
 
-  // Handle batch tab deletion in visual mode (dd command)
-  if (currentIsModalOpen && get(inputMode) === 'visual' && get(modalMode) === 'tab') {
-    if (checkDeleteSequence(last2)) {
-      event.preventDefault()
-      clearKeyBuffer()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const selectedIndices = get(visualSelectionIndices)
-
-      if (selectedIndices.length > 0) {
-        // Show visual feedback
-        triggerBorderFlash()
-
-        // Get all tabs to be deleted
-        const tabsToDelete = selectedIndices
-          .map((index) => filteredTabs[index])
-          .filter((tab) => tab) // Filter out any undefined tabs
-
-        if (tabsToDelete.length === 0) {
-          return
-        }
-
-        // Optimistically remove all selected tabs from UI
-        tabsToDelete.forEach((tab) => {
-          removeTabOptimistically(tab.id)
-        })
-
-        // Calculate what the filtered tabs will be after removal (before store updates)
-        const filteredTabsAfterRemoval = filteredTabs.filter(
-          (tab) => !tabsToDelete.some((deletedTab) => deletedTab.id === tab.id)
-        )
-
-        // Clear visual selection and return to normal mode
-        clearVisualSelection()
-        switchToNormalMode()
-
-        // Check if we need to close modal or adjust selection based on calculated filtered tabs
-        if (filteredTabsAfterRemoval.length === 0) {
-          // No tabs left, close modal
-          closeModal()
-        } else {
-          // Adjust selection index to stay within bounds after removal
-          const minSelectedIndex = Math.min(...selectedIndices)
-          const newIndex = Math.min(minSelectedIndex, filteredTabsAfterRemoval.length - 1)
-          setSelectedTab(Math.max(0, newIndex))
-        }
-
-        // Close all selected browser tabs
-        tabsToDelete.forEach((tab) => {
-          closeTab(tab.id).catch((err) => {
-            keyboardLogger.error(`Failed to close tab ${tab.id}:`, err)
-          })
-        })
-
-        keyboardLogger.info(`Batch deleted ${tabsToDelete.length} tabs in visual mode`)
-      }
-      return
-    }
+  const newIndex = moveInList(
+    motion,
+    { index: get(selectedTabIndex), rows, pageRows: visibleRows() },
+    count
+  )
+  setSelectedTab(newIndex)
+  if (get(inputMode) === 'visual') {
+    updateVisualCursor(newIndex)
   }
+}
 
-  // Handle batch harpoon deletion in visual mode (dd command)
-  if (currentIsModalOpen && get(inputMode) === 'visual' && get(modalMode) === 'harpoon') {
-    if (checkDeleteSequence(last2)) {
-      event.preventDefault()
-      clearKeyBuffer()
-
-      const filteredTabs = get(filteredTabsFromSearch)
-      const selectedIndices = get(visualSelectionIndices)
-
-      if (selectedIndices.length > 0) {
-        // Show visual feedback
-        triggerBorderFlash()
+function enterInsertMode() {
+  clearVisualSelection()
+  switchToInsertMode()
 
-        // Get all tabs to be removed from harpoon
-        const tabsToRemove = selectedIndices
-          .map((index) => filteredTabs[index])
-          .filter((tab) => tab) // Filter out any undefined tabs
-
-        if (tabsToRemove.length === 0) {
-          return
-        }
-
-        // Optimistically remove all selected tabs from UI immediately for responsive feedback
-        tabsToRemove.forEach((tab) => {
-          removeTabOptimistically(tab.id)
-        })
-
-        // Clear visual selection and return to normal mode
-        clearVisualSelection()
-        switchToNormalMode()
-
-        // Check if we need to close modal or adjust selection immediately after optimistic removal
-        const newFilteredTabs = get(filteredTabsFromSearch)
-        if (newFilteredTabs.length === 0) {
-          // No tabs left, close modal
-          closeModal()
-        } else {
-          // Adjust selection index to stay within bounds
-          const minSelectedIndex = Math.min(...selectedIndices)
-          const newIndex = Math.min(minSelectedIndex, newFilteredTabs.length - 1)
-          setSelectedTab(Math.max(0, newIndex))
-        }
-
-        // Remove all selected tabs from harpoon in the background (sequentially to avoid race conditions)
-        const removeTabsSequentially = async () => {
-          for (const tab of tabsToRemove) {
-            try {
-              await removeTabFromHarpoonById(tab.id)
-            } catch (err) {
-              harpoonLogger.error(`Failed to remove tab ${tab.id} from harpoon:`, err)
-            }
-          }
-        }
-
-        // Fire and forget - let it run in the background
-        removeTabsSequentially().catch((err) => {
-          harpoonLogger.error('Failed to remove tabs from harpoon:', err)
-        })
-
-        harpoonLogger.info(`Batch removed ${tabsToRemove.length} tabs from harpoon in visual mode`)
-      }
-      return
-    }
+  const searchBar = getSearchBar()
+  if (searchBar) {
+    searchBar.focus()
   }
+}
 
-  // Check for harpoon add (now uses 3-key sequence: space h a)
-  if (checkHarpoonAdd(last3) && commandsAllowed) {
-    event.preventDefault()
-    clearKeyBuffer()
-    hideWhichKey()
+function enterNormalMode() {
+  clearVisualSelection()
+  switchToNormalMode()
+}
+
+function enterVisualMode() {
+  startVisualSelection(get(selectedTabIndex))
+  switchToVisualMode()
+}
 
-    // Show immediate feedback
-    showHarpoonIndicatorLoading()
-    triggerBorderFlash()
-
-    addTabToHarpoon()
-      .then((response: { message: string; harpoonIndex?: number }) => {
-        // Update indicator immediately with the index from the response
-        if (response && typeof response.harpoonIndex === 'number' && response.harpoonIndex >= 0) {
-          updateHarpoonIndicator(response.harpoonIndex)
-        }
-      })
-      .catch((err) => {
-        harpoonLogger.error('Failed to add tab to harpoon:', err)
-        hideHarpoonIndicator()
-      })
+// Mark the row under the cursor for batch actions, then move by the given motion
+function markRow(motion?: string) {
+  if (!getPickerSource(get(modalMode)).markable) {
     return
   }
 
-  // Check for harpoon remove (now uses 3-key sequence: space h r)
-  if (checkHarpoonRemove(last3) && commandsAllowed) {
-    event.preventDefault()
-    clearKeyBuffer()
-    hideWhichKey()
+  const tab = get(filteredTabsFromSearch)[get(selectedTabIndex)]?.tab
+  if (tab) {
+    toggleMark(tab)
+  }
+  if (motion) {
+    moveCursor(motion)
+  }
+}
 
-    // Show immediate feedback
-    triggerBorderFlash()
-    hideHarpoonIndicator()
+function addCurrentTabToHarpoon() {
+  // Show immediate feedback
+  showHarpoonIndicatorLoading()
+  triggerBorderFlash()
 
-    removeTabFromHarpoon().catch((err) => {
-      harpoonLogger.error('Failed to remove tab from harpoon:', err)
+  addTabToHarpoon()
+    .then((response: { message: string; harpoonIndex?: number }) => {
+      // Update indicator immediately with the index from the response
+      if (response && typeof response.harpoonIndex === 'number' && response.harpoonIndex >= 0) {
+        updateHarpoonIndicator(response.harpoonIndex)
+      }
+    })
+    .catch((err) => {
+      harpoonLogger.error('Failed to add tab to harpoon:', err)
       hideHarpoonIndicator()
     })
-    return
-  }
-
-  // Check for harpoon switch
-  const harpoonIndex = checkHarpoonSwitch(last2)
-  if (harpoonIndex !== null && commandsAllowed) {
-    event.preventDefault()
-    hideWhichKey()
+}
 
-    showTabSwitchLoading()
-    getHarpoonTabs()
-      .then((tabs) => {
-        if (tabs[harpoonIndex]) {
-          return switchToTab(tabs[harpoonIndex].id)
-        } else {
-          hideLoading()
-          harpoonLogger.warn(`No harpoon tab at index ${harpoonIndex + 1}`)
-        }
-      })
-      .then(() => {
-        hideLoading()
-      })
-      .catch((error) => {
-        hideLoading()
-        harpoonLogger.error('Error switching to harpoon tab:', error)
-      })
-    return
-  }
+function removeCurrentTabFromHarpoon() {
+  // Show immediate feedback
+  triggerBorderFlash()
+  hideHarpoonIndicator()
 
-  // Check for last tab (space l)
-  if (checkLastTab(last2) && commandsAllowed) {
-    event.preventDefault()
-    clearKeyBuffer()
-    hideWhichKey()
+  removeTabFromHarpoon().catch((err) => {
+    harpoonLogger.error('Failed to remove tab from harpoon:', err)
+    hideHarpoonIndicator()
+  })
+}
 
-    showTabSwitchLoading()
-    switchToLastBuffer()
-      .then(() => {
-        hideLoading()
-      })
-      .catch((error) => {
+function switchToHarpoonSlot(harpoonIndex: number) {
+  showTabSwitchLoading()
+  getHarpoonTabs()
+    .then((tabs) => {
+      if (tabs[harpoonIndex]) {
+        return switchToTab(tabs[harpoonIndex].id)
+      } else {
         hideLoading()
-        keyboardLogger.error('Error switching to last tab:', error)
-      })
-    return
-  }
+        harpoonLogger.warn(`No harpoon tab at index ${harpoonIndex + 1}`)
+      }
+    })
+    .then(() => {
+      hideLoading()
+    })
+    .catch((error) => {
+      hideLoading()
+      harpoonLogger.error('Error switching to harpoon tab:', error)
+    })
+}
 
-  // Clean up key buffer if it gets too long
-  if (currentKeyBuffer.length > 10) {
-    clearKeyBuffer()
-  }
+function switchToLastTab() {
+  showTabSwitchLoading()
+  switchToLastBuffer()
+    .then(() => {
+      hideLoading()
+    })
+    .catch((error) => {
+      hideLoading()
+      keyboardLogger.error('Error switching to last tab:', error)
+    })
+}
+
+// Undo the last close from the modal; the list picks the tabs up as they reopen
+function reopenClosedTabs() {
+  undoCloseTabs()
+    .then((reopened) => {
+      if (reopened > 0) {
+        triggerBorderFlash()
+      } else {
+        keyboardLogger.info('No closed tabs to reopen')
+      }
+    })
+    .catch((error) => {
+      keyboardLogger.error('Failed to reopen closed tabs:', error)
+    })
 }
@@ -0,0 +1,520 @@
+import type { InputMode } from '../types/shared.js'
+
+// The page with the modal closed, or one of the modal's input modes
+export type KeymapMode = 'page' | InputMode
+
+export const KEYMAP_MODES: KeymapMode[] = ['page', 'insert', 'normal', 'visual']
+
+// Key sequences in key notation, each mapped to the name of the command it runs
+export type ModeBindings = Record<string, string>
+
+/**
+ * Changes to the built-in keymap from the settings: another leader, how long to wait for
+ * the rest of a sequence, and per mode, key sequences mapped to a command, or to null to
+ * remove the built-in binding
+ */
+export type KeymapOverrides = {
+  leader?: string
+  timeoutlen?: number
+  bindings?: Partial<Record<KeymapMode, Record<string, string | null>>>
+}
+
+export const DEFAULT_LEADER = '<Space>'
+
+// Milliseconds to wait for the next key of a sequence, as vim's 'timeoutlen'
+export const DEFAULT_TIMEOUTLEN = 1000
+
+/**
+ * Built-in bindings that don't belong to a picker. Pickers add the keys that open them
+ * (page mode, after the leader) and their own bindings, which run `<picker>:<action>`.
+ */
+export const DEFAULT_BINDINGS: Record<KeymapMode, ModeBindings> = {
+  page: {
+    '<leader>ha': 'harpoon.add',
+    '<leader>hr': 'harpoon.remove',
+    '<leader>l': 'tab.last',
+    ...harpoonSlotBindings()
+  },
+  insert: {
+    '<Esc>': 'mode.normal',
+    '<CR>': 'list.open',
+    '<Down>': 'list.down',
+    '<Up>': 'list.up',
+    '<Tab>': 'mark.next',
+    '<S-Tab>': 'mark.previous'
+  },
+  normal: {
+    '<Esc>': 'modal.close',
+    '<CR>': 'list.open',
+    j: 'list.down',
+    k: 'list.up',
+    '<Down>': 'list.down',
+    '<Up>': 'list.up',
+    gg: 'list.top',
+    G: 'list.bottom',
+    '<C-d>': 'list.halfPageDown',
+    '<C-u>': 'list.halfPageUp',
+    i: 'mode.insert',
+    I: 'mode.insert',
+    a: 'mode.insert',
+    A: 'mode.insert',
+    v: 'mode.visual',
+    V: 'mode.visual',
+    m: 'mark.toggle',
+    u: 'tab.undoClose',
+    // Harpoon works from the list too
+    '<leader>ha': 'harpoon.add',
+    '<leader>hr': 'harpoon.remove',
+    '<leader>l': 'tab.last',
+    ...harpoonSlotBindings()
+  },
+  visual: {
+    '<Esc>': 'mode.normal',
+    '<CR>': 'list.open',
+    j: 'list.down',
+    k: 'list.up',
+    '<Down>': 'list.down',
+    '<Up>': 'list.up',
+    gg: 'list.top',
+    G: 'list.bottom',
+    '<C-d>': 'list.halfPageDown',
+    '<C-u>': 'list.halfPageUp'
+  }
+}
+
+/**
+ * Which-key names of key sequences that start several bindings. Prefixes without a name
+ * are listed as "+prefix".
+ */
+export const KEY_GROUPS: Record<KeymapMode, ModeBindings> = {
+  page: { '<leader>h': 'harpoon' },
+  insert: {},
+  normal: { '<leader>h': 'harpoon', d: 'delete', g: 'go to', y: 'yank', z: 'fold' },
+  visual: { d: 'delete', g: 'go to', h: 'harpoon', w: 'window', y: 'yank' }
+}
+
+// Which-key descriptions of the built-in commands; pickers describe their own
+export const COMMAND_DESCRIPTIONS: Record<string, string> = {
+  'harpoon.add': 'add to [H]arpoon',
+  'harpoon.remove': 'remove from [H]arpoon',
+  ...Object.fromEntries(
+    [1, 2, 3, 4, 5, 6, 7, 8, 9].map((slot) => [`harpoon.${slot}`, `[H]arpoon ${slot}`])
+  ),
+  'tab.last': '[L]ast tab',
+  'tab.undoClose': 'undo close',
+  'list.down': 'down',
+  'list.up': 'up',
+  'list.top': 'top',
+  'list.bottom': 'bottom',
+  'list.halfPageDown': 'half a page down',
+  'list.halfPageUp': 'half a page up',
+  'list.open': 'open',
+  'modal.close': 'close',
+  'mode.insert': 'insert mode',
+  'mode.normal': 'normal mode',
+  'mode.visual': 'visual mode',
+  'mark.toggle': 'mark',
+  'mark.next': 'mark and move up',
+  'mark.previous': 'mark and move down'
+}
+
+function harpoonSlotBindings(): ModeBindings {
+  return Object.fromEntries(
+    [1, 2, 3, 4, 5, 6, 7, 8, 9].map((slot) => [`<leader>${slot}`, `harpoon.${slot}`])
+  )
+}
+
+// Names of keys that aren't a single character, as KeyboardEvent.key spells them
+const NAMED_KEYS: Record<string, string> = {
+  ' ': 'Space',
+  '<': 'lt',
+  Escape: 'Esc',
+  Enter: 'CR',
+  Tab: 'Tab',
+  Backspace: 'BS',
+  Delete: 'Del',
+  ArrowDown: 'Down',
+  ArrowUp: 'Up',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown'
+}
+
+// Spellings accepted in the settings for the names above
+const KEY_NAME_ALIASES: Record<string, string> = {
+  ...Object.fromEntries(Object.values(NAMED_KEYS).map((name) => [name.toLowerCase(), name])),
+  escape: 'Esc',
+  enter: 'CR',
+  return: 'CR',
+  backspace: 'BS',
+  delete: 'Del',
+  leader: 'leader'
+}
+
+// Modifiers in the order keys spell them: Ctrl, Alt, Meta, Shift
+const MODIFIER_ORDER = ['C', 'A', 'M', 'S']
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'AltGraph', 'OS'])
+
+/**
+ * The key an event stands for in key notation: the character itself ('j', 'G', '?'), or
+ * a name in angle brackets ('<Esc>', '<C-a>', '<S-Tab>'). Null for a modifier on its own.
+ */
+export function keyFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) {
+    return null
+  }
+
+  const named = NAMED_KEYS[event.key]
+  // Shift is already part of a character ('G', '?'); named keys spell it out
+  const modifiers = [
+    event.ctrlKey && 'C',
+    event.altKey && 'A',
+    event.metaKey && 'M',
+    named && event.shiftKey && 'S'
+  ].filter(Boolean)
+
+  if (modifiers.length === 0) {
+    return named ? `<${named}>` : event.key
+  }
+  return `<${modifiers.join('-')}-${named ?? event.key}>`
+}
+
+/**
+ * Split a key sequence in key notation into keys, spelling each the way keyFromEvent does.
+ * Throws on names it doesn't know, so typos in the settings are reported.
+ */
+export function parseKeys(notation: string): string[] {
+  const keys = notation.match(/<[^<>\s]+>|[\s\S]/gu) ?? []
+  return keys.map((key) => {
+    if (key.length === 1) {
+      return NAMED_KEYS[key] ? `<${NAMED_KEYS[key]}>` : key
+    }
+
+    const parts = key.slice(1, -1).split('-')
+    let name = parts.pop()!
+    const modifiers = new Set(parts.map((modifier) => modifier.toUpperCase()))
+    if ([...modifiers].some((modifier) => !MODIFIER_ORDER.includes(modifier))) {
+      throw new Error(`Unknown modifier in "${key}"`)
+    }
+
+    if (name.length === 1) {
+      // As with events, Shift is part of the character
+      if (modifiers.delete('S')) {
+        name = name.toUpperCase()
+      }
+    } else {
+      name = KEY_NAME_ALIASES[name.toLowerCase()]
+      if (!name) {
+        throw new Error(`Unknown key "${key}"`)
+      }
+    }
+
+    const ordered = MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier))
+    if (ordered.length === 0) {
+      return name.length === 1 ? name : `<${name}>`
+    }
+    return `<${[...ordered, name].join('-')}>`
+  })
+}
+
+// One node of a mode's keymap: the command its keys run, and the keys that can follow
+export type KeymapNode = {
+  command?: string
+  // Which-key name of the bindings below, for prefixes in KEY_GROUPS
+  group?: string
+  next: Map<string, KeymapNode>
+}
+
+// Count is the number typed before the keys, like the 3 of 3dd
+export type KeyMatch =
+  | { kind: 'command'; command: string; count?: number }
+  // The keys start one or more sequences; more keys are needed, or the node's own command
+  // runs once no more come
+  | { kind: 'prefix'; node: KeymapNode; count?: number }
+  | { kind: 'none' }
+
+/**
+ * The bindings of one mode as a trie of keys. `<leader>` stands for the leader's keys.
+ * Groups name the prefixes the bindings make; groups without bindings are left out.
+ */
+export function buildKeymapTrie(
+  bindings: ModeBindings,
+  leader: string[],
+  groups: ModeBindings = {}
+): KeymapNode {
+  const root: KeymapNode = { next: new Map() }
+
+  for (const [notation, command] of Object.entries(bindings)) {
+    let node = root
+    for (const key of expandLeader(parseKeys(notation), leader)) {
+      let child = node.next.get(key)
+      if (!child) {
+        child = { next: new Map() }
+        node.next.set(key, child)
+      }
+      node = child
+    }
+    node.command = command
+  }
+
+  for (const [notation, group] of Object.entries(groups)) {
+    const node = expandLeader(parseKeys(notation), leader).reduce<KeymapNode | undefined>(
+      (parent, key) => parent?.next.get(key),
+      root
+    )
+    if (node && node !== root) {
+      node.group = group
+    }
+  }
+
+  return root
+}
+
+function expandLeader(keys: string[], leader: string[]): string[] {
+  return keys.flatMap((key) => (key === '<leader>' ? leader : [key]))
+}
+
+/**
+ * What the keys typed so far run. A sequence that is also the start of longer ones is a
+ * prefix, like in vim. With ignoreCase, letters that aren't bound match in the other case
+ * too; with counts, digits before a sequence are its count.
+ */
+export function matchKeys(
+  root: KeymapNode,
+  keys: string[],
+  { ignoreCase = false, counts = false }: { ignoreCase?: boolean; counts?: boolean } = {}
+): KeyMatch {
+  const { count, rest } = counts ? splitCount(root, keys) : { count: undefined, rest: keys }
+  if (count !== undefined && rest.length === 0) {
+    // Only a count so far; the sequence it counts comes next
+    return { kind: 'prefix', node: root, count }
+  }
+
+  let node = root
+  for (const key of rest) {
+    const next = node.next.get(key) ?? (ignoreCase ? node.next.get(otherCase(key)) : undefined)
+    if (!next) {
+      return { kind: 'none' }
+    }
+    node = next
+  }
+
+  if (node === root) {
+    return { kind: 'none' }
+  }
+  if (node.command && node.next.size === 0) {
+    return { kind: 'command', command: node.command, count }
+  }
+  return { kind: 'prefix', node, count }
+}
+
+// Leading digits as a count; 0 can't start one, and digits bound on their own aren't one
+function splitCount(root: KeymapNode, keys: string[]): { count?: number; rest: string[] } {
+  let digits = 0
+  while (
+    digits < keys.length &&
+    /^\d$/.test(keys[digits]) &&
+    !(digits === 0 && keys[0] === '0') &&
+    !root.next.has(keys[digits])
+  ) {
+    digits++
+  }
+
+  if (digits === 0) {
+    return { rest: keys }
+  }
+  return { count: Number(keys.slice(0, digits).join('')), rest: keys.slice(digits) }
+}
+
+// The cursor in the list; rows are numbered from the bottom, next to the search bar
+export type ListPosition = {
+  index: number
+  rows: number
+  // Rows that fit in the list at once
+  pageRows: number
+}
+
+const LIST_MOTIONS: Record<string, (position: ListPosition, count?: number) => number> = {
+  'list.down': ({ index }, count = 1) => index - count,
+  'list.up': ({ index }, count = 1) => index + count,
+  // With a count, to that row from the top, as vim's 5gg and 5G
+  'list.top': ({ rows }, count) => rows - (count ?? 1),
+  'list.bottom': ({ rows }, count) => (count === undefined ? 0 : rows - count),
+  'list.halfPageDown': ({ index, pageRows }) => index - Math.max(1, Math.floor(pageRows / 2)),
+  'list.halfPageUp': ({ index, pageRows }) => index + Math.max(1, Math.floor(pageRows / 2))
+}
+
+export function isListMotion(command: string): boolean {
+  return command in LIST_MOTIONS
+}
+
+/**
+ * The row a list motion moves the cursor to, stopping at the ends of the list
+ */
+export function moveInList(command: string, position: ListPosition, count?: number): number {
+  const target = LIST_MOTIONS[command]?.(position, count) ?? position.index
+  return Math.min(Math.max(target, 0), Math.max(position.rows - 1, 0))
+}
+
+/**
+ * Rows a counted operator works on, as the 3 lines of 3dd: the cursor's and those below
+ * it, as far as the list goes
+ */
+export function countedRows(index: number, count: number): number[] {
+  return Array.from({ length: Math.min(count, index + 1) }, (_, offset) => index - offset)
+}
+
+function otherCase(key: string): string {
+  return key === key.toLowerCase() ? key.toUpperCase() : key.toLowerCase()
+}
+
+/**
+ * Which-key hints for the keys that can follow a prefix: the description of the command
+ * each runs, or the name of the group it starts. Digits that run the same command on
+ * their number are listed once, e.g. '1-9'.
+ */
+export function keymapHints(
+  node: KeymapNode,
+  describe: (command: string) => string
+): Array<{ key: string; description: string }> {
+  const hints: Array<{ key: string; description: string; template?: string; last?: string }> = []
+
+  for (const [key, child] of node.next) {
+    const description = child.command ? describe(child.command) : `+${child.group ?? 'prefix'}`
+    const template =
+      /^\d$/.test(key) && description.includes(key) ? description.replace(key, '#') : undefined
+
+    const previous = hints.at(-1)
+    if (template && previous?.template === template && Number(key) === Number(previous.last) + 1) {
+      previous.last = key
+      continue
+    }
+    hints.push({ key, description, template, last: key })
+  }
+
+  return hints.map(({ key, description, template, last }) =>
+    template && last !== key
+      ? { key: `${key}-${last}`, description: template.replace('#', `[${key}-${last}]`) }
+      : { key, description }
+  )
+}
+
+/**
+ * The bindings of one mode: the built-in ones and the given picker bindings, changed by
+ * the user's overrides. Commands of other pickers than the given one are left out.
+ */
+export function resolveModeBindings(
+  mode: KeymapMode,
+  pickerBindings: ModeBindings,
+  overrides: KeymapOverrides,
+  picker: string | null
+): ModeBindings {
+  // Keyed by the keys in canonical notation, so '<space>' overrides '<Space>'
+  const bindings = new Map<string, string>()
+  const canonical = (notation: string) => parseKeys(notation).join('')
+  const ownCommand = (command: string) => !command.includes(':') || command.startsWith(`${picker}:`)
+
+  // Picker bindings come first, so which-key lists the pickers before the rest
+  for (const [notation, command] of Object.entries(pickerBindings)) {
+    bindings.set(canonical(notation), command)
+  }
+  for (const [notation, command] of Object.entries(DEFAULT_BINDINGS[mode])) {
+    if (!bindings.has(canonical(notation))) {
+      bindings.set(canonical(notation), command)
+    }
+  }
+
+  for (const [notation, command] of Object.entries(overrides.bindings?.[mode] ?? {})) {
+    if (command === null) {
+      bindings.delete(canonical(notation))
+    } else if (ownCommand(command)) {
+      bindings.set(canonical(notation), command)
+    }
+  }
+
+  return Object.fromEntries([...bindings].filter(([, command]) => ownCommand(command)))
+}
+
+/**
+ * Check overrides read from the settings; returns what's wrong with them, or null. Commands
+ * must be built in; picker commands (`picker.links`, `links:copyUrl`) are only checked with
+ * isPickerCommand, where the pickers are registered.
+ */
+export function validateKeymapOverrides(
+  value: unknown,
+  isPickerCommand?: (command: string) => boolean
+): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'The keymap must be an object'
+  }
+
+  const { leader, timeoutlen, bindings, ...rest } = value as Record<string, unknown>
+  const unknownFields = Object.keys(rest)
+  if (unknownFields.length > 0) {
+    return `Unknown field "${unknownFields[0]}" (expected "leader", "timeoutlen" and "bindings")`
+  }
+
+  if (timeoutlen !== undefined && !(Number.isInteger(timeoutlen) && (timeoutlen as number) > 0)) {
+    return '"timeoutlen" must be a number of milliseconds'
+  }
+
+  try {
+    if (leader !== undefined) {
+      if (typeof leader !== 'string' || parseKeys(leader).length === 0) {
+        return 'The leader must be a key, e.g. "<Space>" or ","'
+      }
+      if (parseKeys(leader).includes('<leader>')) {
+        return 'The leader cannot contain <leader>'
+      }
+    }
+
+    if (bindings === undefined) {
+      return null
+    }
+    if (typeof bindings !== 'object' || bindings === null || Array.isArray(bindings)) {
+      return '"bindings" must map modes to key bindings'
+    }
+
+    for (const [mode, modeBindings] of Object.entries(bindings)) {
+      if (!KEYMAP_MODES.includes(mode as KeymapMode)) {
+        return `Unknown mode "${mode}" (expected ${KEYMAP_MODES.join(', ')})`
+      }
+      if (
+        typeof modeBindings !== 'object' ||
+        modeBindings === null ||
+        Array.isArray(modeBindings)
+      ) {
+        return `Bindings of ${mode} mode must map keys to commands`
+      }
+      for (const [keys, command] of Object.entries(modeBindings)) {
+        if (parseKeys(keys).length === 0) {
+          return `Empty key sequence in ${mode} mode`
+        }
+        if (command !== null && typeof command !== 'string') {
+          return `"${keys}" in ${mode} mode must map to a command name or null`
+        }
+        if (typeof command === 'string' && !isKnownCommand(command, isPickerCommand)) {
+          return `Unknown command "${command}" for "${keys}" in ${mode} mode`
+        }
+      }
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+
+  return null
+}
+
+function isKnownCommand(command: string, isPickerCommand?: (command: string) => boolean) {
+  if (command in COMMAND_DESCRIPTIONS) {
+    return true
+  }
+  if (command.startsWith('picker.') || command.includes(':')) {
+    return isPickerCommand?.(command) ?? true
+  }
+  return false
+}
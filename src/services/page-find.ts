@@ -0,0 +1,214 @@
+import type { PageBlock } from '../types/shared.js'
+import { flashElement, isVisible } from '../utils/html-utils.js'
+import { parsePattern, matchTerm, toMatchRanges } from './fuzzy-matcher.js'
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote'
+// Neighbouring blocks shown around a result
+const CONTEXT_BLOCKS = 2
+// Keeps huge pages (e.g. long logs) and walls of text cheap to match
+const MAX_BLOCKS = 5000
+const MAX_BLOCK_LENGTH = 500
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6'
+const LANDMARK_SELECTOR = [
+  'main',
+  'nav',
+  'aside',
+  'header',
+  'footer',
+  'section[aria-label]',
+  'section[aria-labelledby]',
+  '[role="main"]',
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="search"]',
+  '[role="region"][aria-label]',
+  '[role="region"][aria-labelledby]'
+].join(', ')
+
+// Implicit ARIA roles of the landmark elements
+const IMPLICIT_ROLES: Record<string, string> = {
+  main: 'main',
+  nav: 'navigation',
+  aside: 'complementary',
+  header: 'banner',
+  footer: 'contentinfo',
+  section: 'region'
+}
+
+export type PageBlockResult = {
+  block: PageBlock
+  // Inclusive match ranges in the block text
+  indices: [number, number][]
+}
+
+type IndexEntry = {
+  element: HTMLElement
+  tag: string
+  text: string
+  depth?: number
+}
+
+// Elements behind the last index, by PageBlock.index
+let indexedElements: HTMLElement[] = []
+
+/**
+ * Collect the visible text blocks of the current page in document order.
+ *
+ * Containers are skipped in favour of the blocks inside them, so a list item wrapping a
+ * paragraph is only listed once.
+ */
+export function indexPageBlocks(root: ParentNode = document): PageBlock[] {
+  const entries: IndexEntry[] = []
+
+  for (const element of Array.from(root.querySelectorAll<HTMLElement>(BLOCK_SELECTOR))) {
+    if (entries.length >= MAX_BLOCKS) break
+    if (element.querySelector(BLOCK_SELECTOR) || !isVisible(element)) continue
+
+    const text = getText(element)
+    if (text) {
+      entries.push({ element, tag: element.tagName.toLowerCase(), text })
+    }
+  }
+
+  return buildIndex(entries)
+}
+
+/**
+ * Collect the page's headings and ARIA landmarks in document order, as an outline.
+ * Headings are indented by level, relative to the page's top heading level.
+ */
+export function indexPageOutline(root: ParentNode = document): PageBlock[] {
+  const elements = Array.from(
+    root.querySelectorAll<HTMLElement>(`${HEADING_SELECTOR}, ${LANDMARK_SELECTOR}`)
+  ).filter(isVisible)
+
+  const headingLevels = elements
+    .filter((element) => element.matches(HEADING_SELECTOR))
+    .map(getHeadingLevel)
+  const topLevel = Math.min(...headingLevels, 6)
+
+  const entries: IndexEntry[] = []
+  for (const element of elements) {
+    if (entries.length >= MAX_BLOCKS) break
+
+    if (element.matches(HEADING_SELECTOR)) {
+      const text = getText(element)
+      if (text) {
+        entries.push({
+          element,
+          tag: element.tagName.toLowerCase(),
+          text,
+          depth: getHeadingLevel(element) - topLevel
+        })
+      }
+      continue
+    }
+
+    const role = getLandmarkRole(element)
+    if (role) {
+      entries.push({ element, tag: role, text: getAccessibleLabel(element) || role, depth: 0 })
+    }
+  }
+
+  return buildIndex(entries)
+}
+
+/**
+ * Fuzzy-search page blocks with the tab search syntax. Every term has to match; results
+ * are ranked by score, then by position on the page.
+ */
+export function searchPageBlocks(blocks: PageBlock[], query: string): PageBlockResult[] {
+  const terms = parsePattern(query)
+  if (terms.length === 0) {
+    return blocks.map((block) => ({ block, indices: [] }))
+  }
+
+  const scored: (PageBlockResult & { score: number })[] = []
+  for (const block of blocks) {
+    let score = 0
+    const positions: number[] = []
+
+    const matchesAll = terms.every((term) => {
+      const match = matchTerm(block.text, term)
+      if (!match) return false
+      score += match.score
+      positions.push(...match.positions)
+      return true
+    })
+
+    if (matchesAll) {
+      scored.push({ block, indices: toMatchRanges(positions), score })
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.block.index - b.block.index)
+    .map(({ block, indices }) => ({ block, indices }))
+}
+
+/**
+ * Scroll to an indexed block and flash it
+ */
+export function revealPageBlock(index: number): boolean {
+  const element = indexedElements[index]
+  if (!element?.isConnected) {
+    return false
+  }
+
+  element.scrollIntoView({ block: 'center' })
+  flashElement(element)
+  return true
+}
+
+function buildIndex(entries: IndexEntry[]): PageBlock[] {
+  indexedElements = entries.map((entry) => entry.element)
+  const texts = entries.map((entry) => entry.text)
+
+  return entries.map(({ tag, text, depth }, index) => ({
+    index,
+    tag,
+    text,
+    ...(depth !== undefined && { depth }),
+    before: texts.slice(Math.max(0, index - CONTEXT_BLOCKS), index),
+    after: texts.slice(index + 1, index + 1 + CONTEXT_BLOCKS)
+  }))
+}
+
+function getText(element: HTMLElement): string {
+  const text = (element.innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim()
+  return text.length > MAX_BLOCK_LENGTH ? `${text.slice(0, MAX_BLOCK_LENGTH)}…` : text
+}
+
+function getHeadingLevel(element: HTMLElement): number {
+  return Number(element.tagName.slice(1))
+}
+
+function getLandmarkRole(element: HTMLElement): string | null {
+  const tag = element.tagName.toLowerCase()
+  const role = element.getAttribute('role') || IMPLICIT_ROLES[tag]
+
+  // header and footer are only page landmarks outside of sectioning content
+  if (
+    !element.hasAttribute('role') &&
+    (tag === 'header' || tag === 'footer') &&
+    element.parentElement?.closest('article, aside, main, nav, section')
+  ) {
+    return null
+  }
+
+  return role ?? null
+}
+
+function getAccessibleLabel(element: HTMLElement): string {
+  const label = element.getAttribute('aria-label')?.trim()
+  if (label) {
+    return label
+  }
+
+  const labelledBy = element.getAttribute('aria-labelledby')
+  const labelElement = labelledBy ? document.getElementById(labelledBy.split(/\s+/)[0]) : null
+  return labelElement ? getText(labelElement) : ''
+}
@@ -0,0 +1,171 @@
+import type { GrepMatch } from '../types/shared.js'
+import { flashElement, isVisible } from '../utils/html-utils.js'
+
+export type GrepOptions = {
+  // Stop after this many matching lines
+  maxMatches?: number
+}
+
+const DEFAULT_MAX_MATCHES = 20
+// Lines of context kept on each side of a match
+const CONTEXT_LINES = 2
+// Long lines (e.g. minified text blocks) are clipped around the match
+const MAX_LINE_LENGTH = 160
+
+/**
+ * Search text line by line for a literal query.
+ *
+ * Smart case like the tab search: the match is case sensitive only when the query has
+ * uppercase letters. Each matching line is reported once, at its first match.
+ */
+export function grepText(text: string, query: string, options: GrepOptions = {}): GrepMatch[] {
+  const needle = query.trim()
+  if (!needle) {
+    return []
+  }
+
+  const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES
+  const caseSensitive = isCaseSensitive(needle)
+  const normalizedNeedle = caseSensitive ? needle : needle.toLowerCase()
+  const lines = text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+
+  const matches: GrepMatch[] = []
+  // Matches seen so far across the page, counted the same way revealGrepMatch walks the DOM
+  let occurrence = 0
+
+  for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+    const line = lines[i]
+    const haystack = caseSensitive ? line : line.toLowerCase()
+    const indices = findAll(haystack, normalizedNeedle)
+    if (indices.length === 0) {
+      continue
+    }
+
+    const clipped = clipAround(line, indices[0], needle.length)
+    matches.push({
+      query: needle,
+      line: clipped.text,
+      matchStart: indices[0] - clipped.offset,
+      matchEnd: indices[0] - clipped.offset + needle.length,
+      before: lines.slice(Math.max(0, i - CONTEXT_LINES), i).map(clipLine),
+      after: lines.slice(i + 1, i + 1 + CONTEXT_LINES).map(clipLine),
+      occurrence
+    })
+    occurrence += indices.length
+  }
+
+  return matches
+}
+
+/**
+ * Search the visible text of the current page
+ */
+export function grepPage(query: string, options: GrepOptions = {}): GrepMatch[] {
+  if (!document.body) {
+    return []
+  }
+  // innerText skips hidden elements and puts block elements on their own lines
+  return grepText(document.body.innerText ?? document.body.textContent ?? '', query, options)
+}
+
+/**
+ * Scroll to a match found by grepPage, select it and flash the element around it.
+ * Falls back to the first match if the page changed since it was searched.
+ */
+export function revealGrepMatch(match: Pick<GrepMatch, 'query' | 'occurrence'>): boolean {
+  const needle = match.query.trim()
+  if (!needle || !document.body) {
+    return false
+  }
+
+  const caseSensitive = isCaseSensitive(needle)
+  const normalizedNeedle = caseSensitive ? needle : needle.toLowerCase()
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      isVisibleText(node as Text) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT
+  })
+
+  let seen = 0
+  let first: { node: Text; index: number } | null = null
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    const data = caseSensitive ? node.data : node.data.toLowerCase()
+    for (const index of findAll(data, normalizedNeedle)) {
+      first ??= { node, index }
+      if (seen === match.occurrence) {
+        selectText(node, index, needle.length)
+        return true
+      }
+      seen++
+    }
+  }
+
+  if (first) {
+    selectText(first.node, first.index, needle.length)
+    return true
+  }
+  return false
+}
+
+function selectText(node: Text, start: number, length: number): void {
+  const range = document.createRange()
+  range.setStart(node, start)
+  range.setEnd(node, start + length)
+
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+
+  const element = node.parentElement
+  if (element) {
+    element.scrollIntoView({ block: 'center' })
+    flashElement(element)
+  }
+}
+
+function isVisibleText(node: Text): boolean {
+  const element = node.parentElement
+  if (!element || ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(element.tagName)) {
+    return false
+  }
+  return isVisible(element)
+}
+
+// Non-overlapping, like the browser's find-in-page
+function findAll(haystack: string, needle: string): number[] {
+  const indices: number[] = []
+  let index = haystack.indexOf(needle)
+  while (index !== -1) {
+    indices.push(index)
+    index = haystack.indexOf(needle, index + needle.length)
+  }
+  return indices
+}
+
+function isCaseSensitive(query: string): boolean {
+  return query !== query.toLowerCase()
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line
+}
+
+// Keep the match in view, with some text before it for context
+function clipAround(line: string, index: number, length: number): { text: string; offset: number } {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return { text: line, offset: 0 }
+  }
+
+  const start = Math.max(0, Math.min(index - 40, line.length - MAX_LINE_LENGTH))
+  const end = Math.max(start + MAX_LINE_LENGTH, index + length)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < line.length ? '…' : ''
+  return {
+    text: `${prefix}${line.slice(start, end)}${suffix}`,
+    offset: start - prefix.length
+  }
+}
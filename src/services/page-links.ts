@@ -0,0 +1,111 @@
+import type { PageLink, SearchableTab } from '../types/shared.js'
+import { isVisible } from '../utils/html-utils.js'
+import { searchTabs, type SearchResult } from './search.js'
+
+const CONTEXT_SELECTOR = 'p, li, td, th, dd, dt, h1, h2, h3, h4, h5, h6, blockquote, figcaption'
+const MAX_LINKS = 5000
+const MAX_CONTEXT_LENGTH = 300
+
+// Links are searched like tabs: the link text stands in for the title
+export type SearchableLink = SearchableTab & { link: PageLink }
+
+// Elements behind the last collection, by PageLink.index
+let collectedElements: HTMLAnchorElement[] = []
+
+/**
+ * Collect the visible links of the current page in document order
+ */
+export function collectPageLinks(root: ParentNode = document): PageLink[] {
+  const links: PageLink[] = []
+  collectedElements = []
+
+  for (const anchor of Array.from(root.querySelectorAll<HTMLAnchorElement>('a[href]'))) {
+    if (links.length >= MAX_LINKS) break
+    // javascript: links only make sense as clicks in place, and aren't URLs worth copying
+    if (!/^https?:|^file:|^mailto:/i.test(anchor.href) || !isVisible(anchor)) continue
+
+    links.push({
+      index: links.length,
+      text: getLinkText(anchor) || anchor.href,
+      url: anchor.href,
+      onScreen: isOnScreen(anchor),
+      context: getContext(anchor)
+    })
+    collectedElements.push(anchor)
+  }
+
+  return links
+}
+
+/**
+ * Search links by text and URL with the tab search syntax. Without a query, links that are
+ * on screen come first.
+ */
+export function searchPageLinks(links: PageLink[], query: string): SearchResult<SearchableLink>[] {
+  const searchable: SearchableLink[] = links.map((link) => ({
+    id: link.index,
+    title: link.text,
+    url: link.url,
+    windowId: -1,
+    link
+  }))
+
+  if (!query.trim()) {
+    return searchable
+      .map((item, refIndex) => ({ item, refIndex, score: 0, matches: [] }))
+      .sort((a, b) => Number(b.item.link.onScreen) - Number(a.item.link.onScreen) || a.refIndex - b.refIndex)
+  }
+
+  return searchTabs(searchable, query)
+}
+
+/**
+ * Follow a collected link in the current tab. Clicking the element keeps single-page app
+ * routing and the link's own target working.
+ */
+export function followPageLink(link: PageLink): void {
+  const anchor = collectedElements[link.index]
+  if (anchor?.isConnected && anchor.href === link.url) {
+    anchor.click()
+  } else {
+    window.location.assign(link.url)
+  }
+}
+
+function getLinkText(anchor: HTMLAnchorElement): string {
+  const text = collapse(anchor.innerText ?? anchor.textContent ?? '')
+  if (text) {
+    return text
+  }
+
+  // Icon and image links
+  const image = anchor.querySelector('img[alt]')
+  return collapse(
+    anchor.getAttribute('aria-label') || anchor.title || image?.getAttribute('alt') || ''
+  )
+}
+
+function getContext(anchor: HTMLAnchorElement): string {
+  const block = anchor.parentElement?.closest<HTMLElement>(CONTEXT_SELECTOR)
+  if (!block) {
+    return ''
+  }
+  const text = collapse(block.innerText ?? block.textContent ?? '')
+  return text.length > MAX_CONTEXT_LENGTH ? `${text.slice(0, MAX_CONTEXT_LENGTH)}…` : text
+}
+
+function isOnScreen(element: HTMLElement): boolean {
+  const rect = element.getBoundingClientRect()
+  return (
+    rect.bottom > 0 &&
+    rect.right > 0 &&
+    rect.top < window.innerHeight &&
+    rect.left < window.innerWidth &&
+    rect.width > 0 &&
+    rect.height > 0
+  )
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
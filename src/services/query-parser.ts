@@ -0,0 +1,183 @@
+import { isExtensibleTerm } from './fuzzy-matcher.js'
+
+/**
+ * Small query language for the tab picker.
+ *
+ * Supported tokens (combine freely, separated by spaces):
+ * - `d:github.com` / `domain:` - only tabs whose hostname contains the value
+ * - `w:123` / `window:` - only tabs in the given window
+ * - `h:` / `harpoon:` - only harpooned tabs
+ * - `g:work` / `group:` - only tabs in a tab group whose name contains the value; a bare `g:`
+ *   keeps every grouped tab
+ * - `t:pull` / `title:` - fuzzy match against the title only
+ * - `u:issues` / `url:` - fuzzy match against the URL only
+ * - `-foo` - exclude tabs whose title or URL contains "foo"
+ *
+ * Everything else is free text, fuzzy matched against both title and URL
+ * (see fuzzy-matcher.ts for the `'exact`, `^prefix` and `suffix$` term syntax).
+ */
+export type ParsedQuery = {
+  text: string
+  titleTerms: string[]
+  urlTerms: string[]
+  domains: string[]
+  windowIds: number[]
+  // Lowercase group names to look for; '' matches any group
+  groups: string[]
+  harpoonOnly: boolean
+  excludes: string[]
+}
+
+const OPERATOR_ALIASES: Record<
+  string,
+  'domain' | 'window' | 'group' | 'harpoon' | 'title' | 'url'
+> = {
+  d: 'domain',
+  domain: 'domain',
+  w: 'window',
+  window: 'window',
+  g: 'group',
+  group: 'group',
+  h: 'harpoon',
+  harpoon: 'harpoon',
+  t: 'title',
+  title: 'title',
+  u: 'url',
+  url: 'url'
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    text: '',
+    titleTerms: [],
+    urlTerms: [],
+    domains: [],
+    windowIds: [],
+    groups: [],
+    harpoonOnly: false,
+    excludes: []
+  }
+
+  const freeText: string[] = []
+
+  for (const token of query.trim().split(/\s+/)) {
+    if (!token) continue
+
+    // Exclusions: a lone "-" is treated as text so URLs with dashes still work
+    if (token.startsWith('-') && token.length > 1) {
+      parsed.excludes.push(token.slice(1).toLowerCase())
+      continue
+    }
+
+    const separator = token.indexOf(':')
+    const operator = separator > 0 ? OPERATOR_ALIASES[token.slice(0, separator).toLowerCase()] : undefined
+
+    if (!operator) {
+      freeText.push(token)
+      continue
+    }
+
+    const value = token.slice(separator + 1)
+
+    switch (operator) {
+      case 'harpoon':
+        parsed.harpoonOnly = true
+        break
+
+      case 'domain':
+        if (value) parsed.domains.push(value.toLowerCase())
+        break
+
+      case 'window': {
+        const windowId = parseInt(value, 10)
+        if (!isNaN(windowId)) parsed.windowIds.push(windowId)
+        break
+      }
+
+      case 'group':
+        parsed.groups.push(value.toLowerCase())
+        break
+
+      case 'title':
+        if (value) parsed.titleTerms.push(value)
+        break
+
+      case 'url':
+        if (value) parsed.urlTerms.push(value)
+        break
+    }
+  }
+
+  parsed.text = freeText.join(' ')
+  return parsed
+}
+
+/**
+ * True when the query contains something to fuzzy match on (as opposed to filters only)
+ */
+export function hasFuzzyTerms(parsed: ParsedQuery): boolean {
+  return parsed.text.length > 0 || parsed.titleTerms.length > 0 || parsed.urlTerms.length > 0
+}
+
+/**
+ * Extract the hostname from a URL, falling back to the raw string for invalid URLs
+ */
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return url.toLowerCase()
+  }
+}
+
+/**
+ * True when every tab matching `next` is guaranteed to also match `previous`, so the
+ * results for `previous` can be searched instead of all tabs (i.e. the user kept typing).
+ */
+export function isQueryRefinement(previous: string, next: string): boolean {
+  if (!previous.trim() || !next.startsWith(previous)) {
+    return false
+  }
+
+  // New tokens only ever add constraints
+  if (/\s$/.test(previous)) {
+    return true
+  }
+
+  const tokens = previous.trim().split(/\s+/)
+  return isExtensibleToken(tokens[tokens.length - 1])
+}
+
+// Whether appending characters to a token can only narrow down its matches
+function isExtensibleToken(token: string): boolean {
+  // A longer exclusion excludes less
+  if (token.startsWith('-')) {
+    return false
+  }
+
+  const separator = token.indexOf(':')
+  const operator = separator > 0 ? OPERATOR_ALIASES[token.slice(0, separator).toLowerCase()] : undefined
+  const value = token.slice(separator + 1)
+
+  switch (operator) {
+    case 'domain':
+    case 'group':
+    case 'harpoon':
+      return true
+
+    case 'window':
+      return value === ''
+
+    case 'title':
+    case 'url':
+      return value === '' || isExtensibleTerm(value)
+  }
+
+  // Free text can still turn into an operator, e.g. "d" -> "d:github.com"
+  const lowerToken = token.toLowerCase()
+  if (Object.keys(OPERATOR_ALIASES).some((alias) => alias.startsWith(lowerToken))) {
+    return false
+  }
+
+  return isExtensibleTerm(token)
+}
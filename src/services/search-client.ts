@@ -0,0 +1,185 @@
+import type {
+  SearchableTab,
+  SearchHit,
+  SearchPortRequest,
+  SearchPortResponse
+} from '../types/shared.js'
+import { searchLogger } from '../utils/logger.js'
+import { IncrementalTabSearch, SEARCH_PORT_NAME, type SearchResult } from './search.js'
+
+interface PendingSearch {
+  requestId: number
+  tabs: SearchableTab[]
+  query: string
+  harpoonTabIds: number[]
+  // Resolves with null when the search was superseded by a newer one
+  resolve: (results: SearchResult<SearchableTab>[] | null) => void
+}
+
+/**
+ * Runs tab search in the service worker so matching never blocks the host page. Anything
+ * shaped like a tab can be searched; results point back at the items that were passed in.
+ *
+ * Only the latest search is ever answered: starting a new search (or cancelling) resolves
+ * the previous one with null, and late responses for it are ignored. If the service worker
+ * can't be reached the search runs locally instead.
+ */
+export class SearchClient {
+  private port: chrome.runtime.Port | null = null
+  // The tab list the service worker currently holds
+  private syncedTabs: SearchableTab[] | null = null
+  private latestRequestId = 0
+  private pendingSearch: PendingSearch | null = null
+  private localSearch = new IncrementalTabSearch<SearchableTab>()
+
+  search<T extends SearchableTab>(
+    tabs: T[],
+    query: string,
+    harpoonTabIds: number[]
+  ): Promise<SearchResult<T>[] | null> {
+    this.supersedePendingSearch()
+    const requestId = ++this.latestRequestId
+
+    const port = this.getPort()
+    if (!port) {
+      return Promise.resolve(this.searchLocally(tabs, query, harpoonTabIds))
+    }
+
+    return new Promise((resolve) => {
+      // Results only ever hold items from `tabs`
+      this.pendingSearch = {
+        requestId,
+        tabs,
+        query,
+        harpoonTabIds,
+        resolve: resolve as PendingSearch['resolve']
+      }
+
+      try {
+        if (this.syncedTabs !== tabs) {
+          this.post(port, {
+            type: 'setTabs',
+            tabs: tabs.map(({ id, title, url, windowId, groupId, groupTitle }) => ({
+              id,
+              title,
+              url,
+              windowId,
+              groupId,
+              groupTitle
+            }))
+          })
+          this.syncedTabs = tabs
+        }
+        this.post(port, { type: 'search', requestId, query, harpoonTabIds })
+      } catch (error) {
+        searchLogger.warn('Search port unavailable, searching locally:', error)
+        this.handleDisconnect()
+      }
+    })
+  }
+
+  /**
+   * Drop the current search, e.g. when the query is cleared
+   */
+  cancel(): void {
+    if (!this.pendingSearch) {
+      return
+    }
+    this.supersedePendingSearch()
+    if (this.port) {
+      try {
+        this.post(this.port, { type: 'cancel' })
+      } catch {
+        this.handleDisconnect()
+      }
+    }
+  }
+
+  disconnect(): void {
+    this.supersedePendingSearch()
+    this.port?.disconnect()
+    this.port = null
+    this.syncedTabs = null
+  }
+
+  private getPort(): chrome.runtime.Port | null {
+    if (this.port) {
+      return this.port
+    }
+
+    try {
+      const port = chrome.runtime.connect({ name: SEARCH_PORT_NAME })
+      port.onMessage.addListener((response: SearchPortResponse) => this.handleResponse(response))
+      port.onDisconnect.addListener(() => this.handleDisconnect())
+      this.port = port
+      return port
+    } catch (error) {
+      // Extension context invalidated, or not running as an extension at all
+      searchLogger.debug('Could not connect to the search port:', error)
+      return null
+    }
+  }
+
+  private post(port: chrome.runtime.Port, request: SearchPortRequest): void {
+    port.postMessage(request)
+  }
+
+  private handleResponse(response: SearchPortResponse): void {
+    const pending = this.pendingSearch
+    if (!pending || response.requestId !== pending.requestId) {
+      // Answer to a search that has since been superseded
+      return
+    }
+    this.pendingSearch = null
+
+    if (response.type === 'error') {
+      searchLogger.warn('Service worker search failed, searching locally:', response.error)
+      pending.resolve(this.searchLocally(pending.tabs, pending.query, pending.harpoonTabIds))
+      return
+    }
+
+    pending.resolve(this.toResults(pending.tabs, response.hits))
+  }
+
+  // The service worker went away (e.g. it was suspended); finish the current search locally
+  // and reconnect on the next one
+  private handleDisconnect(): void {
+    this.port = null
+    this.syncedTabs = null
+
+    const pending = this.pendingSearch
+    this.pendingSearch = null
+    if (pending) {
+      pending.resolve(this.searchLocally(pending.tabs, pending.query, pending.harpoonTabIds))
+    }
+  }
+
+  private supersedePendingSearch(): void {
+    const pending = this.pendingSearch
+    this.pendingSearch = null
+    pending?.resolve(null)
+  }
+
+  private searchLocally<T extends SearchableTab>(
+    tabs: T[],
+    query: string,
+    harpoonTabIds: number[]
+  ): SearchResult<T>[] {
+    return this.localSearch.search(tabs, query, {
+      harpoonTabIds: new Set(harpoonTabIds)
+    }) as SearchResult<T>[]
+  }
+
+  private toResults(tabs: SearchableTab[], hits: SearchHit[]): SearchResult<SearchableTab>[] {
+    const results: SearchResult<SearchableTab>[] = []
+    for (const hit of hits) {
+      const tab = tabs[hit.refIndex]
+      if (tab?.id === hit.tabId) {
+        results.push({ item: tab, refIndex: hit.refIndex, score: hit.score, matches: hit.matches })
+      }
+    }
+    return results
+  }
+}
+
+export const searchClient = new SearchClient()
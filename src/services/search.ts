@@ -1,17 +1,205 @@
-import Fuse from 'fuse.js'
-import type { Tab } from '../types/shared.js'
+import type { Tab, SearchableTab, SearchMatch } from '../types/shared.js'
 import { searchLogger } from '../utils/logger.js'
+import {
+  parseQuery,
+  hasFuzzyTerms,
+  getHostname,
+  isQueryRefinement,
+  type ParsedQuery
+} from './query-parser.js'
+import {
+  parsePattern,
+  parseTerm,
+  matchTerm,
+  idealScore,
+  toMatchRanges,
+  type PatternTerm
+} from './fuzzy-matcher.js'
 
-export function searchTabs(tabs: Tab[], query: string) {
-  const fuse = new Fuse(tabs, {
-    keys: ['title', 'url'],
-    threshold: 0.3,  // Tighter threshold for more precise matches
-    includeScore: true,
-    includeMatches: true,
-    minMatchCharLength: 2,  // Require at least 2 characters to match
-    ignoreLocation: true,   // Don't penalize matches based on position
-    findAllMatches: false   // Stop at first good match
-  })
-  const results = fuse.search(query)
-  return results
+export type SearchOptions = {
+  // IDs of harpooned tabs, used by the `h:` operator
+  harpoonTabIds?: Set<number>
+}
+
+// Name of the long-lived port the content script uses to search in the service worker
+export const SEARCH_PORT_NAME = 'telescope-search'
+
+export type SearchResult<T extends SearchableTab = Tab> = {
+  item: T
+  // Index of the tab in the list that was searched
+  refIndex: number
+  // 0 is a perfect match, 1 is no match
+  score: number
+  matches: SearchMatch[]
+}
+
+type Candidate<T extends SearchableTab> = {
+  tab: T
+  refIndex: number
+}
+
+export function searchTabs<T extends SearchableTab>(
+  tabs: T[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult<T>[] {
+  const candidates = tabs.map((tab, refIndex) => ({ tab, refIndex }))
+  return matchCandidates(candidates, parseQuery(query), options)
+}
+
+/**
+ * Stateful search for a search box: while the user keeps typing, only the previous
+ * results are searched again instead of every tab.
+ */
+export class IncrementalTabSearch<T extends SearchableTab = Tab> {
+  private lastSearch: {
+    tabs: T[]
+    query: string
+    harpoonTabIds?: Set<number>
+    results: SearchResult<T>[]
+  } | null = null
+
+  search(tabs: T[], query: string, options: SearchOptions = {}): SearchResult<T>[] {
+    const previous = this.lastSearch
+    const canNarrow =
+      previous !== null &&
+      previous.tabs === tabs &&
+      haveSameIds(previous.harpoonTabIds, options.harpoonTabIds) &&
+      isQueryRefinement(previous.query, query)
+
+    const candidates = canNarrow
+      ? previous.results
+          .map((result) => ({ tab: result.item, refIndex: result.refIndex }))
+          .sort((a, b) => a.refIndex - b.refIndex)
+      : tabs.map((tab, refIndex) => ({ tab, refIndex }))
+
+    const results = matchCandidates(candidates, parseQuery(query), options)
+    this.lastSearch = { tabs, query, harpoonTabIds: options.harpoonTabIds, results }
+    return results
+  }
+
+  reset() {
+    this.lastSearch = null
+  }
+}
+
+function matchCandidates<T extends SearchableTab>(
+  candidates: Candidate<T>[],
+  parsed: ParsedQuery,
+  options: SearchOptions
+): SearchResult<T>[] {
+  const filtered = candidates.filter(({ tab }) => passesFilters(tab, parsed, options))
+
+  // Filter-only queries (e.g. "d:github.com") keep the incoming order
+  if (!hasFuzzyTerms(parsed)) {
+    return filtered.map(({ tab, refIndex }) => ({ item: tab, refIndex, score: 0, matches: [] }))
+  }
+
+  const terms: TabTerms = {
+    text: parsePattern(parsed.text),
+    title: parsed.titleTerms.map(parseTerm),
+    url: parsed.urlTerms.map(parseTerm)
+  }
+  const bestScore = [...terms.text, ...terms.title, ...terms.url].reduce(
+    (sum, term) => sum + idealScore(term),
+    0
+  )
+
+  const results: SearchResult<T>[] = []
+  for (const { tab, refIndex } of filtered) {
+    const match = matchTab(tab, terms)
+    if (match) {
+      const quality = bestScore > 0 ? Math.min(1, match.score / bestScore) : 1
+      results.push({ item: tab, refIndex, score: 1 - quality, matches: match.matches })
+    }
+  }
+
+  // Like fzf, shorter titles win ties
+  return results.sort(
+    (a, b) => a.score - b.score || a.item.title.length - b.item.title.length || a.refIndex - b.refIndex
+  )
+}
+
+function passesFilters(tab: SearchableTab, parsed: ParsedQuery, options: SearchOptions): boolean {
+  if (parsed.harpoonOnly && !options.harpoonTabIds?.has(tab.id)) {
+    return false
+  }
+
+  if (parsed.windowIds.length > 0 && !parsed.windowIds.includes(tab.windowId)) {
+    return false
+  }
+
+  if (parsed.groups.length > 0) {
+    const groupTitle = tab.groupTitle?.toLowerCase() ?? ''
+    if (tab.groupId === undefined || !parsed.groups.some((group) => groupTitle.includes(group))) {
+      return false
+    }
+  }
+
+  if (parsed.domains.length > 0) {
+    const hostname = getHostname(tab.url)
+    if (!parsed.domains.some((domain) => hostname.includes(domain))) {
+      return false
+    }
+  }
+
+  if (parsed.excludes.length > 0) {
+    const haystack = `${tab.title} ${tab.url}`.toLowerCase()
+    if (parsed.excludes.some((exclude) => haystack.includes(exclude))) {
+      return false
+    }
+  }
+
+  return true
+}
+
+type TabTerms = {
+  text: PatternTerm[]
+  title: PatternTerm[]
+  url: PatternTerm[]
+}
+
+// Every term must match; free text may match either field, scoped terms only their own field
+function matchTab(tab: SearchableTab, terms: TabTerms): { score: number; matches: SearchMatch[] } | null {
+  const positions = { title: [] as number[], url: [] as number[] }
+  let score = 0
+
+  for (const term of terms.text) {
+    const titleMatch = matchTerm(tab.title, term)
+    const urlMatch = matchTerm(tab.url, term)
+    if (!titleMatch && !urlMatch) {
+      return null
+    }
+
+    // Highlight the term wherever it matched, but only score the better field
+    score += Math.max(titleMatch?.score ?? 0, urlMatch?.score ?? 0)
+    positions.title.push(...(titleMatch?.positions ?? []))
+    positions.url.push(...(urlMatch?.positions ?? []))
+  }
+
+  for (const key of ['title', 'url'] as const) {
+    for (const term of terms[key]) {
+      const match = matchTerm(tab[key], term)
+      if (!match) {
+        return null
+      }
+      score += match.score
+      positions[key].push(...match.positions)
+    }
+  }
+
+  const matches = (['title', 'url'] as const)
+    .filter((key) => positions[key].length > 0)
+    .map((key) => ({ key, indices: toMatchRanges(positions[key]) }))
+
+  return { score, matches }
+}
+
+function haveSameIds(a?: Set<number>, b?: Set<number>): boolean {
+  if (a === b) return true
+  if (!a || !b || a.size !== b.size) return false
+  for (const id of a) {
+    if (!b.has(id)) return false
+  }
+  return true
 }
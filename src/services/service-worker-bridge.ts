@@ -1,5 +1,15 @@
-import type { Tab } from '../types/shared.js'
+import type {
+  Tab,
+  GrepMatch,
+  GrepTabResult,
+  ClosedSession,
+  Bookmark,
+  HistoryEntry,
+  WindowInfo,
+  TabGroupInfo
+} from '../types/shared.js'
 import type { InputMode, ModalMode } from '../types/shared.js'
+import type { KeymapOverrides } from './keymap.js'
 
 async function sendMessageToSW(message: string, payload?: unknown): Promise<unknown> {
   return new Promise((resolve, reject) => {
@@ -35,6 +45,88 @@ export function switchToTab(tabId: number): Promise<{ message: string }> {
   return sendMessageToSW('switchToTab', { tabId }) as Promise<{ message: string }>
 }
 
+export function openTabInBackground(url: string): Promise<{ message: string }> {
+  return sendMessageToSW('openTabInBackground', { url }) as Promise<{ message: string }>
+}
+
+export async function getRecentlyClosed(): Promise<ClosedSession[]> {
+  const response = (await sendMessageToSW('getRecentlyClosed')) as { sessions?: ClosedSession[] }
+  return response?.sessions || []
+}
+
+export function restoreSessions(sessionIds: string[]): Promise<{ message: string }> {
+  return sendMessageToSW('restoreSessions', { sessionIds }) as Promise<{ message: string }>
+}
+
+export async function getBookmarks(): Promise<Bookmark[]> {
+  const response = (await sendMessageToSW('getBookmarks')) as { bookmarks?: Bookmark[] }
+  return response?.bookmarks || []
+}
+
+export async function getHistory(): Promise<HistoryEntry[]> {
+  const response = (await sendMessageToSW('getHistory')) as { entries?: HistoryEntry[] }
+  return response?.entries || []
+}
+
+export function openUrl(url: string, target: 'current' | 'window'): Promise<{ message: string }> {
+  return sendMessageToSW('openUrl', { url, target }) as Promise<{ message: string }>
+}
+
+export async function getKeymap(): Promise<KeymapOverrides> {
+  const response = (await sendMessageToSW('getKeymap')) as { keymap?: KeymapOverrides }
+  return response?.keymap || {}
+}
+
+export async function getWindows(): Promise<WindowInfo[]> {
+  const response = (await sendMessageToSW('getWindows')) as { windows?: WindowInfo[] }
+  return response?.windows || []
+}
+
+export function focusWindow(windowId: number): Promise<{ message: string }> {
+  return sendMessageToSW('focusWindow', { windowId }) as Promise<{ message: string }>
+}
+
+export function closeWindow(windowId: number): Promise<{ message: string }> {
+  return sendMessageToSW('closeWindow', { windowId }) as Promise<{ message: string }>
+}
+
+export function renameWindow(windowId: number, name: string): Promise<{ message: string }> {
+  return sendMessageToSW('renameWindow', { windowId, name }) as Promise<{ message: string }>
+}
+
+export async function getTabGroups(): Promise<TabGroupInfo[]> {
+  const response = (await sendMessageToSW('getTabGroups')) as { groups?: TabGroupInfo[] }
+  return response?.groups || []
+}
+
+export function setTabGroupCollapsed(
+  groupId: number,
+  collapsed: boolean
+): Promise<{ message: string }> {
+  return sendMessageToSW('setTabGroupCollapsed', { groupId, collapsed }) as Promise<{
+    message: string
+  }>
+}
+
+export function createTabGroup(
+  tabIds: number[],
+  title: string
+): Promise<{ message: string; groupId: number }> {
+  return sendMessageToSW('createTabGroup', { tabIds, title }) as Promise<{
+    message: string
+    groupId: number
+  }>
+}
+
+export async function grepTabs(query: string): Promise<GrepTabResult[]> {
+  const response = (await sendMessageToSW('grepTabs', { query })) as { results?: GrepTabResult[] }
+  return response?.results || []
+}
+
+export function switchToGrepMatch(tabId: number, match: GrepMatch): Promise<{ message: string }> {
+  return sendMessageToSW('switchToGrepMatch', { tabId, match }) as Promise<{ message: string }>
+}
+
 export function sendOpenModalFromIFrame(mode: ModalMode): Promise<void> {
   return sendMessageToSW('showModal', { mode }) as Promise<void>
 }
@@ -55,6 +147,46 @@ export function closeTab(tabId: number): Promise<void> {
   return sendMessageToSW('closeTab', { tabId }) as Promise<void>
 }
 
+// Operators on several tabs at once, each a single round-trip
+
+export function addTabsToHarpoon(tabIds: number[]): Promise<{ message: string }> {
+  return sendMessageToSW('addTabsToHarpoon', { tabIds }) as Promise<{ message: string }>
+}
+
+export function moveTabsToNewWindow(tabIds: number[]): Promise<{ windowId: number }> {
+  return sendMessageToSW('moveTabsToNewWindow', { tabIds }) as Promise<{ windowId: number }>
+}
+
+export function moveTabsToWindow(tabIds: number[], windowId: number): Promise<{ message: string }> {
+  return sendMessageToSW('moveTabsToWindow', { tabIds, windowId }) as Promise<{ message: string }>
+}
+
+export function toggleTabsPinned(tabIds: number[]): Promise<{ pinned: boolean }> {
+  return sendMessageToSW('toggleTabsPinned', { tabIds }) as Promise<{ pinned: boolean }>
+}
+
+export function toggleTabsMuted(tabIds: number[]): Promise<{ muted: boolean }> {
+  return sendMessageToSW('toggleTabsMuted', { tabIds }) as Promise<{ muted: boolean }>
+}
+
+export function reloadTabs(tabIds: number[]): Promise<{ message: string }> {
+  return sendMessageToSW('reloadTabs', { tabIds }) as Promise<{ message: string }>
+}
+
+export function duplicateTabs(tabIds: number[]): Promise<{ message: string }> {
+  return sendMessageToSW('duplicateTabs', { tabIds }) as Promise<{ message: string }>
+}
+
+// Closes the tabs as one batch of the close journal, which undoCloseTabs reopens
+export function closeTabs(tabIds: number[]): Promise<{ message: string }> {
+  return sendMessageToSW('closeTabs', { tabIds }) as Promise<{ message: string }>
+}
+
+export async function undoCloseTabs(): Promise<number> {
+  const response = (await sendMessageToSW('undoCloseTabs')) as { reopened?: number }
+  return response?.reopened ?? 0
+}
+
 export function getHarpoonTabs(): Promise<Tab[]> {
   return sendMessageToSW('getHarpoonTabs') as Promise<Tab[]>
 }
@@ -71,8 +203,23 @@ export function getCurrentWindowId(): Promise<number> {
   return sendMessageToSW('getCurrentWindowId') as Promise<number>
 }
 
-export function requestInitialSync(): Promise<{ allTabs: Tab[]; harpoonTabs: Tab[] }> {
-  return sendMessageToSW('requestInitialSync') as Promise<{ allTabs: Tab[]; harpoonTabs: Tab[] }>
+export type InitialSyncData = {
+  allTabs: Tab[]
+  harpoonTabs: Tab[]
+  frecencyScores?: Record<number, number>
+  windowId?: number
+  // Whether allTabs covers every window rather than the sender's
+  allWindows?: boolean
+}
+
+/**
+ * Tabs for the lists; allWindows widens the tab list past this window, and is left to the
+ * searchAllWindows setting when omitted
+ */
+export function requestInitialSync(
+  options: { allWindows?: boolean } = {}
+): Promise<InitialSyncData> {
+  return sendMessageToSW('requestInitialSync', options) as Promise<InitialSyncData>
 }
 
 export function switchToLastBuffer(): Promise<void> {
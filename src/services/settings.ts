@@ -1,4 +1,9 @@
 import { storage } from '../service-workers/storage/storage-layer.js'
+import { validateKeymapOverrides, type KeymapOverrides } from './keymap.js'
+
+// How far back the history picker looks by default
+export const DEFAULT_HISTORY_DAYS = 7
+export const MAX_HISTORY_DAYS = 365
 
 export class SettingsService {
   /**
@@ -33,6 +38,56 @@ export class SettingsService {
     await storage.write('excludedSites', filtered)
   }
 
+  /**
+   * Get how many days of browser history the history picker lists
+   */
+  async getHistoryDays(): Promise<number> {
+    const days = await storage.read<number>('historyDays')
+    return days ?? DEFAULT_HISTORY_DAYS
+  }
+
+  /**
+   * Set how many days of browser history the history picker lists
+   */
+  async setHistoryDays(days: number): Promise<void> {
+    const clamped = Math.min(Math.max(Math.round(days), 1), MAX_HISTORY_DAYS)
+    await storage.write('historyDays', clamped)
+  }
+
+  /**
+   * Get whether the tab picker opens on the tabs of every window rather than this one
+   */
+  async getSearchAllWindows(): Promise<boolean> {
+    const allWindows = await storage.read<boolean>('searchAllWindows')
+    return allWindows ?? false
+  }
+
+  /**
+   * Set whether the tab picker opens on the tabs of every window rather than this one
+   */
+  async setSearchAllWindows(allWindows: boolean): Promise<void> {
+    await storage.write('searchAllWindows', allWindows)
+  }
+
+  /**
+   * Get the user's changes to the built-in keymap
+   */
+  async getKeymap(): Promise<KeymapOverrides> {
+    const keymap = await storage.read<KeymapOverrides>('keymap')
+    return keymap ?? {}
+  }
+
+  /**
+   * Set the user's changes to the built-in keymap; throws if they don't make sense
+   */
+  async setKeymap(keymap: KeymapOverrides): Promise<void> {
+    const problem = validateKeymapOverrides(keymap)
+    if (problem) {
+      throw new Error(problem)
+    }
+    await storage.write('keymap', keymap)
+  }
+
   /**
    * Check if a URL matches any exclusion pattern
    */
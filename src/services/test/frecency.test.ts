@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  recordActivation,
+  calculateFrecency,
+  calculateFrecencyScores,
+  rankByFrecency,
+  MAX_ACTIVITY_TIMESTAMPS
+} from '../frecency.js'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = 1_700_000_000_000
+
+describe('recordActivation', () => {
+  it('should start a new activity record', () => {
+    expect(recordActivation(undefined, NOW)).toEqual({ count: 1, timestamps: [NOW] })
+  })
+
+  it('should keep counting but cap stored timestamps', () => {
+    let activity = recordActivation(undefined, 0)
+    for (let i = 1; i < MAX_ACTIVITY_TIMESTAMPS + 5; i++) {
+      activity = recordActivation(activity, i)
+    }
+
+    expect(activity.count).toBe(MAX_ACTIVITY_TIMESTAMPS + 5)
+    expect(activity.timestamps).toHaveLength(MAX_ACTIVITY_TIMESTAMPS)
+    expect(activity.timestamps[activity.timestamps.length - 1]).toBe(MAX_ACTIVITY_TIMESTAMPS + 4)
+  })
+})
+
+describe('calculateFrecency', () => {
+  it('should weight recent visits higher than old ones', () => {
+    const recent = calculateFrecency({ count: 1, timestamps: [NOW - HOUR] }, NOW)
+    const lastWeek = calculateFrecency({ count: 1, timestamps: [NOW - 5 * DAY] }, NOW)
+    expect(recent).toBeGreaterThan(lastWeek)
+  })
+
+  it('should scale with visit count', () => {
+    const once = calculateFrecency({ count: 1, timestamps: [NOW] }, NOW)
+    const often = calculateFrecency({ count: 20, timestamps: [NOW] }, NOW)
+    expect(often).toBe(once * 20)
+  })
+
+  it('should ignore visits older than 90 days', () => {
+    expect(calculateFrecency({ count: 3, timestamps: [NOW - 100 * DAY] }, NOW)).toBe(0)
+  })
+
+  it('should return zero for empty activity', () => {
+    expect(calculateFrecency({ count: 0, timestamps: [] }, NOW)).toBe(0)
+  })
+})
+
+describe('calculateFrecencyScores', () => {
+  it('should omit tabs without a score', () => {
+    const scores = calculateFrecencyScores(
+      {
+        1: { count: 2, timestamps: [NOW, NOW] },
+        2: { count: 1, timestamps: [NOW - 200 * DAY] }
+      },
+      NOW
+    )
+    expect(Object.keys(scores)).toEqual(['1'])
+  })
+})
+
+describe('rankByFrecency', () => {
+  type Result = { id: number; score: number }
+  const rank = (results: Result[], scores: Record<number, number>) =>
+    rankByFrecency(
+      results,
+      (result) => result.id,
+      (result) => result.score,
+      scores
+    ).map((result) => result.id)
+
+  it('should fall back to match score without frecency data', () => {
+    expect(rank([{ id: 1, score: 0.2 }, { id: 2, score: 0.05 }], {})).toEqual([2, 1])
+  })
+
+  it('should let a frequently used tab beat a slightly better match', () => {
+    const results = [
+      { id: 1, score: 0.05 }, // one-off tab, slightly better match
+      { id: 2, score: 0.1 } // visited constantly
+    ]
+    expect(rank(results, { 2: 2000, 1: 10 })).toEqual([2, 1])
+  })
+
+  it('should not let frecency rescue a much worse match', () => {
+    const results = [
+      { id: 1, score: 0.0 },
+      { id: 2, score: 0.9 }
+    ]
+    expect(rank(results, { 2: 2000 })).toEqual([1, 2])
+  })
+
+  it('should keep the original order for ties', () => {
+    const results = [
+      { id: 3, score: 0 },
+      { id: 1, score: 0 },
+      { id: 2, score: 0 }
+    ]
+    expect(rank(results, {})).toEqual([3, 1, 2])
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parsePattern,
+  parseTerm,
+  matchTerm,
+  idealScore,
+  isExtensibleTerm,
+  toMatchRanges
+} from '../fuzzy-matcher.js'
+
+const match = (text: string, token: string) => matchTerm(text, parseTerm(token))
+const score = (text: string, token: string) => match(text, token)?.score ?? -1
+
+describe('fuzzy-matcher', () => {
+  describe('parseTerm', () => {
+    it('should parse fuzzy terms', () => {
+      expect(parseTerm('foo')).toEqual({ type: 'fuzzy', text: 'foo', caseSensitive: false })
+    })
+
+    it('should parse exact, prefix, suffix and equal terms', () => {
+      expect(parseTerm("'foo")).toMatchObject({ type: 'exact', text: 'foo' })
+      expect(parseTerm('^foo')).toMatchObject({ type: 'prefix', text: 'foo' })
+      expect(parseTerm('foo$')).toMatchObject({ type: 'suffix', text: 'foo' })
+      expect(parseTerm('^foo$')).toMatchObject({ type: 'equal', text: 'foo' })
+    })
+
+    it('should treat lone operator characters as fuzzy text', () => {
+      expect(parseTerm("'")).toMatchObject({ type: 'fuzzy', text: "'" })
+      expect(parseTerm('^')).toMatchObject({ type: 'fuzzy', text: '^' })
+      expect(parseTerm('$')).toMatchObject({ type: 'fuzzy', text: '$' })
+    })
+
+    it('should be case sensitive only when the term has uppercase letters', () => {
+      expect(parseTerm('github').caseSensitive).toBe(false)
+      expect(parseTerm('GitHub').caseSensitive).toBe(true)
+    })
+  })
+
+  describe('parsePattern', () => {
+    it('should split on whitespace', () => {
+      expect(parsePattern('  foo  ^bar ').map((term) => term.text)).toEqual(['foo', 'bar'])
+    })
+  })
+
+  describe('matchTerm', () => {
+    it('should match single characters', () => {
+      expect(match('GitHub', 'g')?.positions).toEqual([0])
+    })
+
+    it('should return null when the pattern is not a subsequence', () => {
+      expect(match('GitHub', 'hg')).toBeNull()
+    })
+
+    it('should apply smart case', () => {
+      expect(match('GitHub', 'github')).not.toBeNull()
+      expect(match('GitHub', 'GitHub')).not.toBeNull()
+      expect(match('github', 'GitHub')).toBeNull()
+    })
+
+    it('should prefer contiguous runs over scattered matches', () => {
+      expect(score('pull requests', 'pull')).toBeGreaterThan(score('p u l l', 'pull'))
+    })
+
+    it('should prefer matches at word boundaries', () => {
+      expect(score('my-docs', 'docs')).toBeGreaterThan(score('mydocs', 'docs'))
+      expect(score('someDocs', 'docs')).toBeGreaterThan(score('somedocs', 'docs'))
+    })
+
+    it('should pick the best alignment rather than the first one', () => {
+      // The greedy first "g" is inside "tagged"; the boundary match at "GitHub" is better
+      expect(match('tagged GitHub issues', 'gh')?.positions).toEqual([7, 10])
+    })
+
+    it('should keep a contiguous run together', () => {
+      expect(match('f-o-o foo', 'foo')?.positions).toEqual([6, 7, 8])
+    })
+
+    it('should match exact terms as substrings', () => {
+      expect(match('tab picker', "'pick")?.positions).toEqual([4, 5, 6, 7])
+      expect(match('pxixcxk', "'pick")).toBeNull()
+    })
+
+    it('should pick the exact occurrence at a word boundary', () => {
+      expect(match('unread read', "'read")?.positions).toEqual([7, 8, 9, 10])
+    })
+
+    it('should anchor prefix, suffix and equal terms', () => {
+      expect(match('github.com', '^git')).not.toBeNull()
+      expect(match('my github', '^git')).toBeNull()
+      expect(match('example.com', '.com$')?.positions).toEqual([7, 8, 9, 10])
+      expect(match('example.com/x', '.com$')).toBeNull()
+      expect(match('Inbox', '^inbox$')).not.toBeNull()
+      expect(match('Inbox (2)', '^inbox$')).toBeNull()
+    })
+
+    it('should keep positions aligned when lowercasing changes string length', () => {
+      expect(match('İstanbul guide', 'guide')?.positions).toEqual([9, 10, 11, 12, 13])
+    })
+  })
+
+  describe('idealScore', () => {
+    it('should be an upper bound for real matches', () => {
+      const term = parseTerm('docs')
+      expect(matchTerm('docs', term)?.score).toBe(idealScore(term))
+      expect(matchTerm('my docs', term)!.score).toBeLessThanOrEqual(idealScore(term))
+      expect(matchTerm('d-o-c-s', term)!.score).toBeLessThan(idealScore(term))
+    })
+  })
+
+  describe('isExtensibleTerm', () => {
+    it('should allow fuzzy, exact and prefix terms to grow', () => {
+      expect(isExtensibleTerm('fo')).toBe(true)
+      expect(isExtensibleTerm("'fo")).toBe(true)
+      expect(isExtensibleTerm('^fo')).toBe(true)
+    })
+
+    it('should not allow bare operators or anchored terms to grow', () => {
+      expect(isExtensibleTerm("'")).toBe(false)
+      expect(isExtensibleTerm('^')).toBe(false)
+      expect(isExtensibleTerm('fo$')).toBe(false)
+      expect(isExtensibleTerm('^fo$')).toBe(false)
+    })
+  })
+
+  describe('toMatchRanges', () => {
+    it('should merge adjacent positions into inclusive ranges', () => {
+      expect(toMatchRanges([0, 1, 2, 5, 7, 8])).toEqual([
+        [0, 2],
+        [5, 5],
+        [7, 8]
+      ])
+    })
+
+    it('should sort and dedupe positions from multiple terms', () => {
+      expect(toMatchRanges([4, 1, 2, 3, 2])).toEqual([[1, 4]])
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedFunction } from 'vitest'
 import { get } from 'svelte/store'
 
 // Mock all external dependencies
@@ -27,36 +27,6 @@ vi.mock('../../stores/harpoon-flash.js', () => ({
   triggerBorderFlash: vi.fn()
 }))
 
-vi.mock('../../stores/keyboard.js', () => ({
-  keyBuffer: {
-    subscribe: vi.fn((callback) => {
-      callback([])
-      return { unsubscribe: vi.fn() }
-    }),
-    set: vi.fn(),
-    update: vi.fn()
-  },
-  addKeyToBuffer: vi.fn(),
-  clearKeyBuffer: vi.fn(),
-  checkModalTrigger: vi.fn(() => null),
-  checkEscapeSequence: vi.fn(() => false),
-  checkHarpoonAdd: vi.fn(() => false),
-  checkHarpoonRemove: vi.fn(() => false),
-  checkHarpoonSwitch: vi.fn(() => null),
-  checkDeleteSequence: vi.fn(() => false),
-  checkSubmenuInvalidation: vi.fn(() => false),
-  getHarpoonSubmenuHints: vi.fn(() => []),
-  harpoonSubmenuActive: {
-    subscribe: vi.fn((callback) => {
-      callback(false)
-      return { unsubscribe: vi.fn() }
-    })
-  },
-  activateHarpoonSubmenu: vi.fn(),
-  clearHarpoonSubmenu: vi.fn(),
-  checkLastTab: vi.fn(() => false)
-}))
-
 vi.mock('../../stores/modal.js', () => ({
   isModalOpen: {
     subscribe: vi.fn((callback) => {
@@ -96,7 +66,15 @@ vi.mock('../../stores/search.js', () => ({
       callback([])
       return { unsubscribe: vi.fn() }
     })
-  }
+  },
+  searchQuery: {
+    subscribe: vi.fn((callback) => {
+      callback('')
+      return { unsubscribe: vi.fn() }
+    })
+  },
+  updateSearchQuery: vi.fn(),
+  clearSearch: vi.fn()
 }))
 
 vi.mock('../../stores/tabs.js', () => ({
@@ -135,7 +113,7 @@ vi.mock('../../stores/visual-selection.js', () => ({
 
 // Mock logger
 vi.mock('../../utils/logger.js', () => ({
-  keyboardLogger: { debug: vi.fn(), error: vi.fn() },
+  keyboardLogger: { debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
   harpoonLogger: { debug: vi.fn(), error: vi.fn(), warn: vi.fn() }
 }))
 
@@ -144,7 +122,16 @@ import { setupKeyboardHandler } from '../keyboard-handler.js'
 import * as serviceWorkerBridge from '../../services/service-worker-bridge.js'
 import * as harpoonIndicator from '../../stores/harpoon-indicator.js'
 import * as harpoonFlash from '../../stores/harpoon-flash.js'
-import * as keyboard from '../../stores/keyboard.js'
+import { keyBuffer, clearKeyBuffer, keymapOverrides } from '../../stores/keyboard.js'
+import { isModalOpen } from '../../stores/modal.js'
+import { scheduleWhichKey, showWhichKey } from '../../stores/which-key.js'
+
+// Press keys one after the other, as the page would see them
+function press(...keys: string[]) {
+  for (const key of keys) {
+    document.dispatchEvent(new KeyboardEvent('keydown', { key }))
+  }
+}
 
 describe('Keyboard Handler - Harpoon Operations', () => {
   let mockAddTabToHarpoon: MockedFunction<any>
@@ -152,8 +139,6 @@ describe('Keyboard Handler - Harpoon Operations', () => {
   let mockUpdateHarpoonIndicator: MockedFunction<any>
   let mockHideHarpoonIndicator: MockedFunction<any>
   let mockTriggerBorderFlash: MockedFunction<any>
-  let mockCheckHarpoonAdd: MockedFunction<any>
-  let mockClearKeyBuffer: MockedFunction<any>
 
   beforeEach(() => {
     vi.clearAllMocks()
@@ -164,8 +149,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
     mockUpdateHarpoonIndicator = vi.mocked(harpoonIndicator.updateHarpoonIndicator)
     mockHideHarpoonIndicator = vi.mocked(harpoonIndicator.hideHarpoonIndicator)
     mockTriggerBorderFlash = vi.mocked(harpoonFlash.triggerBorderFlash)
-    mockCheckHarpoonAdd = vi.mocked(keyboard.checkHarpoonAdd)
-    mockClearKeyBuffer = vi.mocked(keyboard.clearKeyBuffer)
+    clearKeyBuffer()
 
     // Reset DOM
     document.body.innerHTML = ''
@@ -180,17 +164,13 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       const mockResponse = { message: 'addedTabToHarpoon', harpoonIndex: 2 }
       mockAddTabToHarpoon.mockResolvedValue(mockResponse)
 
-      // Mock harpoon add detection
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      // Create and dispatch keyboard event
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      // Space h a
+      press(' ', 'h', 'a')
 
       // Should show loading immediately
       expect(mockShowHarpoonIndicatorLoading).toHaveBeenCalled()
       expect(mockTriggerBorderFlash).toHaveBeenCalled()
-      expect(mockClearKeyBuffer).toHaveBeenCalled()
+      expect(get(keyBuffer)).toEqual([])
 
       // Wait for promise to resolve
       await vi.waitFor(() => {
@@ -211,10 +191,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       const mockResponse = { message: 'addedTabToHarpoon' }
       mockAddTabToHarpoon.mockResolvedValue(mockResponse)
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       // Should show loading
       expect(mockShowHarpoonIndicatorLoading).toHaveBeenCalled()
@@ -234,10 +211,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       const mockResponse = { message: 'addedTabToHarpoon', harpoonIndex: -1 }
       mockAddTabToHarpoon.mockResolvedValue(mockResponse)
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       await vi.waitFor(() => {
         expect(mockAddTabToHarpoon).toHaveBeenCalled()
@@ -251,10 +225,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       // Mock error response
       mockAddTabToHarpoon.mockRejectedValue(new Error('Failed to add'))
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       // Should show loading
       expect(mockShowHarpoonIndicatorLoading).toHaveBeenCalled()
@@ -275,10 +246,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       const mockResponse = { message: 'addedTabToHarpoon', harpoonIndex: 0 }
       mockAddTabToHarpoon.mockResolvedValue(mockResponse)
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       await vi.waitFor(() => {
         expect(mockAddTabToHarpoon).toHaveBeenCalled()
@@ -291,14 +259,89 @@ describe('Keyboard Handler - Harpoon Operations', () => {
     })
   })
 
+  describe('Key Sequence Timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+      keymapOverrides.set({})
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      keymapOverrides.set({})
+    })
+
+    it('should forget a prefix once the rest of the sequence is late', () => {
+      press(' ', 'h')
+      expect(get(keyBuffer)).toEqual(['<Space>', 'h'])
+
+      // The default timeoutlen
+      vi.advanceTimersByTime(999)
+      expect(get(keyBuffer)).toEqual(['<Space>', 'h'])
+      vi.advanceTimersByTime(1)
+      expect(get(keyBuffer)).toEqual([])
+
+      press('a')
+      expect(mockAddTabToHarpoon).not.toHaveBeenCalled()
+    })
+
+    it('should count the timeout from the last key', () => {
+      press(' ')
+      vi.advanceTimersByTime(900)
+      press('h')
+      vi.advanceTimersByTime(900)
+      press('a')
+
+      expect(mockAddTabToHarpoon).toHaveBeenCalled()
+    })
+
+    it('should wait as long as the keymap settings say', () => {
+      keymapOverrides.set({ timeoutlen: 3000 })
+
+      press(' ', 'h')
+      vi.advanceTimersByTime(2900)
+      press('a')
+
+      expect(mockAddTabToHarpoon).toHaveBeenCalled()
+    })
+
+    it('should not list hints after a count alone', () => {
+      vi.mocked(isModalOpen.subscribe).mockImplementation((callback) => {
+        callback(true)
+        return { unsubscribe: vi.fn() } as any
+      })
+      try {
+        press('5')
+        expect(get(keyBuffer)).toEqual(['5'])
+        expect(scheduleWhichKey).not.toHaveBeenCalled()
+        expect(showWhichKey).not.toHaveBeenCalled()
+
+        // Still the plain timeoutlen
+        vi.advanceTimersByTime(1000)
+        expect(get(keyBuffer)).toEqual([])
+      } finally {
+        vi.mocked(isModalOpen.subscribe).mockImplementation((callback) => {
+          callback(false)
+          return { unsubscribe: vi.fn() } as any
+        })
+      }
+    })
+
+    it('should run a binding that starts a longer one when no more keys come', () => {
+      keymapOverrides.set({ bindings: { page: { '<leader>h': 'harpoon.add' } } })
+
+      press(' ', 'h')
+      expect(mockAddTabToHarpoon).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1000)
+      expect(mockAddTabToHarpoon).toHaveBeenCalled()
+    })
+  })
+
   describe('Edge Cases', () => {
     it('should handle null response gracefully', async () => {
       mockAddTabToHarpoon.mockResolvedValue(null)
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       await vi.waitFor(() => {
         expect(mockAddTabToHarpoon).toHaveBeenCalled()
@@ -313,10 +356,7 @@ describe('Keyboard Handler - Harpoon Operations', () => {
       const mockResponse = { message: 'addedTabToHarpoon', harpoonIndex: 'invalid' }
       mockAddTabToHarpoon.mockResolvedValue(mockResponse)
 
-      mockCheckHarpoonAdd.mockReturnValue(true)
-
-      const event = new KeyboardEvent('keydown', { key: 'a' })
-      document.dispatchEvent(event)
+      press(' ', 'h', 'a')
 
       await vi.waitFor(() => {
         expect(mockAddTabToHarpoon).toHaveBeenCalled()
@@ -327,4 +367,3 @@ describe('Keyboard Handler - Harpoon Operations', () => {
     })
   })
 })
-
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest'
+import {
+  keyFromEvent,
+  parseKeys,
+  buildKeymapTrie,
+  matchKeys,
+  keymapHints,
+  moveInList,
+  countedRows,
+  validateKeymapOverrides
+} from '../keymap.js'
+
+function keydown(key: string, modifiers: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent('keydown', { key, ...modifiers })
+}
+
+describe('keymap', () => {
+  describe('keyFromEvent', () => {
+    it('should spell characters as themselves, with Shift in the character', () => {
+      expect(keyFromEvent(keydown('j'))).toBe('j')
+      expect(keyFromEvent(keydown('G', { shiftKey: true }))).toBe('G')
+      expect(keyFromEvent(keydown('?', { shiftKey: true }))).toBe('?')
+    })
+
+    it('should name other keys and chords in angle brackets', () => {
+      expect(keyFromEvent(keydown(' '))).toBe('<Space>')
+      expect(keyFromEvent(keydown('Escape'))).toBe('<Esc>')
+      expect(keyFromEvent(keydown('Enter'))).toBe('<CR>')
+      expect(keyFromEvent(keydown('Tab', { shiftKey: true }))).toBe('<S-Tab>')
+      expect(keyFromEvent(keydown('a', { ctrlKey: true }))).toBe('<C-a>')
+      expect(keyFromEvent(keydown('<'))).toBe('<lt>')
+    })
+
+    it('should ignore modifiers pressed on their own', () => {
+      expect(keyFromEvent(keydown('Shift', { shiftKey: true }))).toBeNull()
+      expect(keyFromEvent(keydown('Control', { ctrlKey: true }))).toBeNull()
+    })
+  })
+
+  describe('parseKeys', () => {
+    it('should split sequences into keys spelled like events', () => {
+      expect(parseKeys('dd')).toEqual(['d', 'd'])
+      expect(parseKeys('<leader>ho')).toEqual(['<leader>', 'h', 'o'])
+      expect(parseKeys('  ')).toEqual(['<Space>', '<Space>'])
+      expect(parseKeys('<space><ESC><enter>')).toEqual(['<Space>', '<Esc>', '<CR>'])
+      expect(parseKeys('<s-c-tab><c-S-a>')).toEqual(['<C-S-Tab>', '<C-A>'])
+    })
+
+    it('should reject names it does not know', () => {
+      expect(() => parseKeys('<Nope>')).toThrow('Unknown key "<Nope>"')
+      expect(() => parseKeys('<X-a>')).toThrow('Unknown modifier')
+    })
+  })
+
+  describe('matchKeys', () => {
+    const trie = buildKeymapTrie(
+      { '<leader><leader>': 'picker.tab', '<leader>ha': 'harpoon.add', g: 'top', gn: 'group' },
+      [',']
+    )
+
+    it('should run complete sequences and wait on prefixes', () => {
+      expect(matchKeys(trie, [',', ','])).toEqual({ kind: 'command', command: 'picker.tab' })
+      expect(matchKeys(trie, [',', 'h']).kind).toBe('prefix')
+      expect(matchKeys(trie, [',', 'x'])).toEqual({ kind: 'none' })
+    })
+
+    it('should wait on a sequence that is also the start of a longer one', () => {
+      const match = matchKeys(trie, ['g'])
+      expect(match.kind).toBe('prefix')
+      expect(match.kind === 'prefix' && match.node.command).toBe('top')
+      expect(matchKeys(trie, ['g', 'n'])).toEqual({ kind: 'command', command: 'group' })
+    })
+
+    it('should match letters in the other case only when asked to', () => {
+      expect(matchKeys(trie, [',', 'H', 'A']).kind).toBe('none')
+      expect(matchKeys(trie, [',', 'H', 'A'], { ignoreCase: true })).toEqual({
+        kind: 'command',
+        command: 'harpoon.add'
+      })
+    })
+  })
+
+  describe('counts', () => {
+    const trie = buildKeymapTrie({ j: 'down', dd: 'close', '5': 'five' }, ['<Space>'])
+
+    it('should read digits before a sequence as its count', () => {
+      expect(matchKeys(trie, ['1', '2', 'j'], { counts: true })).toEqual({
+        kind: 'command',
+        command: 'down',
+        count: 12
+      })
+      expect(matchKeys(trie, ['3', 'd'], { counts: true })).toMatchObject({
+        kind: 'prefix',
+        count: 3
+      })
+      expect(matchKeys(trie, ['3'], { counts: true })).toEqual({
+        kind: 'prefix',
+        node: trie,
+        count: 3
+      })
+    })
+
+    it('should not count digits that are bound, a leading 0, or without counts', () => {
+      expect(matchKeys(trie, ['5'], { counts: true })).toEqual({ kind: 'command', command: 'five' })
+      expect(matchKeys(trie, ['0', 'j'], { counts: true })).toEqual({ kind: 'none' })
+      expect(matchKeys(trie, ['2', 'j'])).toEqual({ kind: 'none' })
+    })
+  })
+
+  describe('moveInList', () => {
+    const position = { index: 5, rows: 20, pageRows: 9 }
+
+    it('should move by the count and stop at the ends of the list', () => {
+      expect(moveInList('list.down', position)).toBe(4)
+      expect(moveInList('list.down', position, 3)).toBe(2)
+      expect(moveInList('list.down', position, 10)).toBe(0)
+      expect(moveInList('list.up', position, 10)).toBe(15)
+      expect(moveInList('list.up', position, 100)).toBe(19)
+    })
+
+    it('should jump to the top and bottom rows, or to a row counted from the top', () => {
+      expect(moveInList('list.top', position)).toBe(19)
+      expect(moveInList('list.bottom', position)).toBe(0)
+      expect(moveInList('list.top', position, 3)).toBe(17)
+      expect(moveInList('list.bottom', position, 3)).toBe(17)
+    })
+
+    it('should move by half the rows that fit in the list', () => {
+      expect(moveInList('list.halfPageDown', position)).toBe(1)
+      expect(moveInList('list.halfPageUp', position)).toBe(9)
+      expect(moveInList('list.halfPageUp', { ...position, pageRows: 1 })).toBe(6)
+    })
+  })
+
+  describe('countedRows', () => {
+    it('should take the cursor row and those below it, as far as the list goes', () => {
+      expect(countedRows(5, 3)).toEqual([5, 4, 3])
+      expect(countedRows(1, 3)).toEqual([1, 0])
+      expect(countedRows(0, 1)).toEqual([0])
+    })
+  })
+
+  describe('keymapHints', () => {
+    const trie = buildKeymapTrie(
+      {
+        ha: 'harpoon.add',
+        '1': 'harpoon.1',
+        '2': 'harpoon.2',
+        '3': 'harpoon.3',
+        '5': 'harpoon.5',
+        yy: 'yank',
+        g: 'top',
+        gg: 'top'
+      },
+      ['<Space>'],
+      { h: 'harpoon', ha: 'not a prefix' }
+    )
+    const describe = (command: string) => command.replace('.', ' ')
+
+    it('should describe commands, name groups and collapse runs of numbered keys', () => {
+      expect(keymapHints(trie, describe)).toEqual([
+        { key: '1-3', description: 'harpoon [1-3]' },
+        { key: '5', description: 'harpoon 5' },
+        { key: 'h', description: '+harpoon' },
+        { key: 'y', description: '+prefix' },
+        { key: 'g', description: 'top' }
+      ])
+    })
+
+    it('should list the keys after a prefix', () => {
+      expect(keymapHints(trie.next.get('h')!, describe)).toEqual([
+        { key: 'a', description: 'harpoon add' }
+      ])
+    })
+  })
+
+  describe('validateKeymapOverrides', () => {
+    it('should accept a leader and bindings per mode', () => {
+      expect(
+        validateKeymapOverrides({
+          leader: ',',
+          timeoutlen: 500,
+          bindings: { normal: { n: 'list.down', j: null }, page: { '<leader>t': 'picker.tab' } }
+        })
+      ).toBeNull()
+      expect(validateKeymapOverrides({})).toBeNull()
+    })
+
+    it('should explain what is wrong', () => {
+      expect(validateKeymapOverrides([])).toBe('The keymap must be an object')
+      expect(validateKeymapOverrides({ leaders: ',' })).toContain('Unknown field "leaders"')
+      expect(validateKeymapOverrides({ leader: '' })).toContain('The leader must be a key')
+      expect(validateKeymapOverrides({ timeoutlen: -1 })).toContain('"timeoutlen" must be')
+      expect(validateKeymapOverrides({ timeoutlen: '1s' })).toContain('"timeoutlen" must be')
+      expect(validateKeymapOverrides({ bindings: { command: {} } })).toContain(
+        'Unknown mode "command"'
+      )
+      expect(validateKeymapOverrides({ bindings: { normal: { j: 3 } } })).toContain(
+        'must map to a command name or null'
+      )
+      expect(validateKeymapOverrides({ bindings: { normal: { '<Nope>': 'x' } } })).toBe(
+        'Unknown key "<Nope>"'
+      )
+      expect(validateKeymapOverrides({ bindings: { normal: ['list.down'] } })).toBe(
+        'Bindings of normal mode must map keys to commands'
+      )
+    })
+
+    it('should reject commands that do not exist', () => {
+      expect(validateKeymapOverrides({ bindings: { normal: { n: 'list.dwn' } } })).toBe(
+        'Unknown command "list.dwn" for "n" in normal mode'
+      )
+
+      // Picker commands are checked against the pickers where they are known
+      const isPickerCommand = (command: string) => ['picker.tab', 'tab:close'].includes(command)
+      const bindings = (command: string) => ({ bindings: { normal: { x: command } } })
+      expect(validateKeymapOverrides(bindings('tab:clsoe'))).toBeNull()
+      expect(validateKeymapOverrides(bindings('tab:close'), isPickerCommand)).toBeNull()
+      expect(validateKeymapOverrides(bindings('tab:clsoe'), isPickerCommand)).toBe(
+        'Unknown command "tab:clsoe" for "x" in normal mode'
+      )
+      expect(validateKeymapOverrides(bindings('picker.tabs'), isPickerCommand)).toContain(
+        'Unknown command "picker.tabs"'
+      )
+    })
+  })
+})
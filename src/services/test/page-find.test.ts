@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { indexPageBlocks, indexPageOutline, searchPageBlocks, revealPageBlock } from '../page-find.js'
+
+describe('page-find', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h1>Getting started</h1>
+      <p>Install the   extension
+        from the store.</p>
+      <ul>
+        <li><p>Open the tab picker</p></li>
+        <li>Search with fuzzy terms</li>
+      </ul>
+      <pre>npm run build</pre>
+      <p>   </p>
+      <script>var ignored = true</script>
+    `
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  describe('indexPageBlocks', () => {
+    it('should index text blocks in document order', () => {
+      const blocks = indexPageBlocks()
+
+      expect(blocks.map((block) => [block.tag, block.text])).toEqual([
+        ['h1', 'Getting started'],
+        ['p', 'Install the extension from the store.'],
+        ['p', 'Open the tab picker'],
+        ['li', 'Search with fuzzy terms'],
+        ['pre', 'npm run build']
+      ])
+    })
+
+    it('should keep neighbouring blocks as context', () => {
+      const blocks = indexPageBlocks()
+
+      expect(blocks[2].before).toEqual(['Getting started', 'Install the extension from the store.'])
+      expect(blocks[2].after).toEqual(['Search with fuzzy terms', 'npm run build'])
+      expect(blocks[0].before).toEqual([])
+    })
+  })
+
+  describe('indexPageOutline', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <header>Site header</header>
+        <nav aria-label="Primary">Links</nav>
+        <main>
+          <article>
+            <header><h2>RFC 9110</h2></header>
+            <h3>Introduction</h3>
+            <h4>Purpose</h4>
+            <h3>Conformance</h3>
+          </article>
+        </main>
+        <section aria-labelledby="refs-title"><h3 id="refs-title">References</h3></section>
+        <footer>Footer</footer>
+      `
+    })
+
+    it('should list headings and landmarks in document order', () => {
+      expect(indexPageOutline().map((block) => [block.tag, block.text])).toEqual([
+        ['banner', 'banner'],
+        ['navigation', 'Primary'],
+        ['main', 'main'],
+        ['h2', 'RFC 9110'],
+        ['h3', 'Introduction'],
+        ['h4', 'Purpose'],
+        ['h3', 'Conformance'],
+        ['region', 'References'],
+        ['h3', 'References'],
+        ['contentinfo', 'contentinfo']
+      ])
+    })
+
+    it('should indent headings relative to the top heading level', () => {
+      const depths = indexPageOutline()
+        .filter((block) => block.tag.startsWith('h'))
+        .map((block) => [block.text, block.depth])
+
+      expect(depths).toEqual([
+        ['RFC 9110', 0],
+        ['Introduction', 1],
+        ['Purpose', 2],
+        ['Conformance', 1],
+        ['References', 1]
+      ])
+    })
+
+    it('should be searchable like page blocks', () => {
+      const results = searchPageBlocks(indexPageOutline(), 'conf')
+      expect(results[0].block.text).toBe('Conformance')
+    })
+  })
+
+  describe('searchPageBlocks', () => {
+    it('should list every block for an empty query', () => {
+      const blocks = indexPageBlocks()
+      expect(searchPageBlocks(blocks, '  ')).toHaveLength(blocks.length)
+    })
+
+    it('should fuzzy match and highlight blocks', () => {
+      const [result, ...rest] = searchPageBlocks(indexPageBlocks(), 'tab pick')
+
+      expect(rest).toHaveLength(0)
+      expect(result.block.text).toBe('Open the tab picker')
+      expect(result.indices).toEqual([
+        [9, 11],
+        [13, 16]
+      ])
+    })
+
+    it('should rank better matches first, then by position on the page', () => {
+      const results = searchPageBlocks(indexPageBlocks(), 'st')
+      expect(results[0].block.text).toBe('Getting started')
+    })
+  })
+
+  describe('revealPageBlock', () => {
+    it('should scroll to the indexed element', () => {
+      const blocks = indexPageBlocks()
+
+      expect(revealPageBlock(blocks[4].index)).toBe(true)
+      expect(Element.prototype.scrollIntoView).toHaveBeenCalledWith({ block: 'center' })
+    })
+
+    it('should return false when the element is gone', () => {
+      indexPageBlocks()
+      document.body.innerHTML = ''
+
+      expect(revealPageBlock(0)).toBe(false)
+    })
+  })
+})
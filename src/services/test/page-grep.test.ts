@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { grepText, revealGrepMatch } from '../page-grep.js'
+
+const page = ['Release notes', 'Version 2.0', 'Adds live grep', 'Fixes tab search', 'Thanks', 'Footer'].join(
+  '\n'
+)
+
+describe('page-grep', () => {
+  describe('grepText', () => {
+    it('should return matching lines with context', () => {
+      const [match] = grepText(page, 'live grep')
+
+      expect(match).toMatchObject({
+        query: 'live grep',
+        line: 'Adds live grep',
+        matchStart: 5,
+        matchEnd: 14,
+        before: ['Release notes', 'Version 2.0'],
+        after: ['Fixes tab search', 'Thanks'],
+        occurrence: 0
+      })
+    })
+
+    it('should clamp context at the start and end of the text', () => {
+      expect(grepText(page, 'release')[0].before).toEqual([])
+      expect(grepText(page, 'footer')[0].after).toEqual([])
+    })
+
+    it('should apply smart case', () => {
+      expect(grepText(page, 'version')).toHaveLength(1)
+      expect(grepText(page, 'Version')).toHaveLength(1)
+      expect(grepText(page, 'VERSION')).toHaveLength(0)
+    })
+
+    it('should skip blank lines and collapse whitespace', () => {
+      const [match] = grepText('first\n\n   \nsecond    line\t here', 'line here')
+      expect(match.line).toBe('second line here')
+      expect(match.before).toEqual(['first'])
+    })
+
+    it('should count every occurrence before a match, not just matching lines', () => {
+      const matches = grepText('tab tab\nnothing\ntab again', 'tab')
+      expect(matches.map((match) => match.occurrence)).toEqual([0, 2])
+    })
+
+    it('should stop at maxMatches', () => {
+      const text = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n')
+      expect(grepText(text, 'line', { maxMatches: 5 })).toHaveLength(5)
+    })
+
+    it('should clip long lines around the match', () => {
+      const line = `${'a'.repeat(300)} needle ${'b'.repeat(300)}`
+      const [match] = grepText(line, 'needle')
+
+      expect(match.line.length).toBeLessThan(line.length)
+      expect(match.line.startsWith('…')).toBe(true)
+      expect(match.line.slice(match.matchStart, match.matchEnd)).toBe('needle')
+    })
+
+    it('should ignore empty queries', () => {
+      expect(grepText(page, '   ')).toEqual([])
+    })
+  })
+
+  describe('revealGrepMatch', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <p id="first">The tab picker</p>
+        <script>var picker = 'not text'</script>
+        <p id="second">Another tab picker here</p>
+      `
+      Element.prototype.scrollIntoView = vi.fn()
+    })
+
+    it('should select the requested occurrence and scroll to it', () => {
+      expect(revealGrepMatch({ query: 'picker', occurrence: 1 })).toBe(true)
+
+      const selection = window.getSelection()!
+      expect(selection.toString()).toBe('picker')
+      expect(selection.anchorNode?.parentElement?.id).toBe('second')
+      expect(Element.prototype.scrollIntoView).toHaveBeenCalledWith({ block: 'center' })
+    })
+
+    it('should fall back to the first occurrence when the page changed', () => {
+      expect(revealGrepMatch({ query: 'picker', occurrence: 7 })).toBe(true)
+      expect(window.getSelection()!.anchorNode?.parentElement?.id).toBe('first')
+    })
+
+    it('should return false when the text is gone', () => {
+      expect(revealGrepMatch({ query: 'missing', occurrence: 0 })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { collectPageLinks, searchPageLinks, followPageLink } from '../page-links.js'
+
+// jsdom has no layout, so place links on or off screen by hand
+const placeLink = (id: string, top: number) => {
+  document.getElementById(id)!.getBoundingClientRect = () =>
+    ({ top, bottom: top + 20, left: 0, right: 100, width: 100, height: 20 }) as DOMRect
+}
+
+describe('page-links', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <p>Read the <a id="docs" href="https://example.com/docs">documentation   guide</a> first.</p>
+      <a id="icon" href="/settings" aria-label="Settings"><svg></svg></a>
+      <a id="script" href="javascript:void(0)">Toggle</a>
+      <a id="image" href="https://example.com/home"><img alt="Home"></a>
+      <a id="anchor">No href</a>
+    `
+    placeLink('docs', 2000)
+    placeLink('icon', 10)
+    placeLink('image', 50)
+  })
+
+  describe('collectPageLinks', () => {
+    it('should collect links with their text, absolute URL and context', () => {
+      const links = collectPageLinks()
+
+      expect(links.map((link) => [link.text, link.url])).toEqual([
+        ['documentation guide', 'https://example.com/docs'],
+        ['Settings', new URL('/settings', window.location.href).href],
+        ['Home', 'https://example.com/home']
+      ])
+      expect(links[0].context).toBe('Read the documentation guide first.')
+    })
+
+    it('should know which links are on screen', () => {
+      expect(collectPageLinks().map((link) => link.onScreen)).toEqual([false, true, true])
+    })
+  })
+
+  describe('searchPageLinks', () => {
+    it('should list on-screen links first without a query', () => {
+      const results = searchPageLinks(collectPageLinks(), '')
+      expect(results.map((result) => result.item.title)).toEqual(['Settings', 'Home', 'documentation guide'])
+    })
+
+    it('should match link text and URL', () => {
+      const links = collectPageLinks()
+
+      expect(searchPageLinks(links, 'guide').map((result) => result.item.title)).toEqual(['documentation guide'])
+      expect(searchPageLinks(links, 'u:home').map((result) => result.item.title)).toEqual(['Home'])
+    })
+  })
+
+  describe('followPageLink', () => {
+    it('should click the link element', () => {
+      const [link] = collectPageLinks()
+      const click = vi.fn((event: Event) => event.preventDefault())
+      document.getElementById('docs')!.addEventListener('click', click)
+
+      followPageLink(link)
+
+      expect(click).toHaveBeenCalledTimes(1)
+    })
+  })
+})
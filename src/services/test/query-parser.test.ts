@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuery, hasFuzzyTerms, getHostname, isQueryRefinement } from '../query-parser.js'
+
+describe('parseQuery', () => {
+  it('should treat plain words as free text', () => {
+    const parsed = parseQuery('pull request')
+    expect(parsed.text).toBe('pull request')
+    expect(parsed.domains).toEqual([])
+    expect(parsed.excludes).toEqual([])
+  })
+
+  it('should parse domain filters with short and long names', () => {
+    expect(parseQuery('d:github.com pull').domains).toEqual(['github.com'])
+    expect(parseQuery('domain:GitHub.com').domains).toEqual(['github.com'])
+    expect(parseQuery('d:github.com pull').text).toBe('pull')
+  })
+
+  it('should parse field-scoped terms', () => {
+    const parsed = parseQuery('t:pull u:issues')
+    expect(parsed.titleTerms).toEqual(['pull'])
+    expect(parsed.urlTerms).toEqual(['issues'])
+    expect(parsed.text).toBe('')
+  })
+
+  it('should parse exclusions', () => {
+    const parsed = parseQuery('docs -Staging -beta')
+    expect(parsed.excludes).toEqual(['staging', 'beta'])
+    expect(parsed.text).toBe('docs')
+  })
+
+  it('should keep a lone dash as text', () => {
+    expect(parseQuery('a - b').text).toBe('a - b')
+  })
+
+  it('should parse harpoon and window filters', () => {
+    const parsed = parseQuery('h: w:42 w:nope')
+    expect(parsed.harpoonOnly).toBe(true)
+    expect(parsed.windowIds).toEqual([42])
+  })
+
+  it('should parse group filters, keeping a bare g: for any group', () => {
+    expect(parseQuery('g:Work').groups).toEqual(['work'])
+    expect(parseQuery('group: pull').groups).toEqual([''])
+    expect(parseQuery('group: pull').text).toBe('pull')
+  })
+
+  it('should treat unknown operators as free text', () => {
+    expect(parseQuery('https://example.com').text).toBe('https://example.com')
+    expect(parseQuery('foo:bar').text).toBe('foo:bar')
+  })
+
+  it('should ignore operators without a value', () => {
+    const parsed = parseQuery('d: t:')
+    expect(parsed.domains).toEqual([])
+    expect(parsed.titleTerms).toEqual([])
+  })
+})
+
+describe('hasFuzzyTerms', () => {
+  it('should be false for filter-only queries', () => {
+    expect(hasFuzzyTerms(parseQuery('d:github.com -foo h:'))).toBe(false)
+  })
+
+  it('should be true when any text term is present', () => {
+    expect(hasFuzzyTerms(parseQuery('pull'))).toBe(true)
+    expect(hasFuzzyTerms(parseQuery('t:pull'))).toBe(true)
+    expect(hasFuzzyTerms(parseQuery('u:pull'))).toBe(true)
+  })
+})
+
+describe('getHostname', () => {
+  it('should extract lowercase hostnames', () => {
+    expect(getHostname('https://GitHub.com/foo')).toBe('github.com')
+  })
+
+  it('should fall back to the raw string for invalid URLs', () => {
+    expect(getHostname('not a url')).toBe('not a url')
+  })
+})
+
+describe('isQueryRefinement', () => {
+  it('should be true when the last term keeps growing', () => {
+    expect(isQueryRefinement('pu', 'pul')).toBe(true)
+    expect(isQueryRefinement("'pu", "'pul")).toBe(true)
+    expect(isQueryRefinement('d:git', 'd:github')).toBe(true)
+    expect(isQueryRefinement('t:pu', 't:pull')).toBe(true)
+  })
+
+  it('should be true when terms are added', () => {
+    expect(isQueryRefinement('pull ', 'pull -draft')).toBe(true)
+    expect(isQueryRefinement('pull ', 'pull w:2')).toBe(true)
+  })
+
+  it('should be false when the query was edited rather than extended', () => {
+    expect(isQueryRefinement('pull', 'pul')).toBe(false)
+    expect(isQueryRefinement('pull', 'push')).toBe(false)
+    expect(isQueryRefinement('', 'p')).toBe(false)
+  })
+
+  it('should be false when growing the term can widen its matches', () => {
+    expect(isQueryRefinement('-f', '-foo')).toBe(false)
+    expect(isQueryRefinement('w:1', 'w:12')).toBe(false)
+    expect(isQueryRefinement('com$', 'com$x')).toBe(false)
+    expect(isQueryRefinement('^', '^a')).toBe(false)
+  })
+
+  it('should be false when free text may be turning into an operator', () => {
+    expect(isQueryRefinement('d', 'd:')).toBe(false)
+    expect(isQueryRefinement('titl', 'title')).toBe(false)
+  })
+})
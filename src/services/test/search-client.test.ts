@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Tab, SearchPortRequest, SearchPortResponse } from '../../types/shared.js'
+import { SearchClient } from '../search-client.js'
+
+const createTab = (id: number, title: string, url: string): Tab => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  screenshotUrl: 'data:image/png;base64,AAAA',
+  windowId: 1
+})
+
+// Fake service worker end of the search port
+const createMockPort = () => {
+  const messageListeners: Array<(response: SearchPortResponse) => void> = []
+  const disconnectListeners: Array<() => void> = []
+  const port = {
+    postMessage: vi.fn<(request: SearchPortRequest) => void>(),
+    disconnect: vi.fn(),
+    onMessage: { addListener: (listener: (response: SearchPortResponse) => void) => messageListeners.push(listener) },
+    onDisconnect: { addListener: (listener: () => void) => disconnectListeners.push(listener) }
+  }
+  return {
+    port,
+    respond: (response: SearchPortResponse) => messageListeners.forEach((listener) => listener(response)),
+    disconnect: () => disconnectListeners.forEach((listener) => listener()),
+    sentRequests: () => port.postMessage.mock.calls.map(([request]) => request)
+  }
+}
+
+describe('SearchClient', () => {
+  const tabs = [
+    createTab(1, 'Pull requests', 'https://github.com/pulls'),
+    createTab(2, 'Inbox', 'https://mail.example.com')
+  ]
+
+  let mock: ReturnType<typeof createMockPort>
+  let client: SearchClient
+
+  beforeEach(() => {
+    mock = createMockPort()
+    ;(chrome.runtime as unknown as { connect: unknown }).connect = vi.fn(() => mock.port)
+    client = new SearchClient()
+  })
+
+  afterEach(() => {
+    delete (chrome.runtime as unknown as { connect?: unknown }).connect
+  })
+
+  it('should send the tab list without screenshots before searching', () => {
+    client.search(tabs, 'inbox', [])
+
+    const [setTabs, search] = mock.sentRequests()
+    expect(setTabs).toEqual({
+      type: 'setTabs',
+      tabs: [
+        { id: 1, title: 'Pull requests', url: 'https://github.com/pulls', windowId: 1 },
+        { id: 2, title: 'Inbox', url: 'https://mail.example.com', windowId: 1 }
+      ]
+    })
+    expect(search).toEqual({ type: 'search', requestId: 1, query: 'inbox', harpoonTabIds: [] })
+  })
+
+  it('should only resend tabs when the list changes', () => {
+    client.search(tabs, 'i', [])
+    client.search(tabs, 'in', [])
+    client.search([...tabs], 'inb', [])
+
+    const types = mock.sentRequests().map((request) => request.type)
+    expect(types).toEqual(['setTabs', 'search', 'search', 'setTabs', 'search'])
+  })
+
+  it('should resolve with the tabs for the returned hits', async () => {
+    const promise = client.search(tabs, 'inbox', [])
+    mock.respond({
+      type: 'results',
+      requestId: 1,
+      hits: [{ tabId: 2, refIndex: 1, score: 0, matches: [{ key: 'title', indices: [[0, 4]] }] }]
+    })
+
+    const results = await promise
+    expect(results).toEqual([
+      { item: tabs[1], refIndex: 1, score: 0, matches: [{ key: 'title', indices: [[0, 4]] }] }
+    ])
+  })
+
+  it('should resolve superseded searches with null and ignore their late responses', async () => {
+    const first = client.search(tabs, 'i', [])
+    const second = client.search(tabs, 'in', [])
+
+    mock.respond({ type: 'results', requestId: 1, hits: [{ tabId: 1, refIndex: 0, score: 0.5, matches: [] }] })
+    mock.respond({ type: 'results', requestId: 2, hits: [{ tabId: 2, refIndex: 1, score: 0, matches: [] }] })
+
+    expect(await first).toBeNull()
+    expect((await second)?.map((result) => result.item.id)).toEqual([2])
+  })
+
+  it('should resolve with null when cancelled', async () => {
+    const promise = client.search(tabs, 'inbox', [])
+    client.cancel()
+
+    expect(await promise).toBeNull()
+    expect(mock.sentRequests().at(-1)).toEqual({ type: 'cancel' })
+  })
+
+  it('should finish the search locally when the service worker disconnects', async () => {
+    const promise = client.search(tabs, 'inbox', [])
+    mock.disconnect()
+
+    expect((await promise)?.map((result) => result.item.id)).toEqual([2])
+  })
+
+  it('should search locally when the service worker reports an error', async () => {
+    const promise = client.search(tabs, 'pull', [])
+    mock.respond({ type: 'error', requestId: 1, error: 'boom' })
+
+    expect((await promise)?.map((result) => result.item.id)).toEqual([1])
+  })
+
+  it('should reconnect and resync tabs after a disconnect', () => {
+    client.search(tabs, 'i', [])
+    mock.disconnect()
+    client.search(tabs, 'in', [])
+
+    expect(chrome.runtime.connect).toHaveBeenCalledTimes(2)
+    expect(mock.sentRequests().filter((request) => request.type === 'setTabs')).toHaveLength(2)
+  })
+
+  it('should search locally when it cannot connect', async () => {
+    ;(chrome.runtime as unknown as { connect: unknown }).connect = vi.fn(() => {
+      throw new Error('Extension context invalidated.')
+    })
+
+    const results = await new SearchClient().search(tabs, 'h:', [1])
+    expect(results?.map((result) => result.item.id)).toEqual([1])
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { searchTabs, IncrementalTabSearch } from '../search.js'
+import type { Tab } from '../../types/shared.js'
+
+const createTab = (id: number, title: string, url: string, windowId = 1): Tab => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId
+})
+
+describe('searchTabs', () => {
+  const tabs: Tab[] = [
+    createTab(1, 'Pull requests', 'https://github.com/org/repo/pulls'),
+    createTab(2, 'Pull-up exercises', 'https://fitness.example.com/pull-ups'),
+    createTab(3, 'Issues', 'https://github.com/org/repo/issues', 2),
+    createTab(4, 'Staging dashboard', 'https://staging.github.com/dashboard')
+  ]
+
+  const ids = (results: ReturnType<typeof searchTabs>) => results.map((result) => result.item.id)
+
+  it('should fuzzy match free text against title and URL', () => {
+    expect(ids(searchTabs(tabs, 'pull'))).toEqual(expect.arrayContaining([1, 2]))
+  })
+
+  it('should restrict results to a domain', () => {
+    expect(ids(searchTabs(tabs, 'd:github.com pull'))).toEqual([1])
+  })
+
+  it('should return filtered tabs in original order for filter-only queries', () => {
+    expect(ids(searchTabs(tabs, 'd:github.com'))).toEqual([1, 3, 4])
+  })
+
+  it('should exclude tabs matching a negated term', () => {
+    expect(ids(searchTabs(tabs, 'd:github.com -staging'))).toEqual([1, 3])
+  })
+
+  it('should only match the title for t: terms', () => {
+    expect(ids(searchTabs(tabs, 't:issues'))).toEqual([3])
+    expect(ids(searchTabs(tabs, 't:dashboard'))).toEqual([4])
+    expect(ids(searchTabs(tabs, 't:github'))).toEqual([])
+  })
+
+  it('should only match the URL for u: terms', () => {
+    expect(ids(searchTabs(tabs, 'u:fitness'))).toEqual([2])
+  })
+
+  it('should filter harpooned tabs', () => {
+    const results = searchTabs(tabs, 'h:', { harpoonTabIds: new Set([3, 4]) })
+    expect(ids(results)).toEqual([3, 4])
+  })
+
+  it('should filter by window', () => {
+    expect(ids(searchTabs(tabs, 'w:2'))).toEqual([3])
+  })
+
+  it('should filter by tab group name', () => {
+    const grouped = [
+      { ...tabs[0], groupId: 7, groupTitle: 'Code Review' },
+      { ...tabs[1], groupId: 8, groupTitle: '' },
+      tabs[2]
+    ]
+    expect(ids(searchTabs(grouped, 'g:review'))).toEqual([1])
+    expect(ids(searchTabs(grouped, 'group:'))).toEqual([1, 2])
+    expect(ids(searchTabs(grouped, 'g:review issues'))).toEqual([])
+  })
+
+  it('should match single character queries', () => {
+    expect(ids(searchTabs(tabs, 'i'))).toEqual(expect.arrayContaining([3]))
+  })
+
+  it('should require every space separated term to match', () => {
+    expect(ids(searchTabs(tabs, 'pull github'))).toEqual([1])
+  })
+
+  it('should support exact and anchored terms', () => {
+    expect(ids(searchTabs(tabs, "t:'dash"))).toEqual([4])
+    expect(ids(searchTabs(tabs, '^pull'))).toEqual(expect.arrayContaining([1, 2]))
+    expect(ids(searchTabs(tabs, 'pulls$'))).toEqual([1])
+  })
+
+  it('should rank word boundary and contiguous matches first', () => {
+    expect(ids(searchTabs(tabs, 'iss'))[0]).toBe(3)
+  })
+
+  it('should return normalised scores', () => {
+    for (const result of searchTabs(tabs, 'pull')) {
+      expect(result.score).toBeGreaterThanOrEqual(0)
+      expect(result.score).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('should keep match indices for highlighting', () => {
+    const [result] = searchTabs(tabs, 'd:fitness t:exercises')
+    const titleMatch = result.matches?.find((match) => match.key === 'title')
+    expect(titleMatch?.indices.length).toBeGreaterThan(0)
+  })
+})
+
+describe('IncrementalTabSearch', () => {
+  const words = ['pull', 'request', 'issue', 'docs', 'github', 'mail', 'inbox', 'search', 'tab', 'review']
+  const tabs: Tab[] = Array.from({ length: 2000 }, (_, index) =>
+    createTab(
+      index,
+      `${words[index % 10]} ${words[(index * 7) % 10]} ${index}`,
+      `https://${words[(index * 3) % 10]}.example.com/${words[(index * 11) % 10]}/${index}`,
+      (index % 3) + 1
+    )
+  )
+
+  it('should return the same results as a full search while typing', () => {
+    const tabSearch = new IncrementalTabSearch()
+    const typed = "d:git t:'rev -1 pull w:2 ^is iss$ r"
+
+    for (let length = 1; length <= typed.length; length++) {
+      const query = typed.slice(0, length)
+      expect(tabSearch.search(tabs, query)).toEqual(searchTabs(tabs, query))
+    }
+  })
+
+  it('should search all tabs again after the query is edited', () => {
+    const tabSearch = new IncrementalTabSearch()
+    tabSearch.search(tabs, 'inbox')
+    expect(tabSearch.search(tabs, 'docs')).toEqual(searchTabs(tabs, 'docs'))
+  })
+
+  it('should search all tabs again when the tab list changes', () => {
+    const tabSearch = new IncrementalTabSearch()
+    tabSearch.search(tabs, 'inb')
+    const moreTabs = [...tabs, createTab(5000, 'Unrelated', 'https://unrelated.example.com')]
+    expect(ids(tabSearch.search(moreTabs, 'unrel'))).toEqual([5000])
+  })
+
+  const ids = (results: ReturnType<typeof searchTabs>) => results.map((result) => result.item.id)
+})
@@ -148,4 +148,45 @@ describe('SettingsService', () => {
       expect(mockStorage.read).toHaveBeenCalledWith('excludedSites')
     })
   })
-})
\ No newline at end of file
+  describe('history days', () => {
+    it('should default to a week', async () => {
+      mockStorage.read.mockResolvedValue(null)
+
+      expect(await settingsService.getHistoryDays()).toBe(7)
+      expect(mockStorage.read).toHaveBeenCalledWith('historyDays')
+    })
+
+    it('should return the saved number of days', async () => {
+      mockStorage.read.mockResolvedValue(30)
+
+      expect(await settingsService.getHistoryDays()).toBe(30)
+    })
+
+    it('should keep saved days between one day and a year', async () => {
+      await settingsService.setHistoryDays(0)
+      await settingsService.setHistoryDays(1000)
+      await settingsService.setHistoryDays(2.6)
+
+      expect(mockStorage.write.mock.calls).toEqual([
+        ['historyDays', 1],
+        ['historyDays', 365],
+        ['historyDays', 3]
+      ])
+    })
+  })
+
+  describe('searchAllWindows', () => {
+    it('should default to this window only', async () => {
+      mockStorage.read.mockResolvedValue(null)
+
+      expect(await settingsService.getSearchAllWindows()).toBe(false)
+      expect(mockStorage.read).toHaveBeenCalledWith('searchAllWindows')
+    })
+
+    it('should save the default scope', async () => {
+      await settingsService.setSearchAllWindows(true)
+
+      expect(mockStorage.write).toHaveBeenCalledWith('searchAllWindows', true)
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { writable } from 'svelte/store'
+import type { Bookmark, PickerItem, SearchableTab, SearchMatch } from '../types/shared.js'
+import { getBookmarks } from '../services/service-worker-bridge.js'
+import { searchTabs } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { tabsLogger } from '../utils/logger.js'
+
+// All bookmarks, flattened, loaded when the picker opens
+export const bookmarks = writable<Bookmark[]>([])
+
+export async function loadBookmarks() {
+  try {
+    bookmarks.set(await getBookmarks())
+  } catch (error) {
+    tabsLogger.error('Failed to load bookmarks:', error)
+  }
+}
+
+/**
+ * Label a bookmark with the folders it sits in, e.g. "Bookmarks bar / Work / Wiki"
+ */
+export function bookmarkLabel(bookmark: Bookmark): string {
+  return [...bookmark.folderPath, bookmark.title].join(' / ')
+}
+
+/**
+ * Search bookmarks by folder path, title and URL with the tab search syntax; without a
+ * query they stay in bookmark tree order
+ */
+export function searchBookmarks(items: Bookmark[], query: string): PickerItem[] {
+  const searchable: (SearchableTab & { bookmark: Bookmark })[] = items.map((bookmark, index) => ({
+    id: index,
+    title: bookmarkLabel(bookmark),
+    url: bookmark.url,
+    windowId: -1,
+    bookmark
+  }))
+
+  return searchTabs(searchable, query).map(({ item, matches }) => toBookmarkItem(item.bookmark, matches))
+}
+
+/**
+ * A picker row for a bookmark; its title is the folder path label
+ */
+export function toBookmarkItem(bookmark: Bookmark, matches: SearchMatch[] = []): PickerItem {
+  const title = bookmarkLabel(bookmark)
+  const titleMatch = matches.find((match) => match.key === 'title')
+  const urlMatch = matches.find((match) => match.key === 'url')
+
+  return {
+    key: `bookmark:${bookmark.id}`,
+    source: 'bookmark',
+    title,
+    url: bookmark.url,
+    faviconUrl: bookmark.faviconUrl,
+    screenshotUrl: '',
+    bookmark,
+    titleSegments: toMatchSegments(title, titleMatch?.indices),
+    urlSegments: toMatchSegments(bookmark.url, urlMatch?.indices)
+  }
+}
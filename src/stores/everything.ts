@@ -0,0 +1,95 @@
+import type { Bookmark, HistoryEntry, ItemSource, PickerItem, SearchableTab, SearchMatch, Tab } from '../types/shared.js'
+import type { SearchResult } from '../services/search.js'
+import { toTabItem } from '../utils/picker-items.js'
+import { loadBookmarks, bookmarkLabel, toBookmarkItem } from './bookmarks.js'
+import { loadHistory, toHistoryItem } from './history.js'
+
+export type EverythingSources = {
+  tabs: Tab[]
+  harpoonTabs: Tab[]
+  bookmarks: Bookmark[]
+  history: HistoryEntry[]
+}
+
+// Searched like tabs; the other sources get negative ids so `h:` only ever matches tabs
+export type EverythingItem = SearchableTab & { toItem: (matches: SearchMatch[]) => PickerItem }
+
+// Rows for the same page are listed together, open tabs first
+const SOURCE_RANK: Partial<Record<ItemSource, number>> = {
+  harpoon: 0,
+  tab: 0,
+  bookmark: 1,
+  history: 2
+}
+
+// Tabs and harpoon come from the tab sync that runs whenever the modal opens
+export function loadEverything() {
+  return Promise.all([loadBookmarks(), loadHistory()])
+}
+
+/**
+ * Open tabs, bookmarks and history as one list that searches with the tab search syntax.
+ * Build it once per change of the sources, not per query, so the search can narrow its
+ * previous matches as the query grows.
+ */
+export function everythingCorpus(sources: EverythingSources): EverythingItem[] {
+  const harpoonSlots = new Map(sources.harpoonTabs.map((tab, index) => [tab.id, index + 1]))
+
+  return [
+    ...sources.tabs.map((tab) => ({
+      id: tab.id,
+      title: tab.title,
+      url: tab.url,
+      windowId: tab.windowId,
+      toItem: (matches: SearchMatch[]) => {
+        const harpoonSlot = harpoonSlots.get(tab.id)
+        return harpoonSlot === undefined
+          ? toTabItem(tab, matches)
+          : toTabItem(tab, matches, { source: 'harpoon', harpoonSlot })
+      }
+    })),
+    ...sources.bookmarks.map((bookmark) => ({
+      title: bookmarkLabel(bookmark),
+      url: bookmark.url,
+      toItem: (matches: SearchMatch[]) => toBookmarkItem(bookmark, matches)
+    })),
+    ...sources.history.map((entry) => ({
+      title: entry.title,
+      url: entry.url,
+      toItem: (matches: SearchMatch[]) => toHistoryItem(entry, matches)
+    }))
+  ].map((item, index) => ({ id: -(index + 1), windowId: -1, ...item }))
+}
+
+/**
+ * Rows for search results over the corpus, in rank order with rows for the same page kept
+ * together and the open tab first. Without a query, pass the whole corpus: tabs come first
+ * (most recent first), then bookmarks, then history.
+ */
+export function everythingRows(
+  results: Pick<SearchResult<EverythingItem>, 'item' | 'matches'>[]
+): PickerItem[] {
+  return groupByPage(results.map(({ item, matches }) => item.toItem(matches)))
+}
+
+/**
+ * Keep rows for the same page together, at the position of the best ranked one, with open
+ * tabs ahead of bookmarks and history
+ */
+function groupByPage(items: PickerItem[]): PickerItem[] {
+  const pages = new Map<string, PickerItem[]>()
+
+  for (const item of items) {
+    const page = item.url.split('#')[0]
+    const group = pages.get(page)
+    if (group) {
+      group.push(item)
+    } else {
+      pages.set(page, [item])
+    }
+  }
+
+  return Array.from(pages.values()).flatMap((group) =>
+    group.sort((a, b) => (SOURCE_RANK[a.source] ?? 0) - (SOURCE_RANK[b.source] ?? 0))
+  )
+}
@@ -0,0 +1,86 @@
+import { writable } from 'svelte/store'
+import type { GrepMatch, GrepTabResult, MatchSegment, PickerItem } from '../types/shared.js'
+import { grepTabs } from '../services/service-worker-bridge.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { toTabItem } from '../utils/picker-items.js'
+import { searchLogger } from '../utils/logger.js'
+
+// Shorter queries match nearly every line of every page
+export const GREP_MIN_QUERY_LENGTH = 2
+const GREP_DEBOUNCE_MS = 200
+
+export type GrepStatus = 'idle' | 'searching' | 'done'
+
+export const grepStatus = writable<GrepStatus>('idle')
+
+let lastQuery: string | null = null
+let latestGrepId = 0
+let debounceTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Grep all open tabs for a query once typing pauses.
+ *
+ * Every tab is messaged for each search, so repeated calls with the same query are ignored
+ * and only the latest query's results are ever passed to onResults.
+ */
+export function runLiveGrep(query: string, onResults: (results: GrepTabResult[]) => void) {
+  if (query === lastQuery) {
+    return
+  }
+  cancelLiveGrep()
+  lastQuery = query
+
+  if (query.trim().length < GREP_MIN_QUERY_LENGTH) {
+    onResults([])
+    return
+  }
+
+  const grepId = latestGrepId
+  grepStatus.set('searching')
+
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null
+    grepTabs(query)
+      .then((results) => {
+        if (grepId !== latestGrepId) return
+        grepStatus.set('done')
+        onResults(results)
+      })
+      .catch((error) => {
+        if (grepId !== latestGrepId) return
+        grepStatus.set('done')
+        searchLogger.error('Live grep failed:', error)
+      })
+  }, GREP_DEBOUNCE_MS)
+}
+
+/**
+ * Drop any pending or running grep, e.g. when leaving grep mode
+ */
+export function cancelLiveGrep() {
+  latestGrepId++
+  lastQuery = null
+  if (debounceTimer) {
+    clearTimeout(debounceTimer)
+    debounceTimer = null
+  }
+  grepStatus.set('idle')
+}
+
+/**
+ * One row per matching line, so a tab is listed once for each of its matches
+ */
+export function toGrepRows(results: GrepTabResult[]): PickerItem[] {
+  return results.flatMap(({ tab, matches }) =>
+    matches.map((match, index) => ({
+      ...toTabItem(tab),
+      key: `${tab.id}:${index}`,
+      source: 'grep' as const,
+      grepMatch: match
+    }))
+  )
+}
+
+export function grepLineSegments(match: GrepMatch): MatchSegment[] {
+  return toMatchSegments(match.line, [[match.matchStart, match.matchEnd - 1]])
+}
@@ -0,0 +1,53 @@
+import { writable } from 'svelte/store'
+import type { HistoryEntry, PickerItem, SearchableTab, SearchMatch } from '../types/shared.js'
+import { getHistory } from '../services/service-worker-bridge.js'
+import { searchTabs } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { tabsLogger } from '../utils/logger.js'
+
+// Recently visited pages, most recent first, loaded when the picker opens
+export const historyEntries = writable<HistoryEntry[]>([])
+
+export async function loadHistory() {
+  try {
+    historyEntries.set(await getHistory())
+  } catch (error) {
+    tabsLogger.error('Failed to load history:', error)
+  }
+}
+
+/**
+ * Search history by title and URL with the tab search syntax; without a query the most
+ * recent visits come first
+ */
+export function searchHistory(entries: HistoryEntry[], query: string): PickerItem[] {
+  const searchable: (SearchableTab & { entry: HistoryEntry })[] = entries.map((entry, index) => ({
+    id: index,
+    title: entry.title,
+    url: entry.url,
+    windowId: -1,
+    entry
+  }))
+
+  return searchTabs(searchable, query).map(({ item, matches }) => toHistoryItem(item.entry, matches))
+}
+
+/**
+ * A picker row for a history entry
+ */
+export function toHistoryItem(entry: HistoryEntry, matches: SearchMatch[] = []): PickerItem {
+  const titleMatch = matches.find((match) => match.key === 'title')
+  const urlMatch = matches.find((match) => match.key === 'url')
+
+  return {
+    key: `history:${entry.id}`,
+    source: 'history',
+    title: entry.title,
+    url: entry.url,
+    faviconUrl: entry.faviconUrl,
+    screenshotUrl: '',
+    historyEntry: entry,
+    titleSegments: toMatchSegments(entry.title, titleMatch?.indices),
+    urlSegments: toMatchSegments(entry.url, urlMatch?.indices)
+  }
+}
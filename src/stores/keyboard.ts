@@ -1,169 +1,144 @@
-import { writable, derived } from 'svelte/store'
-
-// Core keyboard state
+import { writable, get } from 'svelte/store'
+import type { ModalMode } from '../types/shared.js'
+import { describePickerCommand, pickerSources } from '../pickers/registry.js'
+import { getKeymap } from '../services/service-worker-bridge.js'
+import {
+  COMMAND_DESCRIPTIONS,
+  DEFAULT_LEADER,
+  DEFAULT_TIMEOUTLEN,
+  KEY_GROUPS,
+  buildKeymapTrie,
+  keymapHints,
+  matchKeys,
+  parseKeys,
+  resolveModeBindings,
+  type KeyMatch,
+  type KeymapMode,
+  type KeymapNode,
+  type KeymapOverrides,
+  type ModeBindings
+} from '../services/keymap.js'
+import { keyboardLogger } from '../utils/logger.js'
+
+// Keys typed so far of a sequence that isn't complete yet, in key notation
 export const keyBuffer = writable<string[]>([])
 
-// Submenu state for hierarchical commands
-export const harpoonSubmenuActive = writable<boolean>(false)
-export const harpoonSubmenuTimeout = writable<number | null>(null)
-
-
-// Derived stores
-export const lastTwoKeys = derived(keyBuffer, ($buffer) => {
-  return $buffer.slice(-2)
-})
+// The user's changes to the built-in keymap, from the settings
+export const keymapOverrides = writable<KeymapOverrides>({})
 
-export const lastThreeKeys = derived(keyBuffer, ($buffer) => {
-  return $buffer.slice(-3)
-})
+// Tries by mode and picker, built on first use
+const tries = new Map<string, KeymapNode>()
+keymapOverrides.subscribe(() => tries.clear())
 
 // Actions
 export function addKeyToBuffer(key: string) {
-  keyBuffer.update(buffer => {
-    const newBuffer = [...buffer, key]
-    // Keep buffer manageable size
-    if (newBuffer.length > 10) {
-      return newBuffer.slice(-10)
-    }
-    return newBuffer
-  })
+  keyBuffer.update((buffer) => [...buffer, key])
 }
 
 export function clearKeyBuffer() {
   keyBuffer.set([])
-  clearHarpoonSubmenu()
 }
 
-// Submenu management
-export function activateHarpoonSubmenu() {
-  harpoonSubmenuActive.set(true)
-  
-  // Clear any existing timeout
-  harpoonSubmenuTimeout.update(currentTimeout => {
-    if (currentTimeout) {
-      clearTimeout(currentTimeout)
-    }
-    return null
-  })
-  
-  // Set timeout to show hints after 1 second (for when which-key is not already visible)
-  const timeoutId = setTimeout(() => {
-    // Directly import and show the hints
-    import('../stores/which-key.js').then(({ scheduleWhichKey }) => {
-      const hints = getHarpoonSubmenuHints()
-      scheduleWhichKey(hints, 0) // Show immediately since we already waited 1 second
-    })
-  }, 1000) as unknown as number
-  
-  harpoonSubmenuTimeout.set(timeoutId)
+export async function loadKeymap() {
+  try {
+    keymapOverrides.set(await getKeymap())
+  } catch (error) {
+    keyboardLogger.error('Failed to load the keymap, using the built-in one:', error)
+  }
 }
 
-export function clearHarpoonSubmenu() {
-  harpoonSubmenuActive.set(false)
-  harpoonSubmenuTimeout.update(currentTimeout => {
-    if (currentTimeout) {
-      clearTimeout(currentTimeout)
+/**
+ * The leader's keys; a leader the settings spell wrong falls back to the default
+ */
+export function leaderKeys(): string[] {
+  const leader = get(keymapOverrides).leader
+  try {
+    if (leader && parseKeys(leader).length > 0) {
+      return parseKeys(leader)
     }
-    return null
-  })
-}
-
-
-// Key combination checkers
-export function checkModalTrigger(keys: string[]): 'tab' | 'harpoon' | null {
-  const combo = keys.join('').toLowerCase()
-  
-  // Handle tab modal trigger
-  if (combo === '  ') {
-    return 'tab'
-  }
-  
-  // Handle harpoon modal open command (space h o)
-  if (keys.length === 3 && combo === ' ho') {
-    clearHarpoonSubmenu()
-    return 'harpoon'
+  } catch (error) {
+    keyboardLogger.warn(`Ignoring the leader "${leader}":`, error)
   }
-  
-  // Note: space h submenu activation is now handled directly in keyboard-handler.ts
-  
-  return null
+  return parseKeys(DEFAULT_LEADER)
 }
 
-export function checkEscapeSequence(keys: string[]): boolean {
-  return keys.length === 2 && keys.every(key => key === 'Escape')
+// How long pending keys wait for the next one, in milliseconds
+export function timeoutLength(): number {
+  return get(keymapOverrides).timeoutlen ?? DEFAULT_TIMEOUTLEN
 }
 
-export function checkHarpoonAdd(keys: string[]): boolean {
-  const combo = keys.join('').toLowerCase()
-  
-  // Check for new hierarchical command (space h a)
-  if (keys.length === 3 && combo === ' ha') {
-    clearHarpoonSubmenu()
-    return true
+// Keys after the leader that open each picker, and the pickers' own bindings
+function pickerBindings(mode: KeymapMode, picker: ModalMode | null): ModeBindings {
+  if (mode === 'page') {
+    return Object.fromEntries(
+      pickerSources().map((source) => [`<leader>${source.keymap.open}`, `picker.${source.mode}`])
+    )
   }
-  
-  return false
+
+  const source = pickerSources().find((candidate) => candidate.mode === picker)
+  return Object.fromEntries(
+    (source?.keymap.bindings ?? [])
+      .filter((binding) => binding.modes.includes(mode))
+      .map((binding) => [binding.keys, `${source!.mode}:${binding.action}`])
+  )
 }
 
-export function checkHarpoonRemove(keys: string[]): boolean {
-  const combo = keys.join('').toLowerCase()
-  
-  // Check for new hierarchical command (space h r)
-  if (keys.length === 3 && combo === ' hr') {
-    clearHarpoonSubmenu()
-    return true
+/**
+ * The keymap of a mode; in the modal's modes, with the bindings of the picker it shows
+ */
+export function keymapFor(mode: KeymapMode, picker: ModalMode | null): KeymapNode {
+  const cacheKey = `${mode}:${picker}`
+  let trie = tries.get(cacheKey)
+  if (!trie) {
+    trie = buildTrie(mode, picker)
+    tries.set(cacheKey, trie)
   }
-  
-  return false
+  return trie
 }
 
-export function checkLastTab(keys: string[]): boolean {
-  const combo = keys.join('').toLowerCase()
-  
-  // Check for last tab command (space l)
-  if (keys.length === 2 && combo === ' l') {
-    return true
+function buildTrie(mode: KeymapMode, picker: ModalMode | null): KeymapNode {
+  const overrides = get(keymapOverrides)
+  try {
+    const bindings = resolveModeBindings(mode, pickerBindings(mode, picker), overrides, picker)
+    return buildKeymapTrie(bindings, leaderKeys(), KEY_GROUPS[mode])
+  } catch (error) {
+    // The settings are checked when saved, but a broken keymap must not lock the user out
+    keyboardLogger.error(`Ignoring the keymap settings of ${mode} mode:`, error)
+    const bindings = resolveModeBindings(mode, pickerBindings(mode, picker), {}, picker)
+    return buildKeymapTrie(bindings, parseKeys(DEFAULT_LEADER), KEY_GROUPS[mode])
   }
-  
-  return false
 }
 
-
-export function checkHarpoonSwitch(keys: string[]): number | null {
-  const numbers = ['1', '2', '3', '4', '5', '6', '7', '8', '9']
-  if (keys.length === 2 && keys[0] === ' ' && numbers.includes(keys[1])) {
-    return parseInt(keys[1]) - 1
-  }
-  return null
+/**
+ * What a key sequence runs in a mode. On the page, letters match in either case, so
+ * sequences work with Caps Lock on; in the list's normal and visual modes, a count can
+ * come first.
+ */
+export function resolveKeys(mode: KeymapMode, picker: ModalMode | null, keys: string[]): KeyMatch {
+  return matchKeys(keymapFor(mode, picker), keys, {
+    ignoreCase: mode === 'page',
+    counts: mode === 'normal' || mode === 'visual'
+  })
 }
 
-export function checkDeleteSequence(keys: string[]): boolean {
-  return keys.join('').toLowerCase() === 'dd'
+// What which-key lists for a command; commands it doesn't know by their name
+export function describeCommand(command: string): string {
+  return describePickerCommand(command) ?? COMMAND_DESCRIPTIONS[command] ?? command
 }
 
-// Check if we should clear submenu due to invalid key after "space h"
-export function checkSubmenuInvalidation(keys: string[]): boolean {
-  const combo = keys.join('').toLowerCase()
-  
-  // If we have "space h" followed by an invalid key, clear harpoon submenu
-  if (keys.length === 3 && combo.startsWith(' h')) {
-    const lastKey = combo[2]
-    const validHarpoonKeys = ['o', 'a', 'r']
-    
-    if (!validHarpoonKeys.includes(lastKey)) {
-      clearHarpoonSubmenu()
-      return true
-    }
+/**
+ * Which-key hints for the keys that can follow the pending ones, none when they aren't
+ * the start of a sequence
+ */
+export function pendingHints(
+  mode: KeymapMode,
+  picker: ModalMode | null,
+  keys: string[]
+): Array<{ key: string; description: string }> {
+  const match = resolveKeys(mode, picker, keys)
+  // After a count alone, any sequence can follow
+  if (match.kind !== 'prefix' || match.node === keymapFor(mode, picker)) {
+    return []
   }
-  
-  return false
+  return keymapHints(match.node, describeCommand)
 }
-
-// Get available harpoon submenu options for hint display
-export function getHarpoonSubmenuHints(): Array<{key: string, description: string}> {
-  return [
-    { key: 'o', description: 'open [H]arpoon list' },
-    { key: 'a', description: 'add to [H]arpoon' },
-    { key: 'r', description: 'remove from [H]arpoon' }
-  ]
-}
\ No newline at end of file
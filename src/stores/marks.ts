@@ -0,0 +1,20 @@
+import { writable, derived } from 'svelte/store'
+import type { Tab } from '../types/shared.js'
+
+// Tabs marked for batch actions, in the order they were marked. Marks follow the tab, not
+// its row, so they survive query changes and can point at tabs the query filters out.
+export const markedTabs = writable<Tab[]>([])
+
+export const markedTabIds = derived(markedTabs, ($marked) => new Set($marked.map((tab) => tab.id)))
+
+export function toggleMark(tab: Tab) {
+  markedTabs.update((marked) =>
+    marked.some((markedTab) => markedTab.id === tab.id)
+      ? marked.filter((markedTab) => markedTab.id !== tab.id)
+      : [...marked, tab]
+  )
+}
+
+export function clearMarks() {
+  markedTabs.set([])
+}
@@ -0,0 +1,72 @@
+import { writable, get } from 'svelte/store'
+
+/**
+ * A question the modal asks in place of its search bar, like vim's command line, and the
+ * keyboard answers: a confirmation (y for yes, any other key for no), or a line of text
+ * (Enter to accept, Esc to cancel)
+ */
+export type ModalPrompt = {
+  message: string
+  // The text typed so far; none for a confirmation
+  text?: string
+}
+
+export const modalPrompt = writable<ModalPrompt | null>(null)
+
+let answer: ((text: string | null) => void) | null = null
+
+function ask(prompt: ModalPrompt): Promise<string | null> {
+  cancelModalPrompt()
+  modalPrompt.set(prompt)
+  return new Promise((resolve) => {
+    answer = resolve
+  })
+}
+
+export async function confirmInModal(message: string): Promise<boolean> {
+  return (await ask({ message })) !== null
+}
+
+// The text entered, or null when cancelled
+export function promptInModal(message: string, text = ''): Promise<string | null> {
+  return ask({ message, text })
+}
+
+export function cancelModalPrompt() {
+  answerModalPrompt(null)
+}
+
+function answerModalPrompt(text: string | null) {
+  const resolve = answer
+  answer = null
+  modalPrompt.set(null)
+  resolve?.(text)
+}
+
+// Characters that key notation spells by name
+const TYPED_NAMES: Record<string, string> = { '<Space>': ' ', '<lt>': '<' }
+
+/**
+ * Answer the open prompt, or type into it, with a key in key notation
+ */
+export function typeInModalPrompt(key: string) {
+  const prompt = get(modalPrompt)
+  if (!prompt) {
+    return
+  }
+
+  if (prompt.text === undefined) {
+    answerModalPrompt(key === 'y' || key === 'Y' ? '' : null)
+  } else if (key === '<CR>') {
+    answerModalPrompt(prompt.text)
+  } else if (key === '<Esc>' || key === '<C-c>') {
+    cancelModalPrompt()
+  } else if (key === '<BS>') {
+    modalPrompt.set({ ...prompt, text: prompt.text.slice(0, -1) })
+  } else if (key === '<C-u>') {
+    modalPrompt.set({ ...prompt, text: '' })
+  } else {
+    const typed = TYPED_NAMES[key] ?? ([...key].length === 1 ? key : '')
+    modalPrompt.set({ ...prompt, text: prompt.text + typed })
+  }
+}
@@ -1,6 +1,9 @@
 import { writable, derived } from 'svelte/store'
 import { modalLogger } from '../utils/logger.js'
 import type { InputMode, ModalMode } from '../types/shared.js'
+import { getPickerSource } from '../pickers/registry.js'
+import { clearMarks } from './marks.js'
+import { clearVisualSelection } from './visual-selection.js'
 
 // Helper function to communicate with main world script
 function notifyMainWorldScript(modalOpen: boolean, mode: InputMode) {
@@ -26,16 +29,24 @@ export const selectedTabIndex = writable(0)
 
 // Derived stores
 export const modalTitle = derived(modalMode, ($mode) => {
-  return $mode === 'tab' ? 'Tabs' : 'Harpoon'
+  return getPickerSource($mode).title
 })
 
 // Actions
 export function openModal(mode: ModalMode = 'tab') {
+  const source = getPickerSource(mode)
+
+  // A picker opened over another one doesn't inherit its marks or visual range
+  clearMarks()
+  clearVisualSelection()
   modalMode.set(mode)
   inputMode.set('insert') // Always start in insert mode
   selectedTabIndex.set(0)
   isModalOpen.set(true)
 
+  // Fetch the picker's own data, e.g. bookmarks or the page index
+  source.load?.()
+
   // Sync tabs when modal opens to ensure fresh data
   import('./tabs.js').then(({ loadTabs }) => {
     loadTabs().catch((error) => {
@@ -51,12 +62,23 @@ export function closeModal() {
   isModalOpen.set(false)
   inputMode.set('insert') // Reset to insert mode
   selectedTabIndex.set(0)
+  clearMarks()
+
+  // Back to the default tab scope for the next time the modal opens
+  import('./tabs.js').then(({ resetTabScope }) => {
+    resetTabScope()
+  })
 
   // Clear search bar and results (avoid circular import)
   import('./search.js').then(({ clearSearch }) => {
     clearSearch()
   })
 
+  // A question left open has no answer
+  import('./modal-prompt.js').then(({ cancelModalPrompt }) => {
+    cancelModalPrompt()
+  })
+
   // Clear visual selection if it exists
   import('./visual-selection.js')
     .then(({ clearVisualSelection }) => {
@@ -77,6 +99,8 @@ export function setSelectedTab(index: number) {
 export function switchMode(mode: ModalMode) {
   modalMode.set(mode)
   selectedTabIndex.set(0)
+  // Marks belong to the picker they were made in
+  clearMarks()
 }
 
 export function setInputMode(mode: InputMode) {
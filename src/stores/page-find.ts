@@ -0,0 +1,28 @@
+import { writable } from 'svelte/store'
+import type { PageBlock, PickerItem } from '../types/shared.js'
+import { indexPageBlocks, indexPageOutline, type PageBlockResult } from '../services/page-find.js'
+import { plainSegments, toMatchSegments } from '../utils/highlight.js'
+
+// Text blocks (or the outline) of the current page, indexed when a page picker opens
+export const pageBlocks = writable<PageBlock[]>([])
+
+export function indexCurrentPage(mode: 'find' | 'outline') {
+  pageBlocks.set(mode === 'outline' ? indexPageOutline() : indexPageBlocks())
+}
+
+/**
+ * Rows for the picker list; every row belongs to the current page
+ */
+export function toPageBlockRows(results: PageBlockResult[]): PickerItem[] {
+  return results.map(({ block, indices }) => ({
+    key: `block:${block.index}`,
+    source: 'block',
+    title: block.text,
+    url: window.location.href,
+    faviconUrl: '',
+    screenshotUrl: '',
+    pageBlock: block,
+    titleSegments: toMatchSegments(block.text, indices),
+    urlSegments: plainSegments(window.location.href)
+  }))
+}
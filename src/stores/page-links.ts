@@ -0,0 +1,31 @@
+import { writable } from 'svelte/store'
+import type { PageLink, PickerItem } from '../types/shared.js'
+import { collectPageLinks, type SearchableLink } from '../services/page-links.js'
+import type { SearchResult } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+
+// Links of the current page, collected when the link picker opens
+export const pageLinks = writable<PageLink[]>([])
+
+export function collectCurrentPageLinks() {
+  pageLinks.set(collectPageLinks())
+}
+
+export function toPageLinkRows(results: SearchResult<SearchableLink>[]): PickerItem[] {
+  return results.map(({ item, matches }) => {
+    const titleMatch = matches.find((match) => match.key === 'title')
+    const urlMatch = matches.find((match) => match.key === 'url')
+
+    return {
+      key: `link:${item.id}`,
+      source: 'link',
+      title: item.title,
+      url: item.url,
+      faviconUrl: '',
+      screenshotUrl: '',
+      pageLink: item.link,
+      titleSegments: toMatchSegments(item.title, titleMatch?.indices),
+      urlSegments: toMatchSegments(item.url, urlMatch?.indices)
+    }
+  })
+}
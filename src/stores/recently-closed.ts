@@ -0,0 +1,49 @@
+import { writable } from 'svelte/store'
+import type { ClosedSession, PickerItem, SearchableTab } from '../types/shared.js'
+import { getRecentlyClosed } from '../services/service-worker-bridge.js'
+import { searchTabs } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { tabsLogger } from '../utils/logger.js'
+
+// Recently closed tabs and windows, newest first, loaded when the picker opens
+export const recentlyClosed = writable<ClosedSession[]>([])
+
+export async function loadRecentlyClosed() {
+  try {
+    recentlyClosed.set(await getRecentlyClosed())
+  } catch (error) {
+    tabsLogger.error('Failed to load recently closed tabs:', error)
+  }
+}
+
+/**
+ * Search closed sessions by title and URL with the tab search syntax; without a query
+ * they stay newest first
+ */
+export function searchClosedSessions(sessions: ClosedSession[], query: string): PickerItem[] {
+  const searchable: (SearchableTab & { session: ClosedSession })[] = sessions.map((session, index) => ({
+    id: index,
+    title: session.title,
+    url: session.url,
+    windowId: -1,
+    session
+  }))
+
+  return searchTabs(searchable, query).map(({ item, matches }) => {
+    const { session } = item
+    const titleMatch = matches.find((match) => match.key === 'title')
+    const urlMatch = matches.find((match) => match.key === 'url')
+
+    return {
+      key: `closed:${session.sessionId}`,
+      source: 'closed',
+      title: session.title,
+      url: session.url,
+      faviconUrl: session.faviconUrl,
+      screenshotUrl: session.screenshotUrl,
+      closedSession: session,
+      titleSegments: toMatchSegments(session.title, titleMatch?.indices),
+      urlSegments: toMatchSegments(session.url, urlMatch?.indices)
+    }
+  })
+}
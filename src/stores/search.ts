@@ -1,8 +1,12 @@
-import { writable, derived } from 'svelte/store'
-import type { Tab } from '../types/shared.js'
-import { searchTabs } from '../services/search.js'
-import { tabsToDisplay } from './tabs.js'
-import { setSelectedTab } from './modal.js'
+import { writable, derived, get } from 'svelte/store'
+import type { PickerItem } from '../types/shared.js'
+import { getPickerSource } from '../pickers/registry.js'
+import { setSelectedTab, modalMode, selectedTabIndex } from './modal.js'
+import {
+  visualSelectionRange,
+  visualSelectionIndices,
+  keepVisualSelection
+} from './visual-selection.js'
 
 // Core search state
 export const searchQuery = writable('')
@@ -12,71 +16,60 @@ export const hasSearchQuery = derived(searchQuery, ($query) => {
   return $query.trim().length > 0
 })
 
+// Rows of the current picker for the query; switching pickers drops the old one's searches
 export const filteredTabsFromSearch = derived(
-  [searchQuery, tabsToDisplay],
-  ([$query, $tabsToDisplay]) => {
-    if (!$query.trim()) {
-      // Return tabs with original titles and URLs when no search query
-      return $tabsToDisplay.map((tab) => ({
-        ...tab,
-        highlightedTitle: tab.title,
-        highlightedUrl: tab.url
-      }))
-    }
-
-    // Re-run search with current tabs whenever tabsToDisplay changes
-    const results = searchTabs($tabsToDisplay, $query)
-    
-    return results
-      .sort((a, b) => (a.score || 0) - (b.score || 0))
-      .map((result) => {
-        const tab = result.item
-        let highlightedTitle = tab.title
-        let highlightedUrl = tab.url
+  modalMode,
+  ($modalMode, set: (items: PickerItem[]) => void) => {
+    // The rows on screen and the query they answer
+    let listed: { query: string; items: PickerItem[] } = { query: get(searchQuery), items: [] }
 
-        // Process matches to create highlighted title and URL
-        if (result.matches) {
-          const titleMatch = result.matches.find((match) => match.key === 'title')
-          if (titleMatch && titleMatch.indices) {
-            highlightedTitle = highlightMatches(tab.title, titleMatch.indices)
-          }
-          
-          const urlMatch = result.matches.find((match) => match.key === 'url')
-          if (urlMatch && urlMatch.indices) {
-            highlightedUrl = highlightMatches(tab.url, urlMatch.indices)
-          }
-        }
+    return getPickerSource($modalMode)
+      .results(searchQuery)
+      .subscribe((items) => {
+        const previous = listed
+        listed = { query: get(searchQuery), items }
+        set(items)
 
-        return {
-          ...tab,
-          highlightedTitle,
-          highlightedUrl
+        // Results for a new query start from the top; refreshes of the same query (tab
+        // updates, the periodic sync) keep the cursor on the row it was on
+        if (previous.query === listed.query) {
+          followRows(previous.items, items)
         }
       })
-  }
+  },
+  [] as PickerItem[]
 )
 
-function highlightMatches(text: string, indices: readonly [number, number][]): string {
-  let result = ''
-  let lastIndex = 0
-
-  // Filter out single character matches and sort by start position
-  const validIndices = indices
-    .filter(([start, end]) => end - start >= 1) // At least 2 characters
-    .sort((a, b) => a[0] - b[0])
-
-  for (const [start, end] of validIndices) {
-    // Add text before the match
-    result += text.slice(lastIndex, start)
-    // Add highlighted match
-    result += `<span class="telescope-highlighted">${text.slice(start, end + 1)}</span>`
-    lastIndex = end + 1
+/**
+ * Move the cursor and the visual selection to where their rows are in the new list, matched
+ * by key (the tab ID for tab rows). A row that is gone leaves the cursor at the same position,
+ * kept within the list, and drops out of the selection; rows new to the list never join it.
+ */
+function followRows(previous: PickerItem[], items: PickerItem[]) {
+  const indexByKey = new Map(items.map((item, index) => [item.key, index]))
+  const follow = (index: number): number => {
+    const key = previous[index]?.key
+    const newIndex = key === undefined ? undefined : indexByKey.get(key)
+    return newIndex ?? Math.max(0, Math.min(index, items.length - 1))
   }
 
-  // Add remaining text
-  result += text.slice(lastIndex)
+  const index = get(selectedTabIndex)
+  const followed = follow(index)
+  if (followed !== index) {
+    setSelectedTab(followed)
+  }
 
-  return result
+  const range = get(visualSelectionRange)
+  if (range) {
+    const selected = get(visualSelectionIndices)
+    const kept = selected
+      .map((selectedIndex) => indexByKey.get(previous[selectedIndex]?.key))
+      .filter((keptIndex): keptIndex is number => keptIndex !== undefined)
+      .sort((a, b) => a - b)
+    if (kept.some((keptIndex, i) => keptIndex !== selected[i]) || kept.length !== selected.length) {
+      keepVisualSelection({ anchor: follow(range.anchor), cursor: follow(range.cursor) }, kept)
+    }
+  }
 }
 
 // Actions
@@ -91,4 +84,3 @@ export function clearSearch() {
   searchQuery.set('')
   setSelectedTab(0)
 }
-
@@ -0,0 +1,74 @@
+import { writable } from 'svelte/store'
+import type { PickerItem, SearchableTab, SearchMatch, TabGroupInfo } from '../types/shared.js'
+import { getTabGroups } from '../services/service-worker-bridge.js'
+import { searchTabs } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { tabsLogger } from '../utils/logger.js'
+
+// Tab groups of every window, loaded when the picker opens
+export const tabGroups = writable<TabGroupInfo[]>([])
+
+export async function loadTabGroups() {
+  try {
+    tabGroups.set(await getTabGroups())
+  } catch (error) {
+    tabsLogger.error('Failed to load tab groups:', error)
+  }
+}
+
+/**
+ * The name a group goes by; unnamed groups go by their first tab
+ */
+export function tabGroupLabel(group: TabGroupInfo): string {
+  return group.title || group.tabs[0]?.title || 'Unnamed group'
+}
+
+/**
+ * Search groups by name and by the titles of their tabs, with the tab search syntax.
+ * Without a query, groups are listed in tab strip order, this window's first.
+ */
+export function searchTabGroups(
+  groups: TabGroupInfo[],
+  query: string,
+  currentWindowId: number | null
+): PickerItem[] {
+  const ordered = [...groups].sort(
+    (a, b) => Number(b.windowId === currentWindowId) - Number(a.windowId === currentWindowId)
+  )
+  const searchable: (SearchableTab & { group: TabGroupInfo })[] = ordered.map((group) => ({
+    id: group.id,
+    title: tabGroupLabel(group),
+    // Tab titles stand in for the URL, so a group can be found by what's in it
+    url: group.tabs.map((tab) => tab.title).join(' · '),
+    windowId: group.windowId,
+    group
+  }))
+
+  return searchTabs(searchable, query).map(({ item, matches }) =>
+    toTabGroupItem(item.group, matches)
+  )
+}
+
+/**
+ * A picker row for a group; it stands for the group's first tab, which opening switches to
+ */
+export function toTabGroupItem(group: TabGroupInfo, matches: SearchMatch[] = []): PickerItem {
+  const title = tabGroupLabel(group)
+  const url = group.tabs.map((tab) => tab.title).join(' · ')
+  const titleMatch = matches.find((match) => match.key === 'title')
+  const urlMatch = matches.find((match) => match.key === 'url')
+  const firstTab = group.tabs[0]
+
+  return {
+    key: `group:${group.id}`,
+    source: 'group',
+    title,
+    url,
+    faviconUrl: firstTab?.faviconUrl ?? '',
+    screenshotUrl: firstTab?.screenshotUrl ?? '',
+    ...(firstTab && { tab: firstTab }),
+    tabGroup: group,
+    titleSegments: toMatchSegments(title, titleMatch?.indices),
+    urlSegments: toMatchSegments(url, urlMatch?.indices)
+  }
+}
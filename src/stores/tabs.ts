@@ -1,8 +1,12 @@
-import { writable, derived } from 'svelte/store'
-import type { Tab } from '../types/shared.js'
-import { requestInitialSync } from '../services/service-worker-bridge.js'
+import { writable, derived, get } from 'svelte/store'
+import type { PickerItem, Tab } from '../types/shared.js'
+import { requestInitialSync, type InitialSyncData } from '../services/service-worker-bridge.js'
 import { modalMode } from './modal.js'
+import { loadWindows } from './windows.js'
+import { markedTabs } from './marks.js'
+import { fromPickerSource } from '../pickers/registry.js'
 import { filterTabsForDisplay, filterTabsByWindow } from '../utils/tab-filters.js'
+import { toTabItem } from '../utils/picker-items.js'
 import { tabsLogger } from '../utils/logger.js'
 
 // Track tabs that are pending deletion to prevent race conditions
@@ -16,27 +20,53 @@ function filterPendingDeletions(tabs: Tab[], pendingSet: Set<number>): Tab[] {
 // Core tab state
 export const allTabs = writable<Tab[]>([])
 export const harpoonTabs = writable<Tab[]>([])
-export const filteredTabs = writable<Tab[]>([])
+// Rows the picker currently shows, mirrored from the search results
+export const filteredTabs = writable<PickerItem[]>([])
+// Frecency scores keyed by tab ID, computed by the service worker
+export const frecencyScores = writable<Record<number, number>>({})
+
+export type TabScope = 'window' | 'all'
+// Whether allTabs covers this window or every window; null until a sync picks the default
+// from the settings
+export const tabScope = writable<TabScope | null>(null)
+// The window this page is in
+export const currentWindowId = writable<number | null>(null)
 
 // Derived stores
-export const tabsToDisplay = derived(
-  [allTabs, harpoonTabs, modalMode],
-  ([$allTabs, $harpoonTabs, $modalMode]) => {
-    return $modalMode === 'tab' ? $allTabs : $harpoonTabs
-  }
+// Tabs the current picker lists; pickers that aren't over the tab list see all tabs
+export const tabsToDisplay = fromPickerSource(
+  modalMode,
+  (source) => source.tabs ?? allTabs,
+  [] as Tab[]
 )
 
-export const tabCount = derived(
-  [filteredTabs, tabsToDisplay],
-  ([$filteredTabs, $tabsToDisplay]) => {
-    return `${$filteredTabs.length}/${$tabsToDisplay.length}`
-  }
+export const tabCount = fromPickerSource(
+  modalMode,
+  (source) =>
+    derived([source.counter, filteredTabs, markedTabs], ([$counter, $filteredTabs, $marked]) => {
+      const count = $counter($filteredTabs.length)
+      return $marked.length > 0 ? `${count} · ${$marked.length} marked` : count
+    }),
+  ''
 )
 
 // Actions
+/**
+ * Ask the service worker for the tab lists, keeping to the scope the modal is in
+ */
+export function requestTabSync(): Promise<InitialSyncData> {
+  const scope = get(tabScope)
+  return requestInitialSync(scope ? { allWindows: scope === 'all' } : {})
+}
+
 export async function loadTabs() {
   try {
-    const syncData = await requestInitialSync()
+    const syncData = await requestTabSync()
+
+    // Rows from other windows are labelled with their window's name
+    if (syncData.allWindows) {
+      await loadWindows()
+    }
 
     // Get current pending deletions
     let pendingSet = new Set<number>()
@@ -45,7 +75,7 @@ export async function loadTabs() {
     })()
 
     // Filter out unwanted tabs (chrome:// URLs, current tab, etc.)
-    // Note: syncData.allTabs and syncData.harpoonTabs are already window-specific
+    // Note: syncData.allTabs is already scoped and syncData.harpoonTabs is window-specific
     const filtered = syncData.allTabs.filter(
       (tab) => !tab.url.includes('chrome://') && tab.url !== window.location.href
     )
@@ -56,20 +86,23 @@ export async function loadTabs() {
 
     allTabs.set(filteredWithoutPending)
     harpoonTabs.set(harpoonWithoutPending)
-    filteredTabs.set(filteredWithoutPending)
+    filteredTabs.set(filteredWithoutPending.map((tab) => toTabItem(tab)))
+    frecencyScores.set(syncData.frecencyScores || {})
+    tabScope.set(syncData.allWindows ? 'all' : 'window')
+    currentWindowId.set(syncData.windowId ?? null)
   } catch (error) {
     tabsLogger.error('Failed to load tabs:', error)
   }
 }
 
-export function updateFilteredTabs(tabs: Tab[]) {
+export function updateFilteredTabs(items: PickerItem[]) {
   // Get current pending deletions and filter them out
   let pendingSet = new Set<number>()
   pendingDeletions.subscribe((set) => {
     pendingSet = new Set(set)
   })()
 
-  const filtered = filterPendingDeletions(tabs, pendingSet)
+  const filtered = items.filter((item) => !item.tab || !pendingSet.has(item.tab.id))
   filteredTabs.set(filtered)
 }
 
@@ -81,7 +114,7 @@ export function updateAllTabs(tabs: Tab[]) {
   })()
 
   // Filter out unwanted tabs (chrome:// URLs, current tab, etc.)
-  // Note: tabs are already window-specific from the service worker
+  // Note: tabs are already scoped by the service worker
   const filtered = tabs.filter(
     (tab) => !tab.url.includes('chrome://') && tab.url !== window.location.href
   )
@@ -91,6 +124,19 @@ export function updateAllTabs(tabs: Tab[]) {
   allTabs.set(filteredWithoutPending)
 }
 
+/**
+ * Switch the tab list between this window and all windows
+ */
+export function toggleTabScope(): Promise<void> {
+  tabScope.update((scope) => (scope === 'all' ? 'window' : 'all'))
+  return loadTabs()
+}
+
+// Go back to the default scope from the settings, e.g. when the modal closes
+export function resetTabScope() {
+  tabScope.set(null)
+}
+
 export function updateHarpoonTabs(tabs: Tab[]) {
   // Get current pending deletions and filter them out
   let pendingSet = new Set<number>()
@@ -102,6 +148,10 @@ export function updateHarpoonTabs(tabs: Tab[]) {
   harpoonTabs.set(filtered)
 }
 
+export function updateFrecencyScores(scores: Record<number, number>) {
+  frecencyScores.set(scores)
+}
+
 export function removeTabOptimistically(tabId: number) {
   // Add to pending deletions to prevent race conditions with polling
   pendingDeletions.update((set) => {
@@ -112,7 +162,7 @@ export function removeTabOptimistically(tabId: number) {
 
   // Optimistically remove tab from all stores for immediate UI feedback
   allTabs.update((tabs) => tabs.filter((tab) => tab.id !== tabId))
-  filteredTabs.update((tabs) => tabs.filter((tab) => tab.id !== tabId))
+  filteredTabs.update((items) => items.filter((item) => item.tab?.id !== tabId))
   harpoonTabs.update((tabs) => tabs.filter((tab) => tab.id !== tabId))
 
   // Clear the pending deletion after a timeout as a safety net
@@ -130,4 +180,3 @@ export function removeTabOptimistically(tabId: number) {
 export function clearPendingDeletions() {
   pendingDeletions.set(new Set())
 }
-
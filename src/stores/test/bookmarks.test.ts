@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import type { Bookmark } from '../../types/shared.js'
+import { bookmarkLabel, searchBookmarks } from '../bookmarks.js'
+
+const createBookmark = (id: string, title: string, url: string, folderPath: string[]): Bookmark => ({
+  id,
+  title,
+  url,
+  folderPath,
+  faviconUrl: ''
+})
+
+const bookmarks = [
+  createBookmark('1', 'Pull requests', 'https://github.com/pulls', ['Bookmarks bar']),
+  createBookmark('2', 'Wiki', 'https://wiki.example.com', ['Bookmarks bar', 'Work']),
+  createBookmark('3', 'Recipes', 'https://food.example.com', ['Other bookmarks'])
+]
+
+describe('bookmarkLabel', () => {
+  it('should prefix the title with its folders', () => {
+    expect(bookmarkLabel(bookmarks[1])).toBe('Bookmarks bar / Work / Wiki')
+  })
+})
+
+describe('searchBookmarks', () => {
+  it('should keep tree order without a query', () => {
+    expect(searchBookmarks(bookmarks, '').map((row) => row.bookmark?.id)).toEqual(['1', '2', '3'])
+  })
+
+  it('should match folder names as well as titles', () => {
+    const rows = searchBookmarks(bookmarks, 'work')
+
+    expect(rows.map((row) => row.bookmark?.id)).toEqual(['2'])
+    expect(rows[0].key).toBe('bookmark:2')
+    expect(rows[0].title).toBe('Bookmarks bar / Work / Wiki')
+    expect(rows[0].titleSegments.some((segment) => segment.highlighted)).toBe(true)
+  })
+
+  it('should support the tab search operators', () => {
+    expect(searchBookmarks(bookmarks, 'd:github').map((row) => row.bookmark?.id)).toEqual(['1'])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import type { Bookmark, HistoryEntry, Tab } from '../../types/shared.js'
+import { searchTabs } from '../../services/search.js'
+import { everythingCorpus, everythingRows, type EverythingSources } from '../everything.js'
+
+const createTab = (id: number, title: string, url: string): Tab => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+const createBookmark = (id: string, title: string, url: string): Bookmark => ({
+  id,
+  title,
+  url,
+  folderPath: ['Bookmarks bar'],
+  faviconUrl: ''
+})
+
+const createEntry = (id: string, title: string, url: string): HistoryEntry => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  visitCount: 1,
+  lastVisitTime: 0
+})
+
+const tabs = [
+  createTab(1, 'Pull requests', 'https://github.com/pulls'),
+  createTab(2, 'Inbox', 'https://mail.example.com')
+]
+
+const sources = {
+  tabs,
+  harpoonTabs: [tabs[1]],
+  bookmarks: [
+    createBookmark('b1', 'Pull requests', 'https://github.com/pulls'),
+    createBookmark('b2', 'Recipes', 'https://food.example.com')
+  ],
+  history: [
+    createEntry('h1', 'Pull requests', 'https://github.com/pulls#open'),
+    createEntry('h2', 'Rust docs', 'https://doc.rust-lang.org')
+  ]
+}
+
+// What the picker gets back from the search port
+const searchEverything = (sources: EverythingSources, query: string) =>
+  everythingRows(
+    searchTabs(everythingCorpus(sources), query, {
+      harpoonTabIds: new Set(sources.harpoonTabs.map((tab) => tab.id))
+    })
+  )
+
+describe('everythingCorpus', () => {
+  it('should give bookmarks and history ids that no tab can have', () => {
+    const corpus = everythingCorpus(sources)
+
+    expect(corpus.slice(0, 2).map((item) => item.id)).toEqual([1, 2])
+    expect(corpus.slice(2).every((item) => item.id < 0 && item.windowId === -1)).toBe(true)
+  })
+})
+
+describe('everythingRows', () => {
+  it('should list tabs, then bookmarks, then history without a query', () => {
+    const rows = everythingRows(everythingCorpus(sources).map((item) => ({ item, matches: [] })))
+
+    expect(rows.map((row) => row.key)).toEqual([
+      'tab:1',
+      'bookmark:b1',
+      'history:h1',
+      'tab:2',
+      'bookmark:b2',
+      'history:h2'
+    ])
+  })
+
+  it('should mark harpooned tabs with their slot', () => {
+    const inbox = searchEverything(sources, '').find((row) => row.tab?.id === 2)
+
+    expect(inbox?.source).toBe('harpoon')
+    expect(inbox?.harpoonSlot).toBe(1)
+  })
+
+  it('should rank across sources and keep the open tab first for the same page', () => {
+    const rows = searchEverything(sources, 'pull')
+
+    expect(rows.map((row) => row.source)).toEqual(['tab', 'bookmark', 'history'])
+    expect(rows[0].titleSegments.some((segment) => segment.highlighted)).toBe(true)
+  })
+
+  it('should find pages that are only in bookmarks or history', () => {
+    expect(searchEverything(sources, "'rust").map((row) => row.key)).toEqual(['history:h2'])
+    expect(searchEverything(sources, 'recipes').map((row) => row.key)).toEqual(['bookmark:b2'])
+  })
+
+  it('should only match harpooned tabs with h:', () => {
+    expect(searchEverything(sources, 'h:').map((row) => row.key)).toEqual(['tab:2'])
+  })
+})
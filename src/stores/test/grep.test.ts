@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import type { GrepTabResult } from '../../types/shared.js'
+
+vi.mock('../../services/service-worker-bridge.js', () => ({
+  grepTabs: vi.fn()
+}))
+
+import { grepTabs } from '../../services/service-worker-bridge.js'
+import { runLiveGrep, cancelLiveGrep, toGrepRows, grepLineSegments, grepStatus } from '../grep.js'
+
+const result: GrepTabResult = {
+  tab: {
+    id: 7,
+    title: 'Docs',
+    url: 'https://example.com/docs',
+    faviconUrl: '',
+    screenshotUrl: '',
+    windowId: 1
+  },
+  matches: [
+    { query: 'grep', line: 'live grep', matchStart: 5, matchEnd: 9, before: [], after: [], occurrence: 0 },
+    { query: 'grep', line: 'grep again', matchStart: 0, matchEnd: 4, before: [], after: [], occurrence: 1 }
+  ]
+}
+
+describe('grep store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(grepTabs).mockReset()
+    cancelLiveGrep()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('runLiveGrep', () => {
+    it('should only search for the latest query once typing pauses', async () => {
+      vi.mocked(grepTabs).mockResolvedValue([result])
+      const onResults = vi.fn()
+
+      runLiveGrep('gr', onResults)
+      runLiveGrep('gre', onResults)
+      runLiveGrep('grep', onResults)
+      expect(get(grepStatus)).toBe('searching')
+      await vi.runAllTimersAsync()
+
+      expect(grepTabs).toHaveBeenCalledTimes(1)
+      expect(grepTabs).toHaveBeenCalledWith('grep')
+      expect(onResults).toHaveBeenCalledWith([result])
+      expect(get(grepStatus)).toBe('done')
+    })
+
+    it('should drop results of a query that was superseded while running', async () => {
+      let resolveFirst: (results: GrepTabResult[]) => void = () => {}
+      vi.mocked(grepTabs)
+        .mockReturnValueOnce(new Promise((resolve) => (resolveFirst = resolve)))
+        .mockResolvedValueOnce([])
+      const onResults = vi.fn()
+
+      runLiveGrep('first', onResults)
+      await vi.advanceTimersByTimeAsync(200)
+      runLiveGrep('second', onResults)
+      await vi.runAllTimersAsync()
+      resolveFirst([result])
+      await vi.runAllTimersAsync()
+
+      expect(onResults).toHaveBeenCalledTimes(1)
+      expect(onResults).toHaveBeenCalledWith([])
+    })
+
+    it('should not search again for an unchanged query', async () => {
+      vi.mocked(grepTabs).mockResolvedValue([])
+      const onResults = vi.fn()
+
+      runLiveGrep('grep', onResults)
+      await vi.runAllTimersAsync()
+      runLiveGrep('grep', onResults)
+      await vi.runAllTimersAsync()
+
+      expect(grepTabs).toHaveBeenCalledTimes(1)
+    })
+
+    it('should clear results without searching for short queries', () => {
+      const onResults = vi.fn()
+      runLiveGrep('g', onResults)
+
+      expect(onResults).toHaveBeenCalledWith([])
+      expect(grepTabs).not.toHaveBeenCalled()
+      expect(get(grepStatus)).toBe('idle')
+    })
+  })
+
+  describe('toGrepRows', () => {
+    it('should list a tab once per match with unique keys', () => {
+      const rows = toGrepRows([result])
+
+      expect(rows.map((row) => row.key)).toEqual(['7:0', '7:1'])
+      expect(rows.every((row) => row.tab?.id === 7)).toBe(true)
+      expect(rows[1].grepMatch).toBe(result.matches[1])
+    })
+  })
+
+  describe('grepLineSegments', () => {
+    it('should highlight the match in the line', () => {
+      expect(grepLineSegments(result.matches[0])).toEqual([
+        { text: 'live ', highlighted: false },
+        { text: 'grep', highlighted: true }
+      ])
+    })
+  })
+})
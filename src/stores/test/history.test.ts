@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import type { HistoryEntry } from '../../types/shared.js'
+import { searchHistory } from '../history.js'
+
+const createEntry = (id: string, title: string, url: string): HistoryEntry => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  visitCount: 1,
+  lastVisitTime: 0
+})
+
+const entries = [
+  createEntry('1', 'Pull requests', 'https://github.com/pulls'),
+  createEntry('2', 'Inbox', 'https://mail.example.com'),
+  createEntry('3', 'Issues', 'https://github.com/issues')
+]
+
+describe('searchHistory', () => {
+  it('should keep the most recent visits first without a query', () => {
+    expect(searchHistory(entries, '').map((row) => row.historyEntry?.id)).toEqual(['1', '2', '3'])
+  })
+
+  it('should search titles and URLs with the tab search syntax', () => {
+    const rows = searchHistory(entries, 'd:github iss')
+
+    expect(rows.map((row) => row.title)).toEqual(['Issues'])
+    expect(rows[0].key).toBe('history:3')
+    expect(rows[0].titleSegments.some((segment) => segment.highlighted)).toBe(true)
+  })
+
+  it('should exclude terms with a leading dash', () => {
+    expect(searchHistory(entries, '-github').map((row) => row.historyEntry?.id)).toEqual(['2'])
+  })
+})
@@ -1,217 +1,263 @@
-import { describe, it, expect } from 'vitest'
-import {
-  checkModalTrigger,
-  checkHarpoonSwitch,
-  checkHarpoonAdd,
-  checkHarpoonRemove,
-  checkDeleteSequence,
-  checkSubmenuInvalidation,
-  getHarpoonSubmenuHints
-} from '../keyboard.js'
-
-describe('Keyboard Combination Checkers', () => {
-  describe('checkModalTrigger', () => {
-    it('should detect double space for tab modal', () => {
-      expect(checkModalTrigger([' ', ' '])).toBe('tab')
-    })
-
-    it('should detect space-h as submenu activation (returns null)', () => {
-      expect(checkModalTrigger([' ', 'h'])).toBe(null) // Now activates submenu instead
-    })
-
-    it('should detect space-h-o for harpoon modal', () => {
-      expect(checkModalTrigger([' ', 'h', 'o'])).toBe('harpoon')
-    })
-
-    it('should reject other combinations', () => {
-      expect(checkModalTrigger([' ', 'f'])).toBe(null)
-      expect(checkModalTrigger(['f', 'h'])).toBe(null)
-      expect(checkModalTrigger(['a', 'b'])).toBe(null)
-      expect(checkModalTrigger([' ', 'h', 'x'])).toBe(null) // Invalid submenu command
-    })
-
-    it('should handle single key inputs', () => {
-      expect(checkModalTrigger([' '])).toBe(null)
-      expect(checkModalTrigger(['f'])).toBe(null)
-    })
-
-    it('should handle empty input', () => {
-      expect(checkModalTrigger([])).toBe(null)
-    })
-
-    it('should handle other 3-key combinations', () => {
-      expect(checkModalTrigger([' ', 'f', 'h'])).toBe(null)
-      expect(checkModalTrigger(['a', ' ', 'f'])).toBe(null)
-    })
-
-    it('should be case insensitive', () => {
-      expect(checkModalTrigger([' ', 'H'])).toBe(null) // Submenu activation
-      expect(checkModalTrigger([' ', 'H', 'O'])).toBe('harpoon') // Harpoon modal
-      expect(checkModalTrigger(['  '])).toBe('tab') // Two spaces as one string
-    })
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { ModalMode } from '../../types/shared.js'
+import type { KeyMatch, KeymapMode } from '../../services/keymap.js'
+import { keymapOverrides, resolveKeys, leaderKeys, pendingHints } from '../keyboard.js'
+import '../../pickers/index.js'
+
+// The command a key sequence runs, or null
+function commandOf(match: KeyMatch): string | null {
+  return match.kind === 'command' ? match.command : null
+}
+
+const page = (...keys: string[]) => commandOf(resolveKeys('page', null, keys))
+const inPicker = (mode: KeymapMode, picker: ModalMode, ...keys: string[]) =>
+  commandOf(resolveKeys(mode, picker, keys))
+
+describe('Keymap', () => {
+  beforeEach(() => {
+    keymapOverrides.set({})
   })
 
-  describe('checkHarpoonAdd', () => {
-    it('should detect space-h-a combination', () => {
-      expect(checkHarpoonAdd([' ', 'h', 'a'])).toBe(true)
+  describe('opening pickers from the page', () => {
+    it('should open the tab picker with the leader twice', () => {
+      expect(page('<Space>', '<Space>')).toBe('picker.tab')
     })
 
-    it('should be case insensitive', () => {
-      expect(checkHarpoonAdd([' ', 'H', 'A'])).toBe(true)
-      expect(checkHarpoonAdd([' ', 'h', 'A'])).toBe(true)
+    it('should open each picker with the keys after the leader', () => {
+      expect(page('<Space>', 's')).toBe('picker.grep')
+      expect(page('<Space>', 'o')).toBe('picker.outline')
+      expect(page('<Space>', 'f')).toBe('picker.links')
+      expect(page('<Space>', 'u')).toBe('picker.closed')
+      expect(page('<Space>', 'b')).toBe('picker.bookmarks')
+      expect(page('<Space>', 'r')).toBe('picker.history')
+      expect(page('<Space>', 'w')).toBe('picker.windows')
+      expect(page('<Space>', 'e')).toBe('picker.everything')
+      expect(page('<Space>', '/')).toBe('picker.find')
+      expect(page('<Space>', 'g')).toBe('picker.groups')
+      expect(page('<Space>', 'h', 'o')).toBe('picker.harpoon')
     })
 
-    it('should reject old 2-key combinations', () => {
-      expect(checkHarpoonAdd([' ', 'a'])).toBe(false) // Old format no longer works
+    it('should wait for more keys after a prefix', () => {
+      expect(resolveKeys('page', null, ['<Space>']).kind).toBe('prefix')
+      expect(resolveKeys('page', null, ['<Space>', 'h']).kind).toBe('prefix')
     })
 
     it('should reject other combinations', () => {
-      expect(checkHarpoonAdd([' ', 'h', 'h'])).toBe(false)
-      expect(checkHarpoonAdd([' ', 'h', 'f'])).toBe(false)
-      expect(checkHarpoonAdd(['a', 'b', 'c'])).toBe(false)
-      expect(checkHarpoonAdd([' ', 'f', 'a'])).toBe(false)
+      expect(resolveKeys('page', null, ['<Space>', 'x']).kind).toBe('none')
+      expect(resolveKeys('page', null, ['<Space>', 'h', 'x']).kind).toBe('none')
+      expect(resolveKeys('page', null, ['<Space>', 'h', 's']).kind).toBe('none')
+      expect(resolveKeys('page', null, ['f', 'h']).kind).toBe('none')
+      expect(resolveKeys('page', null, ['a', '<Space>', 'f']).kind).toBe('none')
+      expect(resolveKeys('page', null, []).kind).toBe('none')
     })
 
-    it('should handle edge cases', () => {
-      expect(checkHarpoonAdd([' '])).toBe(false)
-      expect(checkHarpoonAdd(['a'])).toBe(false)
-      expect(checkHarpoonAdd([])).toBe(false)
-      expect(checkHarpoonAdd([' ', 'h'])).toBe(false) // Incomplete sequence
-      expect(checkHarpoonAdd([' ', 'h', 'a', 'f'])).toBe(false) // Too long
+    it('should be case insensitive on the page', () => {
+      expect(resolveKeys('page', null, ['<Space>', 'H']).kind).toBe('prefix')
+      expect(page('<Space>', 'H', 'O')).toBe('picker.harpoon')
     })
   })
 
-  describe('checkHarpoonRemove', () => {
-    it('should detect space-h-r combination', () => {
-      expect(checkHarpoonRemove([' ', 'h', 'r'])).toBe(true)
+  describe('harpoon and last tab', () => {
+    it('should add and remove the current tab with the leader, h and a or r', () => {
+      expect(page('<Space>', 'h', 'a')).toBe('harpoon.add')
+      expect(page('<Space>', 'H', 'A')).toBe('harpoon.add')
+      expect(page('<Space>', 'h', 'r')).toBe('harpoon.remove')
+      expect(page('<Space>', 'h', 'R')).toBe('harpoon.remove')
     })
 
-    it('should be case insensitive', () => {
-      expect(checkHarpoonRemove([' ', 'H', 'R'])).toBe(true)
-      expect(checkHarpoonRemove([' ', 'h', 'R'])).toBe(true)
+    it('should reject the old two-key combinations', () => {
+      expect(page('<Space>', 'a')).toBeNull()
     })
 
-    it('should reject old 2-key combinations', () => {
-      expect(checkHarpoonRemove([' ', 'r'])).toBe(false) // Old format no longer works
+    it('should switch to harpoon slots 1 to 9', () => {
+      expect(page('<Space>', '1')).toBe('harpoon.1')
+      expect(page('<Space>', '5')).toBe('harpoon.5')
+      expect(page('<Space>', '9')).toBe('harpoon.9')
+      expect(page('<Space>', '0')).toBeNull()
+      expect(page('1', '<Space>')).toBeNull()
     })
 
-    it('should reject other combinations', () => {
-      expect(checkHarpoonRemove([' ', 'h', 'f'])).toBe(false)
-      expect(checkHarpoonRemove([' ', 'h', 'd'])).toBe(false)
-      expect(checkHarpoonRemove(['h', 'r', 'x'])).toBe(false)
-      expect(checkHarpoonRemove([' ', 'f', 'r'])).toBe(false)
+    it('should switch to the last tab', () => {
+      expect(page('<Space>', 'l')).toBe('tab.last')
     })
 
-    it('should handle edge cases', () => {
-      expect(checkHarpoonRemove([' '])).toBe(false)
-      expect(checkHarpoonRemove(['r'])).toBe(false)
-      expect(checkHarpoonRemove([])).toBe(false)
-      expect(checkHarpoonRemove([' ', 'h'])).toBe(false) // Incomplete sequence
-      expect(checkHarpoonRemove([' ', 'h', 'r', 'f'])).toBe(false) // Too long
+    it('should keep the harpoon keys in the modal in normal mode only', () => {
+      expect(inPicker('normal', 'tab', '<Space>', 'h', 'a')).toBe('harpoon.add')
+      expect(inPicker('normal', 'tab', '<Space>', '2')).toBe('harpoon.2')
+      expect(inPicker('insert', 'tab', '<Space>', '2')).toBeNull()
     })
   })
 
-  describe('checkHarpoonSwitch', () => {
-    it('should detect valid space-number combinations', () => {
-      expect(checkHarpoonSwitch([' ', '1'])).toBe(0) // 0-indexed
-      expect(checkHarpoonSwitch([' ', '2'])).toBe(1)
-      expect(checkHarpoonSwitch([' ', '5'])).toBe(4)
-      expect(checkHarpoonSwitch([' ', '9'])).toBe(8)
-    })
-
-    it('should reject non-space first key', () => {
-      expect(checkHarpoonSwitch(['1', ' '])).toBe(null)
-      expect(checkHarpoonSwitch(['a', '1'])).toBe(null)
+  describe('modal modes', () => {
+    it('should move and switch modes with vim keys', () => {
+      expect(inPicker('normal', 'tab', 'j')).toBe('list.down')
+      expect(inPicker('normal', 'tab', 'k')).toBe('list.up')
+      expect(inPicker('normal', 'tab', 'i')).toBe('mode.insert')
+      expect(inPicker('normal', 'tab', 'v')).toBe('mode.visual')
+      expect(inPicker('insert', 'tab', '<Esc>')).toBe('mode.normal')
+      expect(inPicker('visual', 'tab', '<Esc>')).toBe('mode.normal')
+      expect(inPicker('normal', 'tab', '<Esc>')).toBe('modal.close')
     })
 
-    it('should reject 0 as invalid', () => {
-      expect(checkHarpoonSwitch([' ', '0'])).toBe(null)
+    it('should leave characters to the search bar in insert mode', () => {
+      expect(inPicker('insert', 'tab', 'j')).toBeNull()
+      expect(inPicker('insert', 'tab', '<Down>')).toBe('list.down')
     })
 
-    it('should reject non-numeric combinations', () => {
-      expect(checkHarpoonSwitch([' ', 'f'])).toBe(null)
-      expect(checkHarpoonSwitch([' ', 'h'])).toBe(null)
-      expect(checkHarpoonSwitch(['a', ' '])).toBe(null)
-    })
-
-    it('should handle edge cases', () => {
-      expect(checkHarpoonSwitch([' '])).toBe(null)
-      expect(checkHarpoonSwitch(['1'])).toBe(null)
-      expect(checkHarpoonSwitch([])).toBe(null)
-      expect(checkHarpoonSwitch([' ', '1', 'f'])).toBe(null)
+    it("should run the bindings of the picker that's open, in their modes", () => {
+      expect(inPicker('normal', 'tab', 'd', 'd')).toBe('tab:close')
+      expect(inPicker('normal', 'harpoon', 'd', 'd')).toBe('harpoon:remove')
+      expect(inPicker('normal', 'links', 'y', 'y')).toBe('links:copyUrl')
+      expect(inPicker('visual', 'links', 'y', 'y')).toBeNull()
+      expect(inPicker('insert', 'links', '<C-t>')).toBe('links:openInBackground')
+      expect(inPicker('insert', 'links', 't')).toBeNull()
+      expect(inPicker('normal', 'bookmarks', 'd', 'd')).toBeNull()
     })
+  })
 
-    it('should handle invalid length inputs', () => {
-      expect(checkHarpoonSwitch([' ', '10'])).toBe(null) // Two-character second element
-      expect(checkHarpoonSwitch([' ', ''])).toBe(null) // Empty second element
+  describe('counts', () => {
+    it('should take a count before motions and operators in normal and visual mode', () => {
+      expect(resolveKeys('normal', 'tab', ['5', 'j'])).toEqual({
+        kind: 'command',
+        command: 'list.down',
+        count: 5
+      })
+      expect(resolveKeys('normal', 'tab', ['1', '0', 'k'])).toEqual({
+        kind: 'command',
+        command: 'list.up',
+        count: 10
+      })
+      expect(resolveKeys('normal', 'tab', ['3', 'd', 'd'])).toEqual({
+        kind: 'command',
+        command: 'tab:close',
+        count: 3
+      })
+      expect(resolveKeys('normal', 'links', ['2', 'y', 'y'])).toEqual({
+        kind: 'command',
+        command: 'links:copyUrl',
+        count: 2
+      })
+      expect(resolveKeys('visual', 'tab', ['4', 'j'])).toMatchObject({ count: 4 })
+    })
+
+    it('should wait for the keys after a count', () => {
+      expect(resolveKeys('normal', 'tab', ['3']).kind).toBe('prefix')
+      expect(resolveKeys('normal', 'tab', ['3', 'd']).kind).toBe('prefix')
+      expect(resolveKeys('normal', 'tab', ['3', 'x']).kind).toBe('none')
+      expect(pendingHints('normal', 'tab', ['3'])).toEqual([])
+      expect(pendingHints('normal', 'tab', ['3', 'd'])).toEqual([
+        { key: 'd', description: 'close' }
+      ])
+    })
+
+    it('should leave digits alone where they are no count', () => {
+      expect(resolveKeys('normal', 'tab', ['0', 'j']).kind).toBe('none')
+      expect(resolveKeys('insert', 'tab', ['5', '<Down>']).kind).toBe('none')
+      expect(page('5', '<Space>', 'l')).toBeNull()
+      expect(inPicker('normal', 'tab', '<Space>', '2')).toBe('harpoon.2')
+    })
+
+    it('should jump to the ends of the list and by half pages', () => {
+      expect(inPicker('normal', 'tab', 'g', 'g')).toBe('list.top')
+      expect(inPicker('normal', 'tab', 'G')).toBe('list.bottom')
+      expect(inPicker('visual', 'tab', 'g', 'g')).toBe('list.top')
+      expect(inPicker('visual', 'tab', 'g', 'n')).toBe('tab:group')
+      expect(inPicker('normal', 'tab', '<C-d>')).toBe('list.halfPageDown')
+      expect(inPicker('visual', 'tab', '<C-u>')).toBe('list.halfPageUp')
     })
   })
 
-  describe('checkDeleteSequence', () => {
-    it('should detect dd combination', () => {
-      expect(checkDeleteSequence(['d', 'd'])).toBe(true)
-    })
+  describe('overrides from the settings', () => {
+    it('should use another leader everywhere', () => {
+      keymapOverrides.set({ leader: ',' })
 
-    it('should be case insensitive', () => {
-      expect(checkDeleteSequence(['D', 'D'])).toBe(true)
-      expect(checkDeleteSequence(['d', 'D'])).toBe(true)
-      expect(checkDeleteSequence(['D', 'd'])).toBe(true)
+      expect(leaderKeys()).toEqual([','])
+      expect(page(',', ',')).toBe('picker.tab')
+      expect(page(',', 'h', 'a')).toBe('harpoon.add')
+      expect(inPicker('normal', 'tab', ',', '3')).toBe('harpoon.3')
+      expect(resolveKeys('page', null, ['<Space>']).kind).toBe('none')
     })
 
-    it('should reject other combinations', () => {
-      expect(checkDeleteSequence(['d', 'a'])).toBe(false)
-      expect(checkDeleteSequence(['a', 'd'])).toBe(false)
-      expect(checkDeleteSequence(['x', 'x'])).toBe(false)
-    })
+    it('should remap and unmap keys', () => {
+      // Colemak's n and e where QWERTY has j and k
+      keymapOverrides.set({
+        bindings: {
+          normal: { n: 'list.down', e: 'list.up', j: null, k: null },
+          page: { '<leader>t': 'picker.tab', '<leader><leader>': null }
+        }
+      })
 
-    it('should handle edge cases', () => {
-      expect(checkDeleteSequence(['d'])).toBe(false)
-      expect(checkDeleteSequence([])).toBe(false)
-      expect(checkDeleteSequence(['d', 'd', 'd'])).toBe(false)
+      expect(inPicker('normal', 'tab', 'n')).toBe('list.down')
+      expect(inPicker('normal', 'tab', 'e')).toBe('list.up')
+      expect(inPicker('normal', 'tab', 'j')).toBeNull()
+      expect(page('<Space>', 't')).toBe('picker.tab')
+      expect(page('<Space>', '<Space>')).toBeNull()
     })
-  })
 
-  describe('checkSubmenuInvalidation', () => {
-    it('should detect invalid keys after space-h', () => {
-      expect(checkSubmenuInvalidation([' ', 'h', 'x'])).toBe(true)
-      expect(checkSubmenuInvalidation([' ', 'h', 'f'])).toBe(true)
-      expect(checkSubmenuInvalidation([' ', 'h', '1'])).toBe(true)
-    })
+    it('should bind picker actions only in their picker', () => {
+      keymapOverrides.set({ bindings: { normal: { x: 'tab:close', dd: 'tab:close' } } })
 
-    it('should not invalidate valid harpoon submenu commands', () => {
-      expect(checkSubmenuInvalidation([' ', 'h', 'o'])).toBe(false)
-      expect(checkSubmenuInvalidation([' ', 'h', 'a'])).toBe(false)
-      expect(checkSubmenuInvalidation([' ', 'h', 'r'])).toBe(false)
+      expect(inPicker('normal', 'tab', 'x')).toBe('tab:close')
+      expect(inPicker('normal', 'harpoon', 'x')).toBeNull()
+      expect(inPicker('normal', 'harpoon', 'd', 'd')).toBe('harpoon:remove')
     })
 
-    it('should be case insensitive', () => {
-      expect(checkSubmenuInvalidation([' ', 'H', 'O'])).toBe(false)
-      expect(checkSubmenuInvalidation([' ', 'H', 'X'])).toBe(true)
-    })
+    it('should fall back to the built-in keymap when the settings are broken', () => {
+      keymapOverrides.set({ leader: '<Nope>', bindings: { normal: { '<Bad>': 'list.down' } } })
 
-    it('should handle edge cases', () => {
-      expect(checkSubmenuInvalidation([' ', 'h'])).toBe(false) // Not 3 keys
-      expect(checkSubmenuInvalidation([' ', 'f', 'x'])).toBe(false) // Not starting with space-h
-      expect(checkSubmenuInvalidation([])).toBe(false)
-      expect(checkSubmenuInvalidation([' '])).toBe(false)
+      expect(leaderKeys()).toEqual(['<Space>'])
+      expect(inPicker('normal', 'tab', 'j')).toBe('list.down')
     })
   })
 
-  describe('getHarpoonSubmenuHints', () => {
-    it('should return correct hint structure', () => {
-      const hints = getHarpoonSubmenuHints()
-      expect(hints).toHaveLength(3)
-      
-      expect(hints[0]).toEqual({ key: 'o', description: 'open [H]arpoon list' })
-      expect(hints[1]).toEqual({ key: 'a', description: 'add to [H]arpoon' })
-      expect(hints[2]).toEqual({ key: 'r', description: 'remove from [H]arpoon' })
-    })
-
-    it('should always return the same hints', () => {
-      const hints1 = getHarpoonSubmenuHints()
-      const hints2 = getHarpoonSubmenuHints()
-      
-      expect(hints1).toEqual(hints2)
+  describe('which-key hints', () => {
+    it('should list the pickers, the last tab and the harpoon slots after the leader', () => {
+      const hints = pendingHints('page', null, ['<Space>'])
+
+      expect(hints[0]).toEqual({ key: '<Space>', description: 'tabs' })
+      expect(hints).toContainEqual({ key: 'h', description: '+harpoon' })
+      expect(hints).toContainEqual({ key: 'f', description: '[F]ollow link' })
+      expect(hints).toContainEqual({ key: 'l', description: '[L]ast tab' })
+      expect(hints.at(-1)).toEqual({ key: '1-9', description: '[H]arpoon [1-9]' })
+    })
+
+    it('should list the harpoon submenu', () => {
+      expect(pendingHints('page', null, ['<Space>', 'h'])).toEqual([
+        { key: 'o', description: 'open [H]arpoon list' },
+        { key: 'a', description: 'add to [H]arpoon' },
+        { key: 'r', description: 'remove from [H]arpoon' }
+      ])
+    })
+
+    it("should list the open picker's bindings in the modal's modes", () => {
+      expect(pendingHints('normal', 'tab', ['d'])).toEqual([{ key: 'd', description: 'close' }])
+      expect(pendingHints('visual', 'tab', ['w'])).toEqual([
+        { key: 'n', description: 'move to new window' },
+        { key: 'm', description: 'move to window' }
+      ])
+      expect(pendingHints('visual', 'tab', [])).toEqual([])
+      expect(pendingHints('normal', 'tab', ['j'])).toEqual([])
+    })
+
+    it('should list bindings and submenus from the settings', () => {
+      keymapOverrides.set({
+        bindings: {
+          normal: { '<leader>gx': 'tab:close', '<leader>gw': 'picker.windows', gl: 'tab.last' }
+        }
+      })
+
+      expect(pendingHints('normal', 'tab', ['<Space>'])).toContainEqual({
+        key: 'g',
+        description: '+prefix'
+      })
+      expect(pendingHints('normal', 'tab', ['<Space>', 'g'])).toEqual([
+        { key: 'x', description: 'close' },
+        { key: 'w', description: '[W]indows' }
+      ])
+      expect(pendingHints('normal', 'tab', ['g'])).toEqual([
+        { key: 'g', description: 'top' },
+        { key: 'l', description: '[L]ast tab' }
+      ])
     })
   })
-})
\ No newline at end of file
+})
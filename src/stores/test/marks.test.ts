@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { get, readable } from 'svelte/store'
+import type { Tab } from '../../types/shared.js'
+import { markedTabs, markedTabIds, toggleMark, clearMarks } from '../marks.js'
+import { openModal, switchMode } from '../modal.js'
+import { startVisualSelection, visualSelectionRange } from '../visual-selection.js'
+import { registerPickerSource } from '../../pickers/registry.js'
+
+vi.mock('../tabs.js', () => ({ loadTabs: vi.fn(async () => {}) }))
+
+const createTab = (id: number): Tab => ({
+  id,
+  title: `Tab ${id}`,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+describe('Marks Store', () => {
+  beforeEach(() => {
+    clearMarks()
+  })
+
+  it('should mark tabs in the order they were marked', () => {
+    toggleMark(createTab(7))
+    toggleMark(createTab(2))
+    toggleMark(createTab(15))
+
+    expect(get(markedTabs).map((tab) => tab.id)).toEqual([7, 2, 15])
+    expect(get(markedTabIds)).toEqual(new Set([2, 7, 15]))
+  })
+
+  it('should unmark a tab that is marked', () => {
+    toggleMark(createTab(2))
+    toggleMark(createTab(7))
+    toggleMark(createTab(2))
+
+    expect(get(markedTabs).map((tab) => tab.id)).toEqual([7])
+  })
+
+  it('should drop the marks when switching pickers', () => {
+    toggleMark(createTab(2))
+
+    switchMode('harpoon')
+
+    expect(get(markedTabs)).toEqual([])
+  })
+
+  it('should drop the marks and visual range when another picker opens over the modal', () => {
+    registerPickerSource({
+      mode: 'harpoon',
+      title: 'Harpoon',
+      keymap: { open: 'ho' },
+      results: () => readable([]),
+      counter: readable((shown: number) => `${shown}`),
+      actions: { open: () => {} }
+    })
+    toggleMark(createTab(2))
+    startVisualSelection(0)
+
+    openModal('harpoon')
+
+    expect(get(markedTabs)).toEqual([])
+    expect(get(visualSelectionRange)).toBeNull()
+  })
+})
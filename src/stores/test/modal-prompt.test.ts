@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { get } from 'svelte/store'
+import {
+  modalPrompt,
+  confirmInModal,
+  promptInModal,
+  cancelModalPrompt,
+  typeInModalPrompt
+} from '../modal-prompt.js'
+
+describe('Modal Prompt Store', () => {
+  beforeEach(() => {
+    cancelModalPrompt()
+  })
+
+  it('should confirm with y and decline with any other key', async () => {
+    const confirmed = confirmInModal('Close "Work" and its 3 tabs?')
+    expect(get(modalPrompt)).toEqual({ message: 'Close "Work" and its 3 tabs?' })
+    typeInModalPrompt('y')
+    expect(await confirmed).toBe(true)
+    expect(get(modalPrompt)).toBeNull()
+
+    const declined = confirmInModal('Close?')
+    typeInModalPrompt('<CR>')
+    expect(await declined).toBe(false)
+  })
+
+  it('should edit the text until Enter', async () => {
+    const name = promptInModal('Window name:', 'Wo')
+    for (const key of ['x', '<BS>', 'r', 'k', '<Space>', '<lt>', '1', '<Down>']) {
+      typeInModalPrompt(key)
+    }
+    expect(get(modalPrompt)?.text).toBe('Work <1')
+
+    typeInModalPrompt('<CR>')
+    expect(await name).toBe('Work <1')
+  })
+
+  it('should answer null when cancelled or replaced by another question', async () => {
+    const escaped = promptInModal('Group name:')
+    typeInModalPrompt('<Esc>')
+    expect(await escaped).toBeNull()
+
+    const replaced = promptInModal('Group name:')
+    const next = confirmInModal('Close?')
+    expect(await replaced).toBeNull()
+    cancelModalPrompt()
+    expect(await next).toBe(false)
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import type { ClosedSession } from '../../types/shared.js'
+import { searchClosedSessions } from '../recently-closed.js'
+
+const createSession = (sessionId: string, title: string, url: string): ClosedSession => ({
+  sessionId,
+  kind: 'tab',
+  title,
+  url,
+  faviconUrl: '',
+  screenshotUrl: '',
+  closedAt: 0
+})
+
+const sessions = [
+  createSession('1', 'Pull requests', 'https://github.com/pulls'),
+  createSession('2', 'Inbox', 'https://mail.example.com'),
+  createSession('3', 'Issues', 'https://github.com/issues')
+]
+
+describe('searchClosedSessions', () => {
+  it('should keep newest first without a query', () => {
+    expect(searchClosedSessions(sessions, '').map((row) => row.closedSession?.sessionId)).toEqual([
+      '1',
+      '2',
+      '3'
+    ])
+  })
+
+  it('should search titles and URLs with the tab search syntax', () => {
+    const rows = searchClosedSessions(sessions, 'd:github iss')
+
+    expect(rows.map((row) => row.title)).toEqual(['Issues'])
+    expect(rows[0].key).toBe('closed:3')
+    expect(rows[0].titleSegments.some((segment) => segment.highlighted)).toBe(true)
+  })
+})
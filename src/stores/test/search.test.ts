@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import type { Tab } from '../../types/shared.js'
+import type { SearchResult } from '../../services/search.js'
+import { filteredTabsFromSearch, updateSearchQuery, clearSearch } from '../search.js'
+import { allTabs, harpoonTabs, clearPendingDeletions } from '../tabs.js'
+import { modalMode, selectedTabIndex, setSelectedTab } from '../modal.js'
+import {
+  startVisualSelection,
+  updateVisualCursor,
+  clearVisualSelection,
+  visualSelectionIndices
+} from '../visual-selection.js'
+import { getPickerSource } from '../../pickers/registry.js'
+import { searchClient } from '../../services/search-client.js'
+import { closeTabs } from '../../services/service-worker-bridge.js'
+import '../../pickers/index.js'
+
+vi.mock('../../services/service-worker-bridge.js', () => ({
+  closeTabs: vi.fn(async () => ({ message: 'closedTabs' })),
+  getWindows: vi.fn(async () => []),
+  requestInitialSync: vi.fn()
+}))
+
+vi.mock('../../services/search-client.js', () => ({
+  searchClient: {
+    search: vi.fn(),
+    cancel: vi.fn()
+  }
+}))
+
+const createTab = (id: number): Tab => ({
+  id,
+  title: `Tab ${id}`,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+const tabsOf = (ids: number[]) => ids.map(createTab)
+
+const resultsOf = (ids: number[]): SearchResult[] =>
+  ids.map((id, refIndex) => ({ item: createTab(id), refIndex, score: 0, matches: [] }))
+
+// The tab on the row under the cursor
+const tabUnderCursor = () => get(filteredTabsFromSearch)[get(selectedTabIndex)]?.tab?.id
+
+describe('Search Store', () => {
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    modalMode.set('tab')
+    harpoonTabs.set([])
+    allTabs.set([])
+    clearSearch()
+    clearVisualSelection()
+    clearPendingDeletions()
+    // The list only follows its source while something (the modal) subscribes to it
+    unsubscribe = filteredTabsFromSearch.subscribe(() => {})
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  describe('Cursor across list updates', () => {
+    it('should keep the cursor on its tab when a tab is listed above it', () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      setSelectedTab(1)
+
+      // The periodic sync brings in a tab opened meanwhile
+      allTabs.set(tabsOf([4, 1, 2, 3]))
+
+      expect(get(selectedTabIndex)).toBe(2)
+      expect(tabUnderCursor()).toBe(2)
+    })
+
+    it('should close the highlighted tab, not the one that moved into its row', () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      setSelectedTab(2)
+
+      // A tab closed in the background shifts every row below it
+      allTabs.set(tabsOf([2, 3]))
+      getPickerSource('tab').actions.close({
+        items: get(filteredTabsFromSearch),
+        index: get(selectedTabIndex),
+        selection: [],
+        marked: []
+      })
+
+      expect(closeTabs).toHaveBeenCalledTimes(1)
+      expect(closeTabs).toHaveBeenCalledWith([3])
+    })
+
+    it('should stay at the same position when the highlighted tab is gone', () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      setSelectedTab(1)
+
+      allTabs.set(tabsOf([1, 3]))
+
+      expect(get(selectedTabIndex)).toBe(1)
+      expect(tabUnderCursor()).toBe(3)
+    })
+
+    it('should keep the cursor within the list when the last rows are gone', () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      setSelectedTab(2)
+
+      allTabs.set(tabsOf([1]))
+
+      expect(get(selectedTabIndex)).toBe(0)
+    })
+
+    it('should keep the visual selection on its tabs', () => {
+      allTabs.set(tabsOf([1, 2, 3, 4]))
+      setSelectedTab(1)
+      startVisualSelection(1)
+      setSelectedTab(2)
+      updateVisualCursor(2)
+
+      allTabs.set(tabsOf([5, 6, 1, 2, 3, 4]))
+
+      let items = get(filteredTabsFromSearch)
+      expect(get(visualSelectionIndices).map((index) => items[index].tab?.id)).toEqual([2, 3])
+      expect(tabUnderCursor()).toBe(3)
+
+      // A tab that lands between the selected ones stays out of the selection
+      allTabs.set(tabsOf([5, 6, 1, 2, 7, 3, 4]))
+
+      items = get(filteredTabsFromSearch)
+      expect(get(visualSelectionIndices).map((index) => items[index].tab?.id)).toEqual([2, 3])
+      expect(tabUnderCursor()).toBe(3)
+    })
+
+    it('should start results for a new query from the top', async () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      setSelectedTab(2)
+      vi.mocked(searchClient.search).mockResolvedValueOnce(resultsOf([3, 1]))
+
+      updateSearchQuery('tab')
+      await vi.waitFor(() => expect(get(filteredTabsFromSearch)).toHaveLength(2))
+
+      expect(get(selectedTabIndex)).toBe(0)
+    })
+
+    it('should follow the cursor when results for the same query are refreshed', async () => {
+      allTabs.set(tabsOf([1, 2, 3]))
+      vi.mocked(searchClient.search).mockResolvedValueOnce(resultsOf([3, 1]))
+      updateSearchQuery('tab')
+      await vi.waitFor(() => expect(get(filteredTabsFromSearch)).toHaveLength(2))
+      setSelectedTab(1)
+
+      vi.mocked(searchClient.search).mockResolvedValueOnce(resultsOf([4, 3, 1]))
+      allTabs.set(tabsOf([4, 1, 2, 3]))
+      await vi.waitFor(() => expect(get(filteredTabsFromSearch)).toHaveLength(3))
+
+      expect(tabUnderCursor()).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { Tab, TabGroupInfo } from '../../types/shared.js'
+import { searchTabGroups, tabGroupLabel } from '../tab-groups.js'
+
+const createTab = (id: number, title: string): Tab => ({
+  id,
+  title,
+  url: `https://example.com/${id}`,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: 1
+})
+
+const createGroup = (
+  id: number,
+  title: string,
+  tabs: Tab[],
+  overrides: Partial<TabGroupInfo> = {}
+): TabGroupInfo => ({
+  id,
+  title,
+  color: 'blue',
+  collapsed: false,
+  windowId: 1,
+  tabs,
+  ...overrides
+})
+
+const groups = [
+  createGroup(1, 'Research', [createTab(10, 'Papers'), createTab(11, 'Notes')], { windowId: 2 }),
+  createGroup(2, '', [createTab(20, 'Pull requests')]),
+  createGroup(3, 'Travel', [createTab(30, 'Flights')])
+]
+
+describe('tab groups store', () => {
+  it('should name unnamed groups after their first tab', () => {
+    expect(tabGroupLabel(groups[0])).toBe('Research')
+    expect(tabGroupLabel(groups[1])).toBe('Pull requests')
+    expect(tabGroupLabel(createGroup(4, '', []))).toBe('Unnamed group')
+  })
+
+  it("should list this window's groups first", () => {
+    expect(searchTabGroups(groups, '', 1).map((row) => row.tabGroup?.id)).toEqual([2, 3, 1])
+  })
+
+  it('should find groups by name and by the titles of their tabs', () => {
+    expect(searchTabGroups(groups, 'travel', 1).map((row) => row.key)).toEqual(['group:3'])
+    expect(searchTabGroups(groups, 'notes', 1).map((row) => row.tabGroup?.id)).toEqual([1])
+  })
+
+  it('should open a group on its first tab', () => {
+    const [row] = searchTabGroups(groups, 'research', 1)
+    expect(row.tab?.id).toBe(10)
+  })
+})
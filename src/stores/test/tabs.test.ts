@@ -10,16 +10,24 @@ import {
   updateHarpoonTabs,
   updateFilteredTabs,
   removeTabOptimistically,
-  clearPendingDeletions
+  clearPendingDeletions,
+  tabScope,
+  loadTabs,
+  toggleTabScope,
+  resetTabScope
 } from '../tabs.js'
 import { modalMode } from '../modal.js'
 import type { Tab } from '../../types/shared.js'
+import { toTabItem } from '../../utils/picker-items.js'
+import { requestInitialSync, getWindows } from '../../services/service-worker-bridge.js'
+import '../../pickers/index.js'
 
 // Mock the service worker bridge functions
 vi.mock('../../services/service-worker-bridge.js', () => ({
   getAllTabs: vi.fn(),
   getHarpoonTabs: vi.fn(),
   getCurrentWindowId: vi.fn(),
+  getWindows: vi.fn(),
   requestInitialSync: vi.fn()
 }))
 
@@ -39,9 +47,7 @@ describe('Tabs Store', () => {
     {
       id: 1,
       title: 'Test Tab 1',
-      highlightedTitle: 'Test Tab 1',
       url: 'https://example.com/1',
-      highlightedUrl: 'https://example.com/1',
       windowId: 1,
       faviconUrl: '',
       screenshotUrl: ''
@@ -49,9 +55,7 @@ describe('Tabs Store', () => {
     {
       id: 2,
       title: 'Test Tab 2',
-      highlightedTitle: 'Test Tab 2',
       url: 'https://example.com/2',
-      highlightedUrl: 'https://example.com/2',
       windowId: 1,
       faviconUrl: '',
       screenshotUrl: ''
@@ -59,9 +63,7 @@ describe('Tabs Store', () => {
     {
       id: 3,
       title: 'Test Tab 3',
-      highlightedTitle: 'Test Tab 3',
       url: 'https://example.com/3',
-      highlightedUrl: 'https://example.com/3',
       windowId: 1,
       faviconUrl: '',
       screenshotUrl: ''
@@ -72,9 +74,7 @@ describe('Tabs Store', () => {
     {
       id: 2,
       title: 'Test Tab 2',
-      highlightedTitle: 'Test Tab 2',
       url: 'https://example.com/2',
-      highlightedUrl: 'https://example.com/2',
       windowId: 1,
       faviconUrl: '',
       screenshotUrl: ''
@@ -115,9 +115,7 @@ describe('Tabs Store', () => {
         {
           id: 4,
           title: 'Chrome Settings',
-          highlightedTitle: 'Chrome Settings',
           url: 'chrome://settings/',
-          highlightedUrl: 'chrome://settings/',
           windowId: 1,
           faviconUrl: '',
           screenshotUrl: ''
@@ -155,12 +153,12 @@ describe('Tabs Store', () => {
 
     it('should update filtered tabs correctly', () => {
       const filteredSample = sampleTabs.slice(0, 2)
-      updateFilteredTabs(filteredSample)
+      updateFilteredTabs(filteredSample.map((tab) => toTabItem(tab)))
 
-      const tabs = get(filteredTabs)
-      expect(tabs).toHaveLength(2)
-      expect(tabs[0].id).toBe(1)
-      expect(tabs[1].id).toBe(2)
+      const items = get(filteredTabs)
+      expect(items).toHaveLength(2)
+      expect(items[0].tab?.id).toBe(1)
+      expect(items[1].tab?.id).toBe(2)
     })
   })
 
@@ -169,7 +167,7 @@ describe('Tabs Store', () => {
       // Set up initial state
       updateAllTabs(sampleTabs)
       updateHarpoonTabs(sampleHarpoonTabs)
-      updateFilteredTabs(sampleTabs)
+      updateFilteredTabs(sampleTabs.map((tab) => toTabItem(tab)))
     })
 
     it('should remove tab from all stores optimistically', () => {
@@ -193,7 +191,7 @@ describe('Tabs Store', () => {
       expect(harpoonTabsAfter.find((tab) => tab.id === 2)).toBeUndefined()
 
       expect(filteredTabsAfter).toHaveLength(2)
-      expect(filteredTabsAfter.find((tab) => tab.id === 2)).toBeUndefined()
+      expect(filteredTabsAfter.find((item) => item.tab?.id === 2)).toBeUndefined()
     })
 
     it('should handle removing non-existent tab gracefully', () => {
@@ -225,7 +223,7 @@ describe('Tabs Store', () => {
       expect(harpoonTabsAfter).toHaveLength(1) // Unchanged since tab 1 wasn't in harpoon
 
       expect(filteredTabsAfter).toHaveLength(2)
-      expect(filteredTabsAfter.find((tab) => tab.id === 1)).toBeUndefined()
+      expect(filteredTabsAfter.find((item) => item.tab?.id === 1)).toBeUndefined()
     })
 
     it('should preserve order of remaining tabs after removal', () => {
@@ -242,7 +240,7 @@ describe('Tabs Store', () => {
     beforeEach(() => {
       updateAllTabs(sampleTabs)
       updateHarpoonTabs(sampleHarpoonTabs)
-      updateFilteredTabs(sampleTabs)
+      updateFilteredTabs(sampleTabs.map((tab) => toTabItem(tab)))
     })
 
     it('should display all tabs when modal mode is "tab"', () => {
@@ -288,7 +286,7 @@ describe('Tabs Store', () => {
     beforeEach(() => {
       updateAllTabs(sampleTabs)
       updateHarpoonTabs(sampleHarpoonTabs)
-      updateFilteredTabs(sampleTabs)
+      updateFilteredTabs(sampleTabs.map((tab) => toTabItem(tab)))
     })
 
     it('should reflect optimistic removal in tabsToDisplay when in tab mode', () => {
@@ -320,5 +318,51 @@ describe('Tabs Store', () => {
       expect(displayed[0].id).toBe(2)
     })
   })
-})
 
+  describe('Tab Scope', () => {
+    beforeEach(() => {
+      resetTabScope()
+      vi.mocked(getWindows).mockResolvedValue([])
+      // The settings default to all windows
+      vi.mocked(requestInitialSync).mockImplementation(async ({ allWindows = true } = {}) => ({
+        allTabs: allWindows
+          ? [...sampleTabs, { ...sampleTabs[0], id: 4, windowId: 2 }]
+          : sampleTabs,
+        harpoonTabs: [],
+        windowId: 1,
+        allWindows
+      }))
+    })
+
+    it('should leave the first scope to the settings', async () => {
+      await loadTabs()
+
+      expect(requestInitialSync).toHaveBeenLastCalledWith({})
+      expect(get(tabScope)).toBe('all')
+      expect(get(allTabs)).toHaveLength(4)
+    })
+
+    it('should keep to the toggled scope until it is reset', async () => {
+      await loadTabs()
+      await toggleTabScope()
+
+      expect(requestInitialSync).toHaveBeenLastCalledWith({ allWindows: false })
+      expect(get(tabScope)).toBe('window')
+      expect(get(allTabs)).toHaveLength(3)
+
+      await loadTabs()
+      expect(requestInitialSync).toHaveBeenLastCalledWith({ allWindows: false })
+
+      resetTabScope()
+      await loadTabs()
+      expect(requestInitialSync).toHaveBeenLastCalledWith({})
+    })
+
+    it('should count tabs of all windows in the tab picker', async () => {
+      await loadTabs()
+      updateFilteredTabs(get(allTabs).map((tab) => toTabItem(tab)))
+
+      expect(get(tabCount)).toBe('4/4 · all windows')
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import type { Tab, WindowInfo } from '../../types/shared.js'
+import { searchWindows, windowLabel, windowTag, windows as windowsStore } from '../windows.js'
+
+const createTab = (id: number, title: string, url: string): Tab => ({
+  id,
+  title,
+  url,
+  faviconUrl: '',
+  screenshotUrl: '',
+  windowId: id
+})
+
+const createWindow = (
+  id: number,
+  activeTab: Tab | null,
+  overrides: Partial<WindowInfo> = {}
+): WindowInfo => ({
+  id,
+  focused: false,
+  state: 'normal',
+  type: 'normal',
+  tabCount: 3,
+  lastActivity: id,
+  activeTab,
+  topTabs: activeTab ? [activeTab] : [],
+  ...overrides
+})
+
+const windows = [
+  createWindow(1, createTab(10, 'Inbox', 'https://mail.example.com'), {
+    focused: true,
+    lastActivity: 9
+  }),
+  createWindow(2, createTab(20, 'Pull requests', 'https://github.com/pulls'), { name: 'Work' }),
+  createWindow(3, createTab(30, 'Recipes', 'https://food.example.com'))
+]
+
+describe('windows store', () => {
+  it('should label windows by name and active tab', () => {
+    expect(windowLabel(windows[1])).toBe('Work — Pull requests')
+    expect(windowLabel(windows[2])).toBe('Recipes')
+    expect(windowLabel(createWindow(4, null))).toBe('Window 4')
+  })
+
+  it('should list the most recently used windows first and the current one last', () => {
+    expect(searchWindows(windows, '').map((row) => row.window?.id)).toEqual([3, 2, 1])
+  })
+
+  it('should search names, active tab titles and URLs', () => {
+    expect(searchWindows(windows, 'work').map((row) => row.key)).toEqual(['window:2'])
+    expect(searchWindows(windows, 'd:github').map((row) => row.window?.id)).toEqual([2])
+  })
+
+  it('should tag tabs of other windows with the window name or its place', () => {
+    windowsStore.set([windows[2], windows[1], windows[0]])
+
+    expect(windowTag(1, 1)).toBe('this window')
+    expect(windowTag(2, 1)).toBe('Work')
+    expect(windowTag(3, 1)).toBe('window 3')
+    expect(windowTag(9, 1)).toBe('other window')
+  })
+})
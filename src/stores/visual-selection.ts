@@ -8,11 +8,16 @@ export interface VisualSelectionRange {
 // Visual selection state
 export const visualSelectionRange = writable<VisualSelectionRange | null>(null)
 
+// The selected rows once the list changed under the selection, found again by key so rows
+// that moved in between don't join it; null while the selection is the range
+const keptSelection = writable<number[] | null>(null)
+
 // Derived store that calculates the actual selection indices
 export const visualSelectionIndices = derived(
-  visualSelectionRange,
-  ($range) => {
+  [visualSelectionRange, keptSelection],
+  ([$range, $kept]) => {
     if (!$range) return []
+    if ($kept) return $kept
     
     const start = Math.min($range.anchor, $range.cursor)
     const end = Math.max($range.anchor, $range.cursor)
@@ -28,13 +33,16 @@ export const visualSelectionIndices = derived(
 
 // Actions
 export function startVisualSelection(anchorIndex: number) {
+  keptSelection.set(null)
   visualSelectionRange.set({
     anchor: anchorIndex,
     cursor: anchorIndex
   })
 }
 
+// Moving the cursor selects the range from the anchor again
 export function updateVisualCursor(cursorIndex: number) {
+  keptSelection.set(null)
   visualSelectionRange.update(range => {
     if (!range) return null
     return {
@@ -45,9 +53,19 @@ export function updateVisualCursor(cursorIndex: number) {
 }
 
 export function clearVisualSelection() {
+  keptSelection.set(null)
   visualSelectionRange.set(null)
 }
 
+/**
+ * Keep the selection on the rows it holds after the list changed: the ends of the range
+ * where their rows went, and the selected rows themselves
+ */
+export function keepVisualSelection(range: VisualSelectionRange, indices: number[]) {
+  visualSelectionRange.set(range)
+  keptSelection.set(indices)
+}
+
 export function getVisualSelectionSize(): number {
   let size = 0
   visualSelectionIndices.subscribe(indices => {
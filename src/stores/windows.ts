@@ -0,0 +1,86 @@
+import { get, writable } from 'svelte/store'
+import type { PickerItem, SearchableTab, SearchMatch, WindowInfo } from '../types/shared.js'
+import { getWindows } from '../services/service-worker-bridge.js'
+import { searchTabs } from '../services/search.js'
+import { toMatchSegments } from '../utils/highlight.js'
+import { tabsLogger } from '../utils/logger.js'
+
+// Browser windows, loaded when the picker opens
+export const windows = writable<WindowInfo[]>([])
+// Tabs waiting for a window to be picked to move to; while set, the picker moves them there
+export const tabsToMove = writable<number[]>([])
+
+export async function loadWindows() {
+  try {
+    windows.set(await getWindows())
+  } catch (error) {
+    tabsLogger.error('Failed to load windows:', error)
+  }
+}
+
+/**
+ * Label a window with its name and its active tab, e.g. "Work — Pull requests"
+ */
+export function windowLabel(window: WindowInfo): string {
+  const activeTitle = window.activeTab?.title || `Window ${window.id}`
+  return window.name ? `${window.name} — ${activeTitle}` : activeTitle
+}
+
+/**
+ * A short label for the window a tab is in, for tab lists that span windows: "this window",
+ * the window's name, or its place among the open windows, e.g. "window 2"
+ */
+export function windowTag(windowId: number, currentWindowId: number | null): string {
+  if (windowId === currentWindowId) {
+    return 'this window'
+  }
+  const ordered = [...get(windows)].sort((a, b) => a.id - b.id)
+  const window = ordered.find((window) => window.id === windowId)
+  if (window?.name) {
+    return window.name
+  }
+  return window ? `window ${ordered.indexOf(window) + 1}` : 'other window'
+}
+
+/**
+ * Search windows by name, active tab title and URL with the tab search syntax. Without a
+ * query the most recently used windows come first and the current one last.
+ */
+export function searchWindows(items: WindowInfo[], query: string): PickerItem[] {
+  const ordered = [...items].sort(
+    (a, b) => Number(a.focused) - Number(b.focused) || b.lastActivity - a.lastActivity
+  )
+  const searchable: (SearchableTab & { window: WindowInfo })[] = ordered.map((window) => ({
+    id: window.id,
+    title: windowLabel(window),
+    url: window.activeTab?.url ?? '',
+    windowId: -1,
+    window
+  }))
+
+  return searchTabs(searchable, query).map(({ item, matches }) =>
+    toWindowItem(item.window, matches)
+  )
+}
+
+/**
+ * A picker row for a window; it looks like the window's active tab
+ */
+export function toWindowItem(window: WindowInfo, matches: SearchMatch[] = []): PickerItem {
+  const title = windowLabel(window)
+  const url = window.activeTab?.url ?? ''
+  const titleMatch = matches.find((match) => match.key === 'title')
+  const urlMatch = matches.find((match) => match.key === 'url')
+
+  return {
+    key: `window:${window.id}`,
+    source: 'window',
+    title,
+    url,
+    faviconUrl: window.activeTab?.faviconUrl ?? '',
+    screenshotUrl: window.activeTab?.screenshotUrl ?? '',
+    window,
+    titleSegments: toMatchSegments(title, titleMatch?.indices),
+    urlSegments: toMatchSegments(url, urlMatch?.indices)
+  }
+}
@@ -1,12 +1,211 @@
+import type { PickerSource } from '../pickers/types.js'
+
 export type Tab = {
   id: number
   url: string
-  highlightedUrl: string
   title: string
-  highlightedTitle: string
   faviconUrl: string
   screenshotUrl: string
   windowId: number
+  // The tab group the tab is in, if any
+  groupId?: number
+  groupTitle?: string
+  groupColor?: TabGroupColor
+}
+
+// The colors the browser offers for tab groups
+export type TabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange'
+
+// The tab fields search needs; the rest (e.g. screenshots) never has to cross to the search port
+export type SearchableTab = Pick<Tab, 'id' | 'title' | 'url' | 'windowId' | 'groupId' | 'groupTitle'>
+
+export type SearchMatch = {
+  key: 'title' | 'url'
+  // Inclusive [start, end] ranges of matched characters
+  indices: [number, number][]
+}
+
+// A match as reported by the service worker, pointing back into the tabs that were sent
+export type SearchHit = {
+  tabId: number
+  refIndex: number
+  score: number
+  matches: SearchMatch[]
+}
+
+// Messages on the search port (content script -> service worker)
+export type SearchPortRequest =
+  | { type: 'setTabs'; tabs: SearchableTab[] }
+  | { type: 'search'; requestId: number; query: string; harpoonTabIds: number[] }
+  | { type: 'cancel' }
+
+// Messages on the search port (service worker -> content script)
+export type SearchPortResponse =
+  | { type: 'results'; requestId: number; hits: SearchHit[] }
+  | { type: 'error'; requestId: number; error: string }
+
+// A run of text that is either part of a search match or not
+export type MatchSegment = {
+  text: string
+  highlighted: boolean
+}
+
+// Where a picker row comes from
+export type ItemSource =
+  | 'tab'
+  | 'harpoon'
+  | 'grep'
+  | 'block'
+  | 'link'
+  | 'closed'
+  | 'bookmark'
+  | 'history'
+  | 'window'
+  | 'group'
+
+// A row in a picker: a tab, or anything else with a title and URL, with both split into
+// match segments. Rows that stand for an open tab carry it in `tab`.
+export type PickerItem = {
+  // Unique row key; a picker can list the same tab more than once
+  key: string
+  source: ItemSource
+  title: string
+  url: string
+  faviconUrl: string
+  screenshotUrl: string
+  titleSegments: MatchSegment[]
+  urlSegments: MatchSegment[]
+  tab?: Tab
+  // 1-based harpoon slot of the tab
+  harpoonSlot?: number
+  grepMatch?: GrepMatch
+  pageBlock?: PageBlock
+  pageLink?: PageLink
+  closedSession?: ClosedSession
+  bookmark?: Bookmark
+  historyEntry?: HistoryEntry
+  window?: WindowInfo
+  tabGroup?: TabGroupInfo
+}
+
+// A block of text on the current page: a heading, paragraph, list item, code block or landmark
+export type PageBlock = {
+  // Position in the page index, used to find the element again
+  index: number
+  tag: string
+  text: string
+  // Indentation in the page outline
+  depth?: number
+  // Text of the neighbouring blocks
+  before: string[]
+  after: string[]
+}
+
+// A line of page text matching a live grep query
+export type GrepMatch = {
+  query: string
+  // The matching line, clipped around the match for display
+  line: string
+  matchStart: number
+  matchEnd: number
+  // Lines around the match
+  before: string[]
+  after: string[]
+  // Index of the match among all matches of the query on the page, used to find it again
+  occurrence: number
+}
+
+// A link on the current page
+export type PageLink = {
+  // Position in the page's link index, used to find the element again
+  index: number
+  text: string
+  url: string
+  // Whether the link is inside the viewport
+  onScreen: boolean
+  // Text of the block the link sits in
+  context: string
+}
+
+// A recently closed tab or window, as recorded by the browser's sessions API
+export type ClosedSession = {
+  sessionId: string
+  kind: 'tab' | 'window'
+  title: string
+  url: string
+  faviconUrl: string
+  screenshotUrl: string
+  // When it was closed, in milliseconds since the epoch
+  closedAt: number
+  // Titles of the tabs in a closed window
+  tabTitles?: string[]
+}
+
+// A bookmark from the flattened bookmark tree
+export type Bookmark = {
+  id: string
+  title: string
+  url: string
+  // Folders from the top level down, e.g. ['Bookmarks bar', 'Work']
+  folderPath: string[]
+  faviconUrl: string
+}
+
+// A page from the browser history, one per URL
+export type HistoryEntry = {
+  id: string
+  title: string
+  url: string
+  faviconUrl: string
+  visitCount: number
+  // In milliseconds since the epoch
+  lastVisitTime: number
+}
+
+// A browser window as the window picker lists it
+export interface WindowInfo {
+  id: number
+  focused: boolean
+  state: string
+  type: string
+  tabCount: number
+  lastActivity: number
+  // Set by the user; windows without one go by their active tab
+  name?: string
+  activeTab: Tab | null
+  // Most recently used tabs first, for the preview
+  topTabs: Tab[]
+}
+
+// A tab group as the group picker lists it
+export interface TabGroupInfo {
+  id: number
+  // Groups can be left unnamed
+  title: string
+  color: TabGroupColor
+  collapsed: boolean
+  windowId: number
+  // In tab strip order
+  tabs: Tab[]
+}
+
+export type GrepTabResult = {
+  tab: Tab
+  matches: GrepMatch[]
+}
+
+export type TabActivity = {
+  count: number
+  timestamps: number[]
 }
 
 export type SystemHealth = {
@@ -16,5 +215,6 @@ export type SystemHealth = {
   lastHealthCheck: number
 }
 
-export type ModalMode = 'tab' | 'harpoon'
+// The picker the modal shows; getPickerSource rejects modes no picker registered
+export type ModalMode = PickerSource['mode']
 export type InputMode = 'insert' | 'normal' | 'visual'
@@ -0,0 +1,10 @@
+/**
+ * Favicon URL from Google's favicon service, for when the browser doesn't provide one
+ * (e.g. for new tabs, closed tabs and bookmarks)
+ */
+export function generateFaviconUrl(url: string): string {
+  const faviconUrl = new URL('https://www.google.com/s2/favicons')
+  faviconUrl.searchParams.set('sz', '64')
+  faviconUrl.searchParams.set('domain_url', url)
+  return faviconUrl.toString()
+}
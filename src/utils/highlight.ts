@@ -0,0 +1,44 @@
+import type { MatchSegment } from '../types/shared.js'
+
+/**
+ * Split text into plain and highlighted segments from inclusive [start, end] match ranges.
+ * The result is rendered as text nodes, so page titles can never inject markup.
+ */
+export function toMatchSegments(
+  text: string,
+  indices: readonly (readonly [number, number])[] = []
+): MatchSegment[] {
+  const segments: MatchSegment[] = []
+  let lastIndex = 0
+
+  // Sort by start position, ignoring anything outside the text
+  const validIndices = indices
+    .filter(([start, end]) => end >= start)
+    .map(([start, end]) => [Math.max(0, start), Math.min(text.length - 1, end)] as const)
+    .sort((a, b) => a[0] - b[0])
+
+  for (const [start, end] of validIndices) {
+    // Skip ranges already covered by a previous (overlapping) match
+    if (end < lastIndex) continue
+    const clampedStart = Math.max(start, lastIndex)
+
+    if (clampedStart > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, clampedStart), highlighted: false })
+    }
+    segments.push({ text: text.slice(clampedStart, end + 1), highlighted: true })
+    lastIndex = end + 1
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlighted: false })
+  }
+
+  return segments
+}
+
+/**
+ * Segments for text without any matches
+ */
+export function plainSegments(text: string): MatchSegment[] {
+  return text ? [{ text, highlighted: false }] : []
+}
@@ -64,3 +64,25 @@ export function truncateUrl(url: string) {
 export function isRunningInIFrame() {
   return window.self !== window.top
 }
+
+/**
+ * Whether an element is rendered, e.g. not under display: none; older browsers without
+ * checkVisibility count everything as visible
+ */
+export function isVisible(element: Element): boolean {
+  return typeof element.checkVisibility === 'function' ? element.checkVisibility() : true
+}
+
+/**
+ * Briefly outline an element so the eye can find it after scrolling to it
+ */
+export function flashElement(element: HTMLElement, duration = 1500) {
+  const { outline, outlineOffset } = element.style
+  element.style.outline = '2px solid #ffeb3b'
+  element.style.outlineOffset = '2px'
+
+  setTimeout(() => {
+    element.style.outline = outline
+    element.style.outlineOffset = outlineOffset
+  }, duration)
+}
@@ -0,0 +1,34 @@
+import type { PickerItem, SearchMatch, Tab } from '../types/shared.js'
+import { toMatchSegments } from './highlight.js'
+
+/**
+ * A picker row for an open tab, with the title and URL matches search found in it
+ */
+export function toTabItem(
+  tab: Tab,
+  matches: SearchMatch[] = [],
+  options: { source?: 'tab' | 'harpoon'; harpoonSlot?: number } = {}
+): PickerItem {
+  const titleMatch = matches.find((match) => match.key === 'title')
+  const urlMatch = matches.find((match) => match.key === 'url')
+
+  return {
+    key: `tab:${tab.id}`,
+    source: options.source ?? 'tab',
+    title: tab.title,
+    url: tab.url,
+    faviconUrl: tab.faviconUrl,
+    screenshotUrl: tab.screenshotUrl,
+    titleSegments: toMatchSegments(tab.title, titleMatch?.indices),
+    urlSegments: toMatchSegments(tab.url, urlMatch?.indices),
+    tab,
+    ...(options.harpoonSlot !== undefined && { harpoonSlot: options.harpoonSlot })
+  }
+}
+
+/**
+ * The open tabs behind a list of picker rows, in row order
+ */
+export function tabsOf(items: (PickerItem | undefined)[]): Tab[] {
+  return items.flatMap((item) => (item?.tab ? [item.tab] : []))
+}
@@ -24,4 +24,10 @@ export function filterTabsByWindow(tabs: Tab[], currentWindowId: number): Tab[]
  */
 export function canReceiveMessages(tab: chrome.tabs.Tab): tab is chrome.tabs.Tab & { id: number } {
   return !!(tab.id && !tab.url?.includes('chrome://') && !tab.url?.includes('about:'))
-}
\ No newline at end of file
+}
+/**
+ * Checks if two URLs point at the same page, ignoring the fragment
+ */
+export function isSameUrl(a: string, b: string): boolean {
+  return a.split('#')[0] === b.split('#')[0]
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { toMatchSegments, plainSegments } from '../highlight.js'
+
+describe('Highlight Utilities', () => {
+  describe('toMatchSegments', () => {
+    it('should return a single plain segment when there are no matches', () => {
+      expect(toMatchSegments('GitHub')).toEqual([{ text: 'GitHub', highlighted: false }])
+    })
+
+    it('should split text around matched ranges', () => {
+      expect(toMatchSegments('GitHub Issues', [[7, 12]])).toEqual([
+        { text: 'GitHub ', highlighted: false },
+        { text: 'Issues', highlighted: true }
+      ])
+    })
+
+    it('should highlight single character matches', () => {
+      expect(toMatchSegments('GitHub', [[0, 0], [3, 3]])).toEqual([
+        { text: 'G', highlighted: true },
+        { text: 'it', highlighted: false },
+        { text: 'H', highlighted: true },
+        { text: 'ub', highlighted: false }
+      ])
+    })
+
+    it('should sort unordered ranges and not repeat overlapping text', () => {
+      expect(toMatchSegments('abcdefgh', [[4, 6], [0, 2], [1, 3]])).toEqual([
+        { text: 'abc', highlighted: true },
+        { text: 'd', highlighted: true },
+        { text: 'efg', highlighted: true },
+        { text: 'h', highlighted: false }
+      ])
+    })
+
+    it('should clamp ranges that run past the end of the text', () => {
+      expect(toMatchSegments('abc', [[1, 10]])).toEqual([
+        { text: 'a', highlighted: false },
+        { text: 'bc', highlighted: true }
+      ])
+    })
+
+    it('should keep markup in titles as literal text', () => {
+      const title = '<img src=x onerror=alert(1)> Inbox'
+      const segments = toMatchSegments(title, [[0, 3]])
+
+      expect(segments.map((segment) => segment.text).join('')).toBe(title)
+      expect(segments[0]).toEqual({ text: '<img', highlighted: true })
+      expect(segments.some((segment) => segment.text.includes('telescope-highlighted'))).toBe(false)
+    })
+
+    it('should not inject elements when segments are rendered as text nodes', () => {
+      const title = '<script>window.pwned = true</script><b>bold</b>'
+      const container = document.createElement('span')
+
+      for (const segment of toMatchSegments(title, [[8, 13]])) {
+        container.appendChild(document.createTextNode(segment.text))
+      }
+
+      expect(container.children).toHaveLength(0)
+      expect(container.textContent).toBe(title)
+    })
+  })
+
+  describe('plainSegments', () => {
+    it('should wrap text in a single plain segment', () => {
+      expect(plainSegments('Example')).toEqual([{ text: 'Example', highlighted: false }])
+    })
+
+    it('should return no segments for empty text', () => {
+      expect(plainSegments('')).toEqual([])
+    })
+  })
+})
@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach } from 'vitest'
 import {
   filterTabsForDisplay,
   filterTabsByWindow,
-  canReceiveMessages
+  canReceiveMessages,
+  isSameUrl
 } from '../tab-filters.js'
 import type { Tab } from '../../types/shared.js'
 
@@ -10,8 +11,6 @@ const createMockTab = (overrides: Partial<Tab> = {}): Tab => ({
   id: 1,
   title: 'Test Tab',
   url: 'https://example.com',
-  highlightedTitle: 'Test Tab',
-  highlightedUrl: 'https://example.com',
   faviconUrl: 'https://example.com/favicon.ico',
   screenshotUrl: 'https://example.com/screenshot.png',
   windowId: 1,
@@ -215,4 +214,15 @@ describe('Tab Filters', () => {
       })
     })
   })
-})
\ No newline at end of file
+  describe('isSameUrl', () => {
+    it('should ignore the fragment', () => {
+      expect(isSameUrl('https://example.com/page#intro', 'https://example.com/page')).toBe(true)
+      expect(isSameUrl('https://example.com/page#a', 'https://example.com/page#b')).toBe(true)
+    })
+
+    it('should tell different pages and queries apart', () => {
+      expect(isSameUrl('https://example.com/a', 'https://example.com/b')).toBe(false)
+      expect(isSameUrl('https://example.com/?q=1', 'https://example.com/?q=2')).toBe(false)
+    })
+  })
+})
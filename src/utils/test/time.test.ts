@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { formatTimeAgo } from '../time.js'
+
+describe('formatTimeAgo', () => {
+  const now = 1_700_000_000_000
+
+  it('should format recent times', () => {
+    expect(formatTimeAgo(now - 10_000, now)).toBe('just now')
+    expect(formatTimeAgo(now - 5 * 60_000, now)).toBe('5m ago')
+    expect(formatTimeAgo(now - 3 * 3_600_000, now)).toBe('3h ago')
+    expect(formatTimeAgo(now - 2 * 86_400_000, now)).toBe('2d ago')
+  })
+
+  it('should treat future times as now', () => {
+    expect(formatTimeAgo(now + 60_000, now)).toBe('just now')
+  })
+})
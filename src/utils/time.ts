@@ -0,0 +1,11 @@
+/**
+ * Short relative time like "just now", "5m ago", "3h ago" or "2d ago"
+ */
+export function formatTimeAgo(timestamp: number, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000))
+
+  if (seconds < 60) return 'just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+  return `${Math.floor(seconds / 86400)}d ago`
+}